@@ -6,8 +6,8 @@ import {
   PipelineRequest,
   PipelineResponse,
   SendRequest,
+  hmacSigningPolicy,
 } from "@azure/core-rest-pipeline";
-import { shaHMAC, shaHash } from "./cryptoUtils";
 import { KeyCredential } from "@azure/core-auth";
 import { isNode } from "@azure/core-util";
 
@@ -26,35 +26,22 @@ const communicationAccessKeyCredentialPolicy = "CommunicationAccessKeyCredential
 export function createCommunicationAccessKeyCredentialPolicy(
   credential: KeyCredential
 ): PipelinePolicy {
+  const signedHeaders = ["x-ms-date", "host", "x-ms-content-sha256"];
+  const signingPolicy = hmacSigningPolicy({
+    credential,
+    contentHashHeaderName: "x-ms-content-sha256",
+    stringToSign: ["method", "pathAndQuery", { headers: signedHeaders, separator: ";" }],
+    formatAuthorization: (signature) =>
+      `HMAC-SHA256 SignedHeaders=${signedHeaders.join(";")}&Signature=${signature}`,
+  });
+
   return {
     name: communicationAccessKeyCredentialPolicy,
     async sendRequest(request: PipelineRequest, next: SendRequest): Promise<PipelineResponse> {
-      const verb = request.method.toUpperCase();
-      const utcNow = new Date().toUTCString();
-      const contentHash = await shaHash(request.body?.toString() || "");
-      const dateHeader = "x-ms-date";
-      const signedHeaders = `${dateHeader};host;x-ms-content-sha256`;
-
-      const url = new URL(request.url);
-      const query = url.searchParams;
-      const urlPathAndQuery = query ? `${url.pathname}?${query}` : url.pathname;
-      const port = url.port;
-      const hostAndPort = port ? `${url.host}:${port}` : url.host;
-
-      const stringToSign = `${verb}\n${urlPathAndQuery}\n${utcNow};${hostAndPort};${contentHash}`;
-      const signature = await shaHMAC(credential.key, stringToSign);
-
       if (isNode) {
-        request.headers.set("Host", hostAndPort || "");
+        request.headers.set("Host", new URL(request.url).host);
       }
-
-      request.headers.set(dateHeader, utcNow);
-      request.headers.set("x-ms-content-sha256", contentHash);
-      request.headers.set(
-        "Authorization",
-        `HMAC-SHA256 SignedHeaders=${signedHeaders}&Signature=${signature}`
-      );
-      return next(request);
+      return signingPolicy.sendRequest(request, next);
     },
   };
 }
@@ -1,32 +1,15 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { AbortSignal, AbortSignalLike, abortSignal } from "./AbortSignal";
+import {
+  AbortSignal,
+  AbortSignalLike,
+  abortAtDeadline,
+  abortSignal,
+  followSignals,
+} from "./AbortSignal";
 
-/**
- * This error is thrown when an asynchronous operation has been aborted.
- * Check for this error by testing the `name` that the name property of the
- * error matches `"AbortError"`.
- *
- * @example
- * ```ts
- * const controller = new AbortController();
- * controller.abort();
- * try {
- *   doAsyncWork(controller.signal)
- * } catch (e) {
- *   if (e.name === 'AbortError') {
- *     // handle abort error here.
- *   }
- * }
- * ```
- */
-export class AbortError extends Error {
-  constructor(message?: string) {
-    super(message);
-    this.name = "AbortError";
-  }
-}
+export { AbortError } from "./AbortError";
 
 /**
  * An AbortController provides an AbortSignal and the associated controls to signal
@@ -83,20 +66,9 @@ export class AbortController {
     // coerce parentSignals into an array
     if (!Array.isArray(parentSignals)) {
       // eslint-disable-next-line prefer-rest-params
-      parentSignals = arguments;
-    }
-    for (const parentSignal of parentSignals) {
-      // if the parent signal has already had abort() called,
-      // then call abort on this signal as well.
-      if (parentSignal.aborted) {
-        this.abort();
-      } else {
-        // when the parent signal aborts, this signal should as well.
-        parentSignal.addEventListener("abort", () => {
-          this.abort();
-        });
-      }
+      parentSignals = Array.from(arguments);
     }
+    followSignals(this._signal, parentSignals);
   }
 
   /**
@@ -112,22 +84,21 @@ export class AbortController {
   /**
    * Signal that any operations passed this controller's associated abort signal
    * to cancel any remaining work and throw an `AbortError`.
+   * @param reason - The reason of the abort, available as the `reason` of the signal. Defaults to an `AbortError`.
    */
-  abort(): void {
-    abortSignal(this._signal);
+  abort(reason?: unknown): void {
+    abortSignal(this._signal, reason);
   }
 
   /**
-   * Creates a new AbortSignal instance that will abort after the provided ms.
+   * Creates a new AbortSignal instance that will abort after the provided ms, with a `DeadlineExceededError` as its reason.
+   * The time it aborts at is its `deadline`, so operations stop waiting between retries that
+   * would end after it.
    * @param ms - Elapsed time in milliseconds to trigger an abort.
    */
   public static timeout(ms: number): AbortSignal {
     const signal = new AbortSignal();
-    const timer = setTimeout(abortSignal, ms, signal);
-    // Prevent the active Timer from keeping the Node.js event loop active.
-    if (typeof timer.unref === "function") {
-      timer.unref();
-    }
+    abortAtDeadline(signal, Date.now() + ms);
     return signal;
   }
 }
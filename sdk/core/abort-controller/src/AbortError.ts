@@ -0,0 +1,35 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+/**
+ * This error is thrown when an asynchronous operation has been aborted.
+ * Check for this error by testing the `name` that the name property of the
+ * error matches `"AbortError"`.
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * controller.abort();
+ * try {
+ *   doAsyncWork(controller.signal)
+ * } catch (e) {
+ *   if (e.name === 'AbortError') {
+ *     // handle abort error here.
+ *   }
+ * }
+ * ```
+ */
+export class AbortError extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * This error is the reason of a signal that was aborted because it timed out, such as a signal
+ * created by `AbortController.timeout` or the signal of an `OperationBudget` once its deadline passed.
+ * It is an `AbortError` with the same `name`, so code that handles aborted operations handles it as well.
+ * Use `instanceof` to tell it apart from other aborts.
+ */
+export class DeadlineExceededError extends AbortError {}
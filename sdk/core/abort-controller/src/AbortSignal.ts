@@ -4,10 +4,17 @@
 // eslint-disable-next-line @typescript-eslint/triple-slash-reference
 /// <reference path="../shims-public.d.ts" />
 
+import { AbortError, DeadlineExceededError } from "./AbortError";
+
 type AbortEventListener = (this: AbortSignalLike, ev?: any) => any;
 
 const listenersMap = new WeakMap<AbortSignal, AbortEventListener[]>();
 const abortedMap = new WeakMap<AbortSignal, boolean>();
+const reasonMap = new WeakMap<AbortSignal, unknown>();
+const deadlineMap = new WeakMap<AbortSignal, number>();
+
+// setTimeout fires immediately when the delay doesn't fit in a signed 32-bit integer.
+const maxTimeoutInMs = 2147483647;
 
 /**
  * Allows the request to be aborted upon firing of the "abort" event.
@@ -18,6 +25,16 @@ export interface AbortSignalLike {
    * Indicates if the signal has already been aborted.
    */
   readonly aborted: boolean;
+  /**
+   * The reason why the signal was aborted, if any. Signals that don't track reasons leave it undefined.
+   */
+  readonly reason?: unknown;
+  /**
+   * The time, in milliseconds since the epoch, by which the operation must be done, if any.
+   * It is read from any signal that has it, so that signals from other implementations
+   * or copies of this package can carry a deadline as well.
+   */
+  readonly deadline?: number;
   /**
    * Add new "abort" event listener, only support "abort" event.
    */
@@ -68,6 +85,41 @@ export class AbortSignal implements AbortSignalLike {
     return abortedMap.get(this)!;
   }
 
+  /**
+   * The reason why the signal was aborted, or undefined if it wasn't aborted.
+   * It is an `AbortError` unless another reason was given to `AbortController.abort`, or a
+   * `DeadlineExceededError` if the deadline of the signal passed or the signal timed out.
+   *
+   * @readonly
+   */
+  public get reason(): unknown {
+    if (!abortedMap.has(this)) {
+      throw new TypeError("Expected `this` to be an instance of AbortSignal.");
+    }
+
+    return reasonMap.get(this);
+  }
+
+  /**
+   * The time, in milliseconds since the epoch, by which the operation must be done, or undefined
+   * if there is no deadline. Signals created by `AbortController.timeout`, the signals of an
+   * `OperationBudget` and the signals that follow them have a deadline.
+   *
+   * @readonly
+   */
+  public get deadline(): number | undefined {
+    return deadlineMap.get(this);
+  }
+
+  /**
+   * Throws the reason of the signal if it was aborted.
+   */
+  public throwIfAborted(): void {
+    if (this.aborted) {
+      throw this.reason;
+    }
+  }
+
   /**
    * Creates a new AbortSignal instance that will never be aborted.
    *
@@ -77,6 +129,17 @@ export class AbortSignal implements AbortSignalLike {
     return new AbortSignal();
   }
 
+  /**
+   * Creates a new AbortSignal instance that is aborted, with the same reason, as soon as any of the provided signals is aborted.
+   * Its deadline is the earliest deadline of the provided signals, if any.
+   * @param signals - The signals to follow.
+   */
+  public static any(signals: AbortSignalLike[]): AbortSignal {
+    const signal = new AbortSignal();
+    followSignals(signal, signals);
+    return signal;
+  }
+
   /**
    * onabort event listener.
    */
@@ -144,11 +207,13 @@ export class AbortSignal implements AbortSignalLike {
  * @internal
  */
 // eslint-disable-next-line @azure/azure-sdk/ts-use-interface-parameters
-export function abortSignal(signal: AbortSignal): void {
+export function abortSignal(signal: AbortSignal, reason?: unknown): void {
   if (signal.aborted) {
     return;
   }
 
+  reasonMap.set(signal, reason ?? new AbortError("The operation was aborted."));
+
   if (signal.onabort) {
     signal.onabort.call(signal);
   }
@@ -165,3 +230,63 @@ export function abortSignal(signal: AbortSignal): void {
 
   abortedMap.set(signal, true);
 }
+
+/**
+ * Aborts the given signal as soon as any of the parent signals is aborted, with the same reason,
+ * and bounds its deadline by the deadlines of the parent signals.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @azure/azure-sdk/ts-use-interface-parameters
+export function followSignals(signal: AbortSignal, parentSignals: AbortSignalLike[]): void {
+  for (const parentSignal of parentSignals) {
+    const deadline = getDeadline(parentSignal);
+    if (deadline < getDeadline(signal)) {
+      deadlineMap.set(signal, deadline);
+    }
+    // if the parent signal has already been aborted,
+    // then abort this signal as well.
+    if (parentSignal.aborted) {
+      abortSignal(signal, parentSignal.reason);
+    } else {
+      // when the parent signal aborts, this signal should as well.
+      parentSignal.addEventListener("abort", () => {
+        abortSignal(signal, parentSignal.reason);
+      });
+    }
+  }
+}
+
+/**
+ * Sets the deadline of the given signal and aborts it with a `DeadlineExceededError` once the deadline passes.
+ *
+ * @internal
+ */
+// eslint-disable-next-line @azure/azure-sdk/ts-use-interface-parameters
+export function abortAtDeadline(signal: AbortSignal, deadline: number): void {
+  deadlineMap.set(signal, deadline);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const schedule = (): void => {
+    const remainingInMs = deadline - Date.now();
+    if (remainingInMs <= 0) {
+      abortSignal(signal, new DeadlineExceededError("The operation deadline was exceeded."));
+      return;
+    }
+    timer = setTimeout(schedule, Math.min(remainingInMs, maxTimeoutInMs));
+    // Prevent the active Timer from keeping the Node.js event loop active.
+    if (typeof timer.unref === "function") {
+      timer.unref();
+    }
+  };
+  signal.addEventListener("abort", () => clearTimeout(timer));
+  schedule();
+}
+
+/**
+ * Returns the deadline of the given signal in milliseconds since the epoch, or `Infinity` if it has none.
+ *
+ * @internal
+ */
+export function getDeadline(signal: AbortSignalLike): number {
+  return typeof signal.deadline === "number" ? signal.deadline : Infinity;
+}
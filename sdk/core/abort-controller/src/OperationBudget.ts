@@ -0,0 +1,133 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+  AbortSignal,
+  AbortSignalLike,
+  abortAtDeadline,
+  followSignals,
+  getDeadline,
+} from "./AbortSignal";
+
+/**
+ * Options to create an `OperationBudget`.
+ */
+export interface OperationBudgetOptions {
+  /**
+   * The time in milliseconds the operation may take.
+   */
+  timeoutInMs?: number;
+  /**
+   * The time by which the operation must be done. When both this and `timeoutInMs` are set,
+   * the sooner of the two applies.
+   */
+  deadline?: Date;
+  /**
+   * A signal to abort the operation. If the signal has a deadline, it bounds the deadline of the budget as well.
+   */
+  abortSignal?: AbortSignalLike;
+}
+
+/**
+ * Returns the time in milliseconds left before the deadline of the given signal, which is
+ * `Infinity` if the signal has no deadline and 0 once the deadline has passed.
+ * The deadline is the `deadline` property of the signal, which signals created by
+ * `AbortController.timeout`, the signals of an `OperationBudget` and the signals that follow them have.
+ *
+ * Policies that wait between attempts, such as retry policies, use it to stop waiting
+ * when the operation can't complete before its deadline anyway.
+ * @param abortSignal - The signal of the operation.
+ */
+export function getRemainingTimeInMs(abortSignal?: AbortSignalLike): number {
+  if (!abortSignal) {
+    return Infinity;
+  }
+  return Math.max(getDeadline(abortSignal) - Date.now(), 0);
+}
+
+/**
+ * An OperationBudget bounds the time an operation may take, including the time spent waiting
+ * between retries or polling requests. Its signal is aborted with a `DeadlineExceededError` once
+ * the deadline passes, and carries the deadline to the nested operations it is passed to,
+ * so they can tell how much time is left with `getRemainingTimeInMs`.
+ *
+ * @example
+ * Bound an operation and its retries to 30 seconds
+ * ```ts
+ * const budget = new OperationBudget({ timeoutInMs: 30 * 1000 });
+ * await client.doWork({ abortSignal: budget.signal });
+ * ```
+ *
+ * @example
+ * Leave part of the budget for a follow-up operation
+ * ```ts
+ * const budget = new OperationBudget({ timeoutInMs: 30 * 1000 });
+ * await client.doWork({ abortSignal: budget.createChild(20 * 1000).signal });
+ * await client.doMoreWork({ abortSignal: budget.signal });
+ * ```
+ */
+export class OperationBudget {
+  private _signal: AbortSignal;
+
+  /**
+   * @param options - The time the operation may take, and the signal to abort it.
+   */
+  constructor(options: OperationBudgetOptions = {}) {
+    const { timeoutInMs, deadline, abortSignal } = options;
+    this._signal = new AbortSignal();
+    if (abortSignal) {
+      followSignals(this._signal, [abortSignal]);
+    }
+    const ownDeadline = Math.min(
+      timeoutInMs !== undefined ? Date.now() + timeoutInMs : Infinity,
+      deadline?.getTime() ?? Infinity
+    );
+    if (ownDeadline < getDeadline(this._signal) && !this._signal.aborted) {
+      abortAtDeadline(this._signal, ownDeadline);
+    }
+  }
+
+  /**
+   * The signal of the operation, which is aborted once the deadline passes or the signal given
+   * in the options is aborted. Pass it to the nested operations.
+   *
+   * @readonly
+   */
+  public get signal(): AbortSignal {
+    return this._signal;
+  }
+
+  /**
+   * The time by which the operation must be done, or undefined if there is no deadline.
+   *
+   * @readonly
+   */
+  public get deadline(): Date | undefined {
+    const deadline = getDeadline(this._signal);
+    return deadline === Infinity ? undefined : new Date(deadline);
+  }
+
+  /**
+   * Returns the time in milliseconds left before the deadline, which is `Infinity` if there is no deadline.
+   */
+  public getRemainingTimeInMs(): number {
+    return getRemainingTimeInMs(this._signal);
+  }
+
+  /**
+   * Returns whether the operation can wait for the given time and still have time left afterwards.
+   * @param delayInMs - The time to wait in milliseconds.
+   */
+  public canWait(delayInMs: number): boolean {
+    return !this._signal.aborted && delayInMs < this.getRemainingTimeInMs();
+  }
+
+  /**
+   * Creates a budget for a nested operation, which is bounded by the deadline of this budget
+   * and aborted when this budget is.
+   * @param timeoutInMs - The time in milliseconds the nested operation may take.
+   */
+  public createChild(timeoutInMs?: number): OperationBudget {
+    return new OperationBudget({ timeoutInMs, abortSignal: this._signal });
+  }
+}
@@ -10,5 +10,7 @@
 // Potential changes to align with DOM Spec
 // * dispatchEvent on Signal
 
-export { AbortController, AbortError } from "./AbortController";
+export { AbortController } from "./AbortController";
+export { AbortError, DeadlineExceededError } from "./AbortError";
 export { AbortSignal, AbortSignalLike } from "./AbortSignal";
+export { OperationBudget, OperationBudgetOptions, getRemainingTimeInMs } from "./OperationBudget";
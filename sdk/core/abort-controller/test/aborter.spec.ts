@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { AbortController, AbortError, AbortSignal } from "../src";
+import { AbortController, AbortError, AbortSignal, DeadlineExceededError } from "../src";
 import { assert } from "chai";
 
 describe("AbortController", () => {
@@ -379,4 +379,43 @@ describe("AbortController", () => {
     assert.strictEqual(true, values.includes("child1"));
     assert.strictEqual(true, values.includes("child2"));
   });
+
+  it("should set the reason of aborted signals", async () => {
+    const controller = new AbortController();
+    assert.isUndefined(controller.signal.reason);
+    controller.signal.throwIfAborted();
+
+    controller.abort();
+    assert.instanceOf(controller.signal.reason, AbortError);
+    assert.throws(() => controller.signal.throwIfAborted(), AbortError);
+  });
+
+  it("should propagate the given reason to child signals", async () => {
+    const parentController = new AbortController();
+    const childSignal = new AbortController(parentController.signal).signal;
+    const reason = new Error("The user canceled the operation.");
+
+    parentController.abort(reason);
+    assert.strictEqual(parentController.signal.reason, reason);
+    assert.strictEqual(childSignal.reason, reason);
+  });
+
+  it("should abort with a DeadlineExceededError when the timeout expires", async () => {
+    const signal = AbortController.timeout(10);
+    await new Promise((resolve) => signal.addEventListener("abort", resolve));
+    assert.instanceOf(signal.reason, DeadlineExceededError);
+    assert.equal((signal.reason as Error).name, "AbortError");
+  });
+
+  it("should abort the signal created by any() when any signal aborts", async () => {
+    const controller1 = new AbortController();
+    const controller2 = new AbortController();
+    const signal = AbortSignal.any([controller1.signal, controller2.signal]);
+    assert.isFalse(signal.aborted);
+
+    controller2.abort("reason");
+    assert.isTrue(signal.aborted);
+    assert.equal(signal.reason, "reason");
+    assert.isTrue(AbortSignal.any([signal]).aborted);
+  });
 });
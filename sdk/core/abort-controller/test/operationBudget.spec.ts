@@ -0,0 +1,90 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+  AbortController,
+  AbortSignal,
+  AbortSignalLike,
+  DeadlineExceededError,
+  OperationBudget,
+  getRemainingTimeInMs,
+} from "../src";
+import { assert } from "chai";
+
+describe("OperationBudget", () => {
+  it("should not have a deadline by default", () => {
+    const budget = new OperationBudget();
+    assert.isUndefined(budget.deadline);
+    assert.equal(budget.getRemainingTimeInMs(), Infinity);
+    assert.isTrue(budget.canWait(1000));
+    assert.equal(getRemainingTimeInMs(new AbortController().signal), Infinity);
+    assert.equal(getRemainingTimeInMs(undefined), Infinity);
+  });
+
+  it("should report the remaining time", () => {
+    const budget = new OperationBudget({ timeoutInMs: 1000 });
+    const remainingTimeInMs = budget.getRemainingTimeInMs();
+    assert.isAbove(remainingTimeInMs, 900);
+    assert.isAtMost(remainingTimeInMs, 1000);
+    assert.isTrue(budget.canWait(500));
+    assert.isFalse(budget.canWait(1000));
+  });
+
+  it("should use the sooner of the timeout and the deadline", () => {
+    const deadline = new Date(Date.now() + 100);
+    assert.equal(
+      new OperationBudget({ timeoutInMs: 1000, deadline }).deadline?.getTime(),
+      deadline.getTime()
+    );
+  });
+
+  it("should abort its signal with a DeadlineExceededError once the deadline passes", async () => {
+    const budget = new OperationBudget({ timeoutInMs: 10 });
+    await new Promise((resolve) => budget.signal.addEventListener("abort", resolve));
+    assert.instanceOf(budget.signal.reason, DeadlineExceededError);
+    assert.equal(budget.getRemainingTimeInMs(), 0);
+    assert.isFalse(budget.canWait(0));
+  });
+
+  it("should abort its signal when the given signal is aborted", () => {
+    const controller = new AbortController();
+    const budget = new OperationBudget({ timeoutInMs: 1000, abortSignal: controller.signal });
+    controller.abort();
+    assert.isTrue(budget.signal.aborted);
+    assert.instanceOf(budget.signal.reason, Error);
+    assert.notInstanceOf(budget.signal.reason, DeadlineExceededError);
+  });
+
+  it("should propagate the deadline to nested operations", () => {
+    const budget = new OperationBudget({ timeoutInMs: 1000 });
+    const child = budget.createChild(5000);
+    assert.equal(child.deadline?.getTime(), budget.deadline?.getTime());
+    assert.isAtMost(budget.createChild(100).getRemainingTimeInMs(), 100);
+
+    const followers = [
+      new AbortController(budget.signal).signal,
+      AbortSignal.any([new AbortController().signal, budget.signal]),
+      new OperationBudget({ abortSignal: budget.signal }).signal,
+      AbortController.timeout(1000),
+      new OperationBudget({ abortSignal: AbortController.timeout(1000) }).signal,
+    ];
+    for (const signal of followers) {
+      assert.isAbove(getRemainingTimeInMs(signal), 900);
+      assert.isAtMost(getRemainingTimeInMs(signal), 1000);
+    }
+  });
+
+  it("should read the deadline of other signal implementations", () => {
+    const deadline = Date.now() + 1000;
+    const signal: AbortSignalLike = {
+      aborted: false,
+      deadline,
+      addEventListener: () => undefined,
+      removeEventListener: () => undefined,
+    };
+
+    assert.equal(new OperationBudget({ abortSignal: signal }).deadline?.getTime(), deadline);
+    assert.equal(AbortSignal.any([signal]).deadline, deadline);
+    assert.isAtMost(getRemainingTimeInMs(signal), 1000);
+  });
+});
@@ -4,14 +4,21 @@
 import {
   AwaitableSender,
   Connection,
+  ConnectionEvents,
   ConnectionOptions,
   CreateAwaitableSenderOptions,
   CreateReceiverOptions,
   CreateSenderOptions,
+  EventContext,
   Receiver,
+  ReceiverEvents,
   Sender,
+  SenderEvents,
+  Session,
+  SessionEvents,
   generate_uuid,
 } from "rhea-promise";
+import { MessagingError, translate } from "./errors";
 import { getFrameworkInfo, getPlatformInfo } from "./util/runtimeInfo";
 import { CbsClient } from "./cbs";
 import { ConnectionConfig } from "./connectionConfig/connectionConfig";
@@ -61,6 +68,74 @@ export interface ConnectionContextBase {
    * Updates the context to use a new underlying AMQP connection and new cbs session.
    */
   refreshConnection: () => void;
+  /**
+   * Returns statistics about the underlying AMQP connection, e.g. to check its health.
+   * It is set on the contexts created with `ConnectionContextBase.create`.
+   */
+  getConnectionStatistics?: () => ConnectionStatistics;
+}
+
+/**
+ * Statistics about the AMQP connection of a client. The counters cover the lifetime of the client,
+ * across the connections that replaced each other when reconnecting.
+ */
+export interface ConnectionStatistics {
+  /**
+   * The ID of the current AMQP connection.
+   */
+  connectionId: string;
+  /**
+   * Whether the current AMQP connection is open.
+   */
+  isOpen: boolean;
+  /**
+   * The number of times the AMQP connection was replaced by a new one.
+   */
+  reconnectCount: number;
+  /**
+   * The number of open AMQP sessions, including the sessions of the CBS and management links.
+   */
+  openSessionCount: number;
+  /**
+   * The number of open sender links.
+   */
+  openSenderCount: number;
+  /**
+   * The number of open receiver links.
+   */
+  openReceiverCount: number;
+  /**
+   * The sum of the credit of the open receiver links, i.e. the number of messages they can still receive.
+   */
+  linkCredit: number;
+  /**
+   * The number of messages sent on the sender links and accepted by the service.
+   */
+  messagesSent: number;
+  /**
+   * The number of messages received on the receiver links.
+   */
+  messagesReceived: number;
+  /**
+   * The number of bytes written to the network. Only counted in Node.js, when not using web sockets.
+   */
+  bytesSent: number;
+  /**
+   * The number of bytes read from the network. Only counted in Node.js, when not using web sockets.
+   */
+  bytesReceived: number;
+  /**
+   * The last error raised by the AMQP connection, if any.
+   */
+  lastError?: MessagingError | Error;
+  /**
+   * The time at which the last error was raised.
+   */
+  lastErrorTime?: Date;
+  /**
+   * The times at which a token was last accepted by the service for each audience on the current connection.
+   */
+  tokenRefreshTimes: Record<string, Date>;
 }
 
 /**
@@ -112,7 +187,67 @@ export interface CreateConnectionContextBaseParameters {
 
 const maxListenerLimit = 1000;
 
+type Socket = NonNullable<ReturnType<Connection["getTlsSocket"]>>;
+
+/**
+ * Keeps track of the objects and the events of the connections of a context for its statistics.
+ */
+interface ConnectionStatisticsTracker {
+  sessions: Set<Session>;
+  senders: Set<Sender | AwaitableSender>;
+  receivers: Set<Receiver>;
+  sockets: Set<Socket>;
+  reconnectCount: number;
+  messagesSent: number;
+  messagesReceived: number;
+  closedSocketsBytesSent: number;
+  closedSocketsBytesReceived: number;
+  lastError?: MessagingError | Error;
+  lastErrorTime?: Date;
+}
+
 class CoreAmqpConnection extends Connection {
+  constructor(options: ConnectionOptions, private _tracker: ConnectionStatisticsTracker) {
+    super(options);
+    this.on(ConnectionEvents.connectionOpen, () => {
+      const socket = this.getTlsSocket();
+      if (socket) {
+        this._tracker.sockets.add(socket);
+        socket.once("close", () => {
+          // The counters of the sockets are kept once they are closed, but not the sockets themselves.
+          this._tracker.closedSocketsBytesSent += socket.bytesWritten;
+          this._tracker.closedSocketsBytesReceived += socket.bytesRead;
+          this._tracker.sockets.delete(socket);
+        });
+      }
+    });
+    const onConnectionLost = (context: EventContext): void => {
+      const error = context.error ?? context.connection?.error;
+      if (error) {
+        this._tracker.lastError = translate(error);
+        this._tracker.lastErrorTime = new Date();
+      }
+      this._untrackSessionsAndLinks();
+    };
+    this.on(ConnectionEvents.connectionError, onConnectionLost);
+    this.on(ConnectionEvents.disconnected, onConnectionLost);
+    this.on(ConnectionEvents.connectionClose, () => this._untrackSessionsAndLinks());
+  }
+
+  /**
+   * Creates an amqp session, which is tracked in the statistics of the connection.
+   * @param options - Optional parameters to create a session.
+   * @returns Promise<Session>.
+   */
+  async createSession(options?: Parameters<Connection["createSession"]>[0]): Promise<Session> {
+    const session = await super.createSession(options);
+    this._tracker.sessions.add(session);
+    session.on(SessionEvents.sessionClose, () => {
+      this._tracker.sessions.delete(session);
+    });
+    return session;
+  }
+
   /**
    * Creates an amqp sender link. Max listener limit on the sender is set to 1000 because the
    * default value of 10 in NodeJS is too low.
@@ -122,6 +257,7 @@ class CoreAmqpConnection extends Connection {
   async createSender(options?: CreateSenderOptions): Promise<Sender> {
     const sender = await super.createSender(options);
     sender.setMaxListeners(maxListenerLimit);
+    this._trackSender(sender);
     return sender;
   }
 
@@ -141,6 +277,7 @@ class CoreAmqpConnection extends Connection {
   async createAwaitableSender(options?: CreateAwaitableSenderOptions): Promise<AwaitableSender> {
     const sender = await super.createAwaitableSender(options);
     sender.setMaxListeners(maxListenerLimit);
+    this._trackSender(sender);
     return sender;
   }
 
@@ -153,8 +290,62 @@ class CoreAmqpConnection extends Connection {
   async createReceiver(options?: CreateReceiverOptions): Promise<Receiver> {
     const receiver = await super.createReceiver(options);
     receiver.setMaxListeners(maxListenerLimit);
+    this._tracker.receivers.add(receiver);
+    receiver.on(ReceiverEvents.receiverClose, () => {
+      this._tracker.receivers.delete(receiver);
+    });
+    receiver.on(ReceiverEvents.message, () => {
+      this._tracker.messagesReceived++;
+    });
     return receiver;
   }
+
+  private _trackSender(sender: Sender | AwaitableSender): void {
+    this._tracker.senders.add(sender);
+    sender.on(SenderEvents.senderClose, () => {
+      this._tracker.senders.delete(sender);
+    });
+    sender.on(SenderEvents.accepted, () => {
+      this._tracker.messagesSent++;
+    });
+  }
+
+  /**
+   * Stops tracking the sessions and links of this connection, which don't emit close events
+   * when the connection is closed or lost.
+   */
+  private _untrackSessionsAndLinks(): void {
+    untrackConnectionItems(this, this._tracker.sessions);
+    untrackConnectionItems(this, this._tracker.senders);
+    untrackConnectionItems(this, this._tracker.receivers);
+  }
+}
+
+/**
+ * Removes the objects of the given connection from the set.
+ */
+function untrackConnectionItems(
+  connection: Connection,
+  items: Set<{ readonly connection: Connection }>
+): void {
+  for (const item of items) {
+    if (item.connection === connection) {
+      items.delete(item);
+    }
+  }
+}
+
+/**
+ * Returns the number of open objects in the set.
+ */
+function countOpen(items: Set<{ isOpen(): boolean }>): number {
+  let count = 0;
+  for (const item of items) {
+    if (item.isOpen()) {
+      count++;
+    }
+  }
+  return count;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-redeclare -- renaming constant would be a breaking change.
@@ -214,7 +405,18 @@ export const ConnectionContextBase = {
       };
     }
 
-    const connection = new CoreAmqpConnection(connectionOptions);
+    const tracker: ConnectionStatisticsTracker = {
+      sessions: new Set(),
+      senders: new Set(),
+      receivers: new Set(),
+      sockets: new Set(),
+      reconnectCount: 0,
+      messagesSent: 0,
+      messagesReceived: 0,
+      closedSocketsBytesSent: 0,
+      closedSocketsBytesReceived: 0,
+    };
+    const connection = new CoreAmqpConnection(connectionOptions, tracker);
     const connectionLock = `${Constants.establishConnection}-${generate_uuid()}`;
     const connectionContextBase: ConnectionContextBase = {
       wasConnectionCloseCalled: false,
@@ -225,7 +427,8 @@ export const ConnectionContextBase = {
       cbsSession: new CbsClient(connection, connectionLock),
       config: parameters.config,
       refreshConnection() {
-        const newConnection = new CoreAmqpConnection(connectionOptions);
+        const newConnection = new CoreAmqpConnection(connectionOptions, tracker);
+        tracker.reconnectCount++;
         const newConnectionLock = `${Constants.establishConnection}-${generate_uuid()}`;
         this.wasConnectionCloseCalled = false;
         this.connectionLock = newConnectionLock;
@@ -234,6 +437,36 @@ export const ConnectionContextBase = {
         this.connectionId = newConnection.id;
         this.cbsSession = new CbsClient(newConnection, newConnectionLock);
       },
+      getConnectionStatistics() {
+        let bytesSent = tracker.closedSocketsBytesSent;
+        let bytesReceived = tracker.closedSocketsBytesReceived;
+        for (const socket of tracker.sockets) {
+          bytesSent += socket.bytesWritten;
+          bytesReceived += socket.bytesRead;
+        }
+        let linkCredit = 0;
+        for (const receiver of tracker.receivers) {
+          if (receiver.isOpen()) {
+            linkCredit += receiver.credit;
+          }
+        }
+        return {
+          connectionId: this.connectionId,
+          isOpen: this.connection.isOpen(),
+          reconnectCount: tracker.reconnectCount,
+          openSessionCount: countOpen(tracker.sessions),
+          openSenderCount: countOpen(tracker.senders),
+          openReceiverCount: countOpen(tracker.receivers),
+          linkCredit,
+          messagesSent: tracker.messagesSent,
+          messagesReceived: tracker.messagesReceived,
+          bytesSent,
+          bytesReceived,
+          lastError: tracker.lastError,
+          lastErrorTime: tracker.lastErrorTime,
+          tokenRefreshTimes: this.cbsSession.getTokenRefreshTimes(),
+        };
+      },
     };
 
     return connectionContextBase;
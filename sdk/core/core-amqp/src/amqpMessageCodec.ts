@@ -0,0 +1,103 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Message as RheaMessage, message as rheaMessage, types } from "rhea-promise";
+import { AmqpAnnotatedMessage } from "./amqpAnnotatedMessage";
+
+const dataSectionTypeCode = 0x75;
+const sequenceSectionTypeCode = 0x76;
+const valueSectionTypeCode = 0x77;
+const footerSectionTypeCode = 0x78;
+
+/**
+ * The body of a message as decoded by rhea when it is made of data or amqp-sequence sections.
+ */
+interface RheaBodySection {
+  typecode: number;
+  content: any;
+}
+
+function isRheaBodySection(body: unknown): body is RheaBodySection {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    "content" in body &&
+    ((body as RheaBodySection).typecode === dataSectionTypeCode ||
+      (body as RheaBodySection).typecode === sequenceSectionTypeCode)
+  );
+}
+
+function toBuffer(data: unknown): unknown {
+  return data instanceof Uint8Array && !Buffer.isBuffer(data) ? Buffer.from(data) : data;
+}
+
+function describedSection(typecode: number, value: unknown): unknown {
+  return types.described(types.wrap_ulong(typecode), value);
+}
+
+function encodeBody(body: any, bodyType: AmqpAnnotatedMessage["bodyType"]): unknown[] {
+  switch (bodyType ?? (body instanceof Uint8Array ? "data" : "value")) {
+    case "data":
+      return (Array.isArray(body) ? body : [body]).map((data) =>
+        describedSection(dataSectionTypeCode, types.wrap(toBuffer(data)))
+      );
+    case "sequence":
+      return [describedSection(sequenceSectionTypeCode, types.wrap(body))];
+    default:
+      return [describedSection(valueSectionTypeCode, types.wrap(body))];
+  }
+}
+
+/**
+ * Encodes the given message in the AMQP 1.0 message format, i.e. the sequence of message sections
+ * that is sent as the payload of a transfer frame. Since this is the format defined by the
+ * AMQP 1.0 specification, the encoded message can be decoded by any AMQP 1.0 implementation,
+ * including later versions of this package.
+ *
+ * The body is encoded according to `bodyType`:
+ * - `"data"`: one data section, or one data section per element if the body is an array of binaries.
+ * - `"sequence"`: one amqp-sequence section holding the body, which must be an array.
+ * - `"value"`: one amqp-value section.
+ *
+ * When `bodyType` is not set, binary bodies are encoded as data and any other body as a value.
+ * @param message - The message to encode.
+ * @returns The encoded message.
+ */
+export function encodeAmqpMessage(message: AmqpAnnotatedMessage): Buffer {
+  const { footer, ...rest } = AmqpAnnotatedMessage.toRheaMessage(message);
+  const sections = encodeBody(message.body, message.bodyType);
+  if (footer) {
+    // rhea writes the footer before the body while the specification requires it to be the last section.
+    sections.push(describedSection(footerSectionTypeCode, types.wrap_map(footer)));
+  }
+  return rheaMessage.encode({
+    ...rest,
+    body: { collect_sections: (collected: unknown[]) => collected.push(...sections) },
+  });
+}
+
+/**
+ * Decodes a message encoded in the AMQP 1.0 message format, such as one returned by `encodeAmqpMessage`.
+ *
+ * `bodyType` is set according to the body sections of the message. The body of a message made
+ * of several data sections is an array with the content of each section, and the body of a message
+ * made of several amqp-sequence sections is an array with the list of each section.
+ * @param bytes - The encoded message.
+ * @returns The decoded message.
+ */
+export function decodeAmqpMessage(bytes: Uint8Array): AmqpAnnotatedMessage {
+  // rhea doesn't set the body of a message without body sections.
+  const decoded: RheaMessage = {
+    body: undefined,
+    ...rheaMessage.decode(toBuffer(bytes) as Buffer),
+  };
+  const { body } = decoded;
+  const message = AmqpAnnotatedMessage.fromRheaMessage(decoded);
+  if (isRheaBodySection(body)) {
+    message.body = body.content;
+    message.bodyType = body.typecode === dataSectionTypeCode ? "data" : "sequence";
+  } else if (body !== undefined) {
+    message.bodyType = "value";
+  }
+  return message;
+}
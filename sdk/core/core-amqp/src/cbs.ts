@@ -62,6 +62,11 @@ export class CbsClient {
    */
   private _cbsSenderReceiverLink?: RequestResponseLink;
 
+  /**
+   * The times at which a token was last accepted by the service, by audience.
+   */
+  private _tokenRefreshTimes = new Map<string, Date>();
+
   /**
    * @param connection - The AMQP connection.
    * @param connectionLock - A unique string (usually a guid) per connection.
@@ -234,6 +239,7 @@ export class CbsClient {
         requestName: "negotiateClaim",
       });
       logger.verbose("[%s] The CBS response is: %O", this.connection.id, responseMessage);
+      this._tokenRefreshTimes.set(audience, new Date());
       return this._fromRheaMessageResponse(responseMessage);
     } catch (err) {
       logger.warning(
@@ -246,6 +252,19 @@ export class CbsClient {
     }
   }
 
+  /**
+   * Gets the times at which a token was last accepted by the service for each audience
+   * on this CBS session, i.e. the times at which the claims were last negotiated.
+   * @returns The times, by audience.
+   */
+  getTokenRefreshTimes(): Record<string, Date> {
+    const tokenRefreshTimes: Record<string, Date> = {};
+    for (const [audience, time] of this._tokenRefreshTimes) {
+      tokenRefreshTimes[audience] = time;
+    }
+    return tokenRefreshTimes;
+  }
+
   /**
    * Closes the AMQP cbs session to the EventHub/ServiceBus for this client,
    * returning a promise that will be resolved when disconnection is completed.
@@ -4,7 +4,14 @@
 /// <reference lib="es2015" />
 
 export { RequestResponseLink, SendRequestOptions } from "./requestResponseLink";
-export { retry, RetryOptions, RetryConfig, RetryOperationType, RetryMode } from "./retry";
+export {
+  calculateRetryDelayInMs,
+  retry,
+  RetryOptions,
+  RetryConfig,
+  RetryOperationType,
+  RetryMode,
+} from "./retry";
 export { TokenType } from "./auth/token";
 
 export { ConnectionConfig, ConnectionConfigOptions } from "./connectionConfig/connectionConfig";
@@ -16,6 +23,7 @@ export { AmqpMessageProperties } from "./messageProperties";
 export {
   ConnectionContextBase,
   ConnectionProperties,
+  ConnectionStatistics,
   CreateConnectionContextBaseParameters,
 } from "./ConnectionContextBase";
 export {
@@ -37,6 +45,7 @@ export {
   WebSocketOptions,
 } from "./util/utils";
 export { AmqpAnnotatedMessage } from "./amqpAnnotatedMessage";
+export { encodeAmqpMessage, decodeAmqpMessage } from "./amqpMessageCodec";
 export { logger } from "./log";
 export * from "./internals";
 export { AcquireLockProperties, CancellableAsyncLock } from "./util/lock";
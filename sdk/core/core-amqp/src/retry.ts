@@ -3,7 +3,7 @@
 /* eslint-disable eqeqeq */
 
 import { MessagingError, translate } from "./errors";
-import { AbortSignalLike } from "@azure/abort-controller";
+import { AbortSignalLike, getRemainingTimeInMs } from "@azure/abort-controller";
 import { Constants } from "./util/constants";
 import { checkNetworkConnection } from "./util/checkNetworkConnection";
 import { delay } from "@azure/core-util";
@@ -33,6 +33,16 @@ function isDelivery(obj: any): boolean {
 export enum RetryMode {
   Exponential,
   Fixed,
+  /**
+   * Each delay is picked at random between `retryDelayInMs` and three times the previous delay,
+   * capped at `maxRetryDelayInMs`. This spreads out the retries of many clients that failed at the same time.
+   */
+  DecorrelatedJitter,
+  /**
+   * Each delay is picked at random between 0 and the delay of the exponential mode,
+   * capped at `maxRetryDelayInMs`.
+   */
+  FullJitter,
 }
 
 /**
@@ -77,9 +87,19 @@ export interface RetryOptions {
   mode?: RetryMode;
   /**
    * Denotes the maximum delay between retries
-   * that the retry attempts will be capped at. Applicable only when performing exponential retry.
+   * that the retry attempts will be capped at. Applicable only when performing exponential or jittered retry.
    */
   maxRetryDelayInMs?: number;
+  /**
+   * A function that decides whether to retry after a failed attempt, used instead of `mode`
+   * and of the `retryable` property of the error, e.g. to retry some `MessagingError` codes only.
+   * It receives the number of the failed attempt, starting at 1, and the error, and returns the
+   * number of milliseconds to wait before the next attempt, or undefined to stop retrying.
+   * The number of attempts is still limited by `maxRetries`.
+   * Operations that are retried until they succeed, such as receiving messages from a subscription,
+   * also call it with the number of the failed retry cycle between cycles of `maxRetries` attempts.
+   */
+  calculateRetryDelay?: (attempt: number, error: MessagingError | Error) => number | undefined;
 }
 
 /**
@@ -112,6 +132,7 @@ export interface RetryConfig<T> {
   /**
    * The `AbortSignal` associated with the operation being retried on.
    * If this signal is fired during the wait time between retries, then the `retry()` method will ensure that the wait is abandoned and the retry process gets cancelled. If this signal is fired when the operation is in progress, then the operation is expected to react to it.
+   * If the signal has a deadline, such as the signal of an `OperationBudget`, no retry is attempted when the deadline would pass before it and the last error is thrown instead.
    */
   abortSignal?: AbortSignalLike;
 }
@@ -142,7 +163,8 @@ function calculateDelay(
   attemptCount: number,
   retryDelayInMs: number,
   maxRetryDelayInMs: number,
-  mode: RetryMode
+  mode: RetryMode,
+  previousDelayInMs: number = retryDelayInMs
 ): number {
   if (mode === RetryMode.Exponential) {
     const boundedRandDelta =
@@ -153,9 +175,56 @@ function calculateDelay(
     return Math.min(incrementDelta, maxRetryDelayInMs);
   }
 
+  if (mode === RetryMode.DecorrelatedJitter) {
+    const upperBound = Math.max(previousDelayInMs * 3, retryDelayInMs);
+    return Math.min(
+      retryDelayInMs + Math.floor(Math.random() * (upperBound - retryDelayInMs)),
+      maxRetryDelayInMs
+    );
+  }
+
+  if (mode === RetryMode.FullJitter) {
+    const upperBound = Math.min(
+      retryDelayInMs * (Math.pow(2, attemptCount) - 1),
+      maxRetryDelayInMs
+    );
+    return Math.floor(Math.random() * upperBound);
+  }
+
   return retryDelayInMs;
 }
 
+/**
+ * Calculates the delay before the next attempt of an operation, in milliseconds, according to
+ * the `mode`, `retryDelayInMs` and `maxRetryDelayInMs` of the retry options.
+ * The `calculateRetryDelay` option is not used.
+ *
+ * @param attempt - The number of the failed attempt, starting at 1.
+ * @param retryOptions - The retry options of the operation.
+ * @param previousDelayInMs - The delay before the failed attempt, used by the `DecorrelatedJitter` mode.
+ */
+export function calculateRetryDelayInMs(
+  attempt: number,
+  retryOptions: RetryOptions = {},
+  previousDelayInMs?: number
+): number {
+  const retryDelayInMs =
+    retryOptions.retryDelayInMs == undefined || retryOptions.retryDelayInMs < 0
+      ? Constants.defaultDelayBetweenOperationRetriesInMs
+      : retryOptions.retryDelayInMs;
+  const maxRetryDelayInMs =
+    retryOptions.maxRetryDelayInMs == undefined || retryOptions.maxRetryDelayInMs < 0
+      ? Constants.defaultMaxDelayForExponentialRetryInMs
+      : retryOptions.maxRetryDelayInMs;
+  return calculateDelay(
+    attempt,
+    retryDelayInMs,
+    maxRetryDelayInMs,
+    retryOptions.mode ?? RetryMode.Fixed,
+    previousDelayInMs
+  );
+}
+
 /**
  * Every operation is attempted at least once. Additional attempts are made if the previous attempt failed
  * with a retryable error. The number of additional attempts is governed by the `maxRetries` property provided
@@ -167,6 +236,11 @@ function calculateDelay(
  * If `mode` option is set to `Exponential`, then the delay between retries is adjusted to increase
  * exponentially with each attempt using back-off factor of power 2.
  *
+ * If `mode` option is set to `DecorrelatedJitter` or `FullJitter`, then the delay between retries
+ * is randomized so that many clients failing at the same time don't retry at the same time.
+ *
+ * If the `calculateRetryDelay` option is provided, it decides whether and when to retry instead.
+ *
  * @param config - Parameters to configure retry operation
  *
  * @returns Promise<T>.
@@ -199,6 +273,7 @@ export async function retry<T>(config: RetryConfig<T>): Promise<T> {
     updatedConfig.retryOptions.mode = RetryMode.Fixed;
   }
   let lastError: MessagingError | Error | undefined;
+  let lastDelayInMs: number | undefined;
   let result: any;
   let success = false;
   const totalNumberOfAttempts = updatedConfig.retryOptions.maxRetries + 1;
@@ -250,13 +325,30 @@ export async function retry<T>(config: RetryConfig<T>): Promise<T> {
       );
 
       lastError = err;
-      if ((lastError as any).retryable && totalNumberOfAttempts > i) {
-        const targetDelayInMs = calculateDelay(
-          i,
-          updatedConfig.retryOptions.retryDelayInMs,
-          updatedConfig.retryOptions.maxRetryDelayInMs,
-          updatedConfig.retryOptions.mode
+      let targetDelayInMs: number | undefined;
+      if (totalNumberOfAttempts > i) {
+        const { calculateRetryDelay } = updatedConfig.retryOptions;
+        if (calculateRetryDelay) {
+          targetDelayInMs = calculateRetryDelay(i, err);
+        } else if ((lastError as any).retryable) {
+          targetDelayInMs = calculateRetryDelayInMs(i, updatedConfig.retryOptions, lastDelayInMs);
+        }
+      }
+      if (
+        targetDelayInMs != undefined &&
+        targetDelayInMs >= getRemainingTimeInMs(updatedConfig.abortSignal)
+      ) {
+        logger.verbose(
+          "[%s] Not enough time left before the deadline to retry '%s' after %d milliseconds.",
+          updatedConfig.connectionId,
+          updatedConfig.operationType,
+          targetDelayInMs
         );
+        targetDelayInMs = undefined;
+      }
+      if (targetDelayInMs != undefined) {
+        targetDelayInMs = Math.max(targetDelayInMs, 0);
+        lastDelayInMs = targetDelayInMs;
         logger.verbose(
           "[%s] Sleeping for %d milliseconds for '%s'.",
           updatedConfig.connectionId,
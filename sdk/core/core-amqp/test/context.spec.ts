@@ -4,7 +4,16 @@
 import * as chai from "chai";
 const should = chai.should();
 import { CbsClient, ConnectionConfig, ConnectionContextBase } from "../src";
-import { Connection } from "rhea-promise";
+import {
+  Connection,
+  ConnectionEvents,
+  Receiver,
+  ReceiverEvents,
+  Session,
+  SessionEvents,
+} from "rhea-promise";
+import { EventEmitter } from "events";
+import sinon from "sinon";
 
 describe("ConnectionContextBase", function () {
   it("should be created with required parameters", function (done) {
@@ -315,4 +324,104 @@ describe("ConnectionContextBase", function () {
       }
     });
   });
+
+  describe("#getConnectionStatistics", function () {
+    it("should report the statistics of a new context", function () {
+      const connectionString =
+        "Endpoint=sb://hostname.servicebus.windows.net/;SharedAccessKeyName=sakName;SharedAccessKey=sak;EntityPath=ep";
+      const config = ConnectionConfig.create(connectionString, "mypath");
+      const context = ConnectionContextBase.create({
+        config: config,
+        connectionProperties: {
+          product: "MSJSClient",
+          userAgent: "/js-amqp-client",
+          version: "1.0.0",
+        },
+      });
+
+      context.getConnectionStatistics!().should.deep.equal({
+        connectionId: context.connectionId,
+        isOpen: false,
+        reconnectCount: 0,
+        openSessionCount: 0,
+        openSenderCount: 0,
+        openReceiverCount: 0,
+        linkCredit: 0,
+        messagesSent: 0,
+        messagesReceived: 0,
+        bytesSent: 0,
+        bytesReceived: 0,
+        lastError: undefined,
+        lastErrorTime: undefined,
+        tokenRefreshTimes: {},
+      });
+    });
+
+    it("should count the reconnections", function () {
+      const connectionString =
+        "Endpoint=sb://hostname.servicebus.windows.net/;SharedAccessKeyName=sakName;SharedAccessKey=sak;EntityPath=ep";
+      const config = ConnectionConfig.create(connectionString, "mypath");
+      const context = ConnectionContextBase.create({
+        config: config,
+        connectionProperties: {
+          product: "MSJSClient",
+          userAgent: "/js-amqp-client",
+          version: "1.0.0",
+        },
+      });
+
+      context.refreshConnection();
+      context.refreshConnection();
+
+      const statistics = context.getConnectionStatistics!();
+      statistics.reconnectCount.should.equal(2);
+      statistics.connectionId.should.equal(context.connectionId);
+    });
+
+    it("should stop tracking sessions and links once they are closed", async function () {
+      const connectionString =
+        "Endpoint=sb://hostname.servicebus.windows.net/;SharedAccessKeyName=sakName;SharedAccessKey=sak;EntityPath=ep";
+      const config = ConnectionConfig.create(connectionString, "mypath");
+      const context = ConnectionContextBase.create({
+        config: config,
+        connectionProperties: {
+          product: "MSJSClient",
+          userAgent: "/js-amqp-client",
+          version: "1.0.0",
+        },
+      });
+      const createFake = <T>(): T =>
+        Object.assign(new EventEmitter(), {
+          connection: context.connection,
+          credit: 0,
+          isOpen: () => true,
+          setMaxListeners: () => undefined,
+        }) as unknown as T;
+      const createSession = sinon
+        .stub(Connection.prototype, "createSession")
+        .callsFake(async () => createFake<Session>());
+      const createReceiver = sinon
+        .stub(Connection.prototype, "createReceiver")
+        .callsFake(async () => createFake<Receiver>());
+
+      try {
+        const session = await context.connection.createSession();
+        const receiver = await context.connection.createReceiver();
+        await context.connection.createReceiver();
+        context.getConnectionStatistics!().openSessionCount.should.equal(1);
+        context.getConnectionStatistics!().openReceiverCount.should.equal(2);
+
+        session.emit(SessionEvents.sessionClose, {});
+        receiver.emit(ReceiverEvents.receiverClose, {});
+        context.getConnectionStatistics!().openSessionCount.should.equal(0);
+        context.getConnectionStatistics!().openReceiverCount.should.equal(1);
+
+        context.connection.emit(ConnectionEvents.disconnected, {});
+        context.getConnectionStatistics!().openReceiverCount.should.equal(0);
+      } finally {
+        createSession.restore();
+        createReceiver.restore();
+      }
+    });
+  });
 });
@@ -2,7 +2,13 @@
 // Licensed under the MIT license.
 
 import * as chai from "chai";
-import { AmqpMessageHeader, AmqpMessageProperties } from "../src";
+import {
+  AmqpAnnotatedMessage,
+  AmqpMessageHeader,
+  AmqpMessageProperties,
+  decodeAmqpMessage,
+  encodeAmqpMessage,
+} from "../src";
 import {
   MessageHeader as RheaMessageHeader,
   MessageProperties as RheaMessageProperties,
@@ -158,4 +164,65 @@ describe("message", function () {
       done();
     });
   });
+
+  describe("codec", function () {
+    it("should round trip the sections of a message", function () {
+      const message: AmqpAnnotatedMessage = {
+        header: { durable: true, priority: 7, timeToLive: 60000, deliveryCount: 2 },
+        deliveryAnnotations: { "x-opt-lock-token": "token" },
+        messageAnnotations: { "x-opt-sequence-number": 42, "x-opt-partition-key": "key" },
+        properties: {
+          messageId: "message-1",
+          correlationId: 7,
+          contentType: "application/octet-stream",
+          subject: "subject",
+          creationTime: 1000,
+          absoluteExpiryTime: 61000,
+          groupId: "session",
+          groupSequence: 3,
+        },
+        applicationProperties: { name: "value", count: 1, flag: false },
+        body: Buffer.from("hello"),
+        bodyType: "data",
+        footer: { checksum: "abc" },
+      };
+      const decoded = decodeAmqpMessage(encodeAmqpMessage(message));
+      chai.assert.deepEqual(decoded, message);
+    });
+
+    it("should write the footer as the last section", function () {
+      const encoded = encodeAmqpMessage({ body: "body", footer: { checksum: "abc" } });
+      const footer = encodeAmqpMessage({ body: "body" }).length;
+      // The footer section starts with the described type constructor followed by its smallulong descriptor.
+      chai.assert.deepEqual([...encoded.subarray(footer, footer + 3)], [0x00, 0x53, 0x78]);
+    });
+
+    it("should round trip the body types", function () {
+      const messages: AmqpAnnotatedMessage[] = [
+        { body: [Buffer.from("a"), Buffer.from("b")], bodyType: "data" },
+        { body: [1, "two", [3]], bodyType: "sequence" },
+        { body: { name: "value", list: [1, 2.5, null, true] }, bodyType: "value" },
+        { body: "text", bodyType: "value" },
+        { body: null, bodyType: "value" },
+      ];
+      for (const message of messages) {
+        chai.assert.deepEqual(decodeAmqpMessage(encodeAmqpMessage(message)), {
+          ...message,
+          header: {},
+          properties: {},
+          footer: undefined,
+          messageAnnotations: undefined,
+          deliveryAnnotations: undefined,
+          applicationProperties: undefined,
+        });
+      }
+    });
+
+    it("should infer the body type when it is not set", function () {
+      const binary = decodeAmqpMessage(encodeAmqpMessage({ body: new Uint8Array([1, 2]) }));
+      chai.assert.equal(binary.bodyType, "data");
+      chai.assert.deepEqual(binary.body, Buffer.from([1, 2]));
+      chai.assert.equal(decodeAmqpMessage(encodeAmqpMessage({ body: [1, 2] })).bodyType, "value");
+    });
+  });
 });
@@ -8,12 +8,14 @@ import {
   RetryConfig,
   RetryMode,
   RetryOperationType,
+  calculateRetryDelayInMs,
   delay,
   retry,
   translate,
 } from "../src";
-import { AbortController } from "@azure/abort-controller";
+import { AbortController, OperationBudget } from "@azure/abort-controller";
 import debugModule from "debug";
+import { SinonStub, stub } from "sinon";
 
 const debug = debugModule("azure:core-amqp:retry-spec");
 const should = chai.should();
@@ -462,3 +464,160 @@ const should = chai.should();
     });
   });
 });
+
+[RetryMode.DecorrelatedJitter, RetryMode.FullJitter].forEach((mode) => {
+  describe(`retry function for "${RetryMode[mode]}" retry mode`, function () {
+    let random: SinonStub;
+
+    afterEach(function () {
+      random.restore();
+    });
+
+    async function retryTwice(retryDelayInMs: number, maxRetryDelayInMs: number): Promise<number> {
+      let counter = 0;
+      const start = Date.now();
+      const config: RetryConfig<any> = {
+        operation: async () => {
+          if (++counter < 3) {
+            const e = new MessagingError("A retryable error.");
+            e.retryable = true;
+            throw e;
+          }
+          return counter;
+        },
+        connectionId: "connection-1",
+        operationType: RetryOperationType.sendMessage,
+        retryOptions: { maxRetries: 2, retryDelayInMs, maxRetryDelayInMs, mode },
+      };
+      (await retry(config)).should.equal(3);
+      return Date.now() - start;
+    }
+
+    it("should wait for the smallest delays", async function () {
+      random = stub(Math, "random").returns(0);
+      const elapsed = await retryTwice(200, 1000);
+      // Decorrelated jitter waits at least retryDelayInMs, full jitter may not wait at all.
+      elapsed.should.be.lessThan(mode === RetryMode.DecorrelatedJitter ? 500 : 100);
+    });
+
+    it("should cap the delays at maxRetryDelayInMs", async function () {
+      random = stub(Math, "random").returns(0.99);
+      // Decorrelated jitter waits 400ms twice instead of 596ms then 1964ms,
+      // full jitter waits 198ms then 396ms instead of 594ms.
+      const elapsed = await retryTwice(200, 400);
+      elapsed.should.be.within(mode === RetryMode.DecorrelatedJitter ? 750 : 550, 1100);
+    });
+  });
+});
+
+describe("calculateRetryDelayInMs", function () {
+  let random: SinonStub;
+
+  beforeEach(function () {
+    random = stub(Math, "random").returns(0.5);
+  });
+
+  afterEach(function () {
+    random.restore();
+  });
+
+  it("should use the default options", function () {
+    calculateRetryDelayInMs(3).should.equal(Constants.defaultDelayBetweenOperationRetriesInMs);
+  });
+
+  it("should calculate the delay of each mode", function () {
+    const options = { retryDelayInMs: 100, maxRetryDelayInMs: 1000 };
+    calculateRetryDelayInMs(2, { ...options, mode: RetryMode.Fixed }).should.equal(100);
+    calculateRetryDelayInMs(2, { ...options, mode: RetryMode.Exponential }).should.equal(300);
+    calculateRetryDelayInMs(2, { ...options, mode: RetryMode.FullJitter }).should.equal(150);
+    calculateRetryDelayInMs(
+      2,
+      { ...options, mode: RetryMode.DecorrelatedJitter },
+      200
+    ).should.equal(350);
+    calculateRetryDelayInMs(5, { ...options, mode: RetryMode.Exponential }).should.equal(1000);
+  });
+});
+
+describe("retry function with calculateRetryDelay", function () {
+  it("should retry the errors for which it returns a delay", async function () {
+    const attempts: Array<[number, string]> = [];
+    let counter = 0;
+    const config: RetryConfig<any> = {
+      operation: async () => {
+        counter++;
+        throw translate({
+          condition: counter < 3 ? "amqp:precondition-failed" : "amqp:not-found",
+          description: `Attempt ${counter} failed.`,
+        });
+      },
+      connectionId: "connection-1",
+      operationType: RetryOperationType.management,
+      retryOptions: {
+        maxRetries: 5,
+        calculateRetryDelay: (attempt, error) => {
+          attempts.push([attempt, error.message]);
+          return (error as MessagingError).code === "PreconditionFailedError" ? 10 : undefined;
+        },
+      },
+    };
+    try {
+      await retry(config);
+      throw new Error("TestFailure: 'retry' should have thrown.");
+    } catch (err) {
+      (err as MessagingError).message.should.equal("Attempt 3 failed.");
+    }
+    attempts.should.deep.equal([
+      [1, "Attempt 1 failed."],
+      [2, "Attempt 2 failed."],
+      [3, "Attempt 3 failed."],
+    ]);
+  });
+
+  it("should not retry more than maxRetries", async function () {
+    let counter = 0;
+    const config: RetryConfig<any> = {
+      operation: async () => {
+        counter++;
+        throw new MessagingError("I would always like to fail.");
+      },
+      connectionId: "connection-1",
+      operationType: RetryOperationType.management,
+      retryOptions: { maxRetries: 2, calculateRetryDelay: () => 0 },
+    };
+    try {
+      await retry(config);
+      throw new Error("TestFailure: 'retry' should have thrown.");
+    } catch (err) {
+      (err as MessagingError).message.should.equal("I would always like to fail.");
+    }
+    counter.should.equal(3);
+  });
+});
+
+describe("retry function with a deadline", function () {
+  it("should stop retrying when the next retry would exceed the deadline", async function () {
+    let counter = 0;
+    const config: RetryConfig<any> = {
+      operation: async () => {
+        counter++;
+        const error = new MessagingError(`Attempt ${counter} failed.`);
+        error.retryable = true;
+        throw error;
+      },
+      connectionId: "connection-1",
+      operationType: RetryOperationType.management,
+      abortSignal: new OperationBudget({ timeoutInMs: 250 }).signal,
+      retryOptions: { maxRetries: 10, retryDelayInMs: 100 },
+    };
+    const start = Date.now();
+    try {
+      await retry(config);
+      throw new Error("TestFailure: 'retry' should have thrown.");
+    } catch (err) {
+      (err as MessagingError).message.should.equal("Attempt 3 failed.");
+    }
+    counter.should.equal(3);
+    (Date.now() - start).should.be.below(250);
+  });
+});
@@ -2,6 +2,7 @@
 // Licensed under the MIT license.
 
 import { AbortSignalLike } from "@azure/abort-controller";
+import { PollerStateStore } from "../poller/stateStore";
 
 // TODO: rename to ResourceLocationConfig
 /**
@@ -109,4 +110,14 @@ export interface CreateHttpPollerOptions<TResult, TState> {
    * Control whether to throw an exception if the operation failed or was canceled.
    */
   resolveOnUnsuccessful?: boolean;
+  /**
+   * A store in which the poller saves its state after each poll, so that the operation
+   * can be resumed after the process restarts. The state is removed once the operation is done.
+   */
+  stateStore?: PollerStateStore;
+  /**
+   * The ID under which the state is saved in `stateStore`. Defaults to the operation location,
+   * or to the resource location if the operation doesn't have one.
+   */
+  operationId?: string;
 }
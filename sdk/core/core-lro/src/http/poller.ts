@@ -32,6 +32,8 @@ export async function createHttpPoller<TResult, TState extends OperationState<TR
     updateState,
     withOperationLocation,
     resolveOnUnsuccessful = false,
+    stateStore,
+    operationId,
   } = options || {};
   return buildCreatePoller<LroResponse, TResult, TState>({
     getStatusFromInitialResponse,
@@ -64,6 +66,8 @@ export async function createHttpPoller<TResult, TState extends OperationState<TR
       withOperationLocation,
       restoreFrom,
       updateState,
+      stateStore,
+      operationId,
       processResult: processResult
         ? ({ flatResponse }, state) => processResult(flatResponse, state)
         : ({ flatResponse }) => flatResponse as TResult,
@@ -9,6 +9,18 @@ export {
   SimplePollerLike,
 } from "./poller/models";
 export { CreateHttpPollerOptions } from "./http/models";
+export {
+  PollerStateStore,
+  createInMemoryPollerStateStore,
+  resumePollers,
+} from "./poller/stateStore";
+export { createFilePollerStateStore } from "./poller/fileStateStore";
+export {
+  PollerGroup,
+  PollerGroupOptions,
+  PollerGroupProgress,
+  createPollerGroup,
+} from "./poller/pollerGroup";
 export {
   LroResourceLocationConfig,
   LongRunningOperation,
@@ -0,0 +1,11 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { PollerStateStore } from "./stateStore";
+
+/**
+ * The file store is not available in the browser.
+ */
+export function createFilePollerStateStore(_directory: string): PollerStateStore {
+  throw new Error("createFilePollerStateStore is not supported in the browser.");
+}
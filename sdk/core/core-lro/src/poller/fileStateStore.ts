@@ -0,0 +1,81 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import * as path from "path";
+import { createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import { PollerStateStore } from "./stateStore";
+
+interface StateFile {
+  operationId: string;
+  serializedState: string;
+}
+
+function isNotFound(e: unknown): boolean {
+  return (e as { code?: string }).code === "ENOENT";
+}
+
+/**
+ * Creates a store that keeps each serialized state in a JSON file in the given directory,
+ * which is created if needed. Files are replaced atomically so that a crash while saving
+ * doesn't corrupt the previous state. This store is only available in Node.js.
+ * @param directory - The directory in which to keep the files.
+ */
+export function createFilePollerStateStore(directory: string): PollerStateStore {
+  // Operation IDs are typically URLs which may be too long or contain characters not allowed in file names.
+  const getFilePath = (operationId: string): string =>
+    path.join(directory, `${createHash("sha256").update(operationId).digest("hex")}.json`);
+
+  async function readStateFile(filePath: string): Promise<StateFile | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8"));
+    } catch (e: unknown) {
+      if (isNotFound(e)) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  return {
+    async get(operationId: string) {
+      return (await readStateFile(getFilePath(operationId)))?.serializedState;
+    },
+    async set(operationId: string, serializedState: string) {
+      await fs.mkdir(directory, { recursive: true });
+      const filePath = getFilePath(operationId);
+      const tempPath = `${filePath}.${randomBytes(6).toString("hex")}.tmp`;
+      const content: StateFile = { operationId, serializedState };
+      await fs.writeFile(tempPath, JSON.stringify(content), "utf8");
+      await fs.rename(tempPath, filePath);
+    },
+    async delete(operationId: string) {
+      try {
+        await fs.unlink(getFilePath(operationId));
+      } catch (e: unknown) {
+        if (!isNotFound(e)) {
+          throw e;
+        }
+      }
+    },
+    async list() {
+      let fileNames: string[];
+      try {
+        fileNames = await fs.readdir(directory);
+      } catch (e: unknown) {
+        if (isNotFound(e)) {
+          return [];
+        }
+        throw e;
+      }
+      const operationIds: string[] = [];
+      for (const fileName of fileNames.filter((name) => name.endsWith(".json"))) {
+        const stateFile = await readStateFile(path.join(directory, fileName));
+        if (stateFile) {
+          operationIds.push(stateFile.operationId);
+        }
+      }
+      return operationIds;
+    },
+  };
+}
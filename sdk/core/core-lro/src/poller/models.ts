@@ -2,6 +2,7 @@
 // Licensed under the MIT license.
 
 import { AbortSignalLike } from "@azure/abort-controller";
+import { PollerStateStore } from "./stateStore";
 
 /**
  * Configurations for how to poll the operation and to check whether it has
@@ -68,6 +69,16 @@ export interface CreatePollerOptions<TResponse, TResult, TState> {
    * service.
    */
   withOperationLocation?: (operationLocation: string) => void;
+  /**
+   * A store in which the poller saves its state after each poll, so that the operation
+   * can be resumed after the process restarts. The state is removed once the operation is done.
+   */
+  stateStore?: PollerStateStore;
+  /**
+   * The ID under which the state is saved in `stateStore`. Defaults to the operation location,
+   * or to the resource location if the operation doesn't have one.
+   */
+  operationId?: string;
 }
 
 /**
@@ -161,6 +172,8 @@ export interface SimplePollerLike<TState extends OperationState<TResult>, TResul
   poll(options?: { abortSignal?: AbortSignalLike }): Promise<void>;
   /**
    * Returns a promise that will resolve once the underlying operation is completed.
+   * It rejects with a `DeadlineExceededError` without waiting if the deadline of the abort signal,
+   * such as the signal of an `OperationBudget`, would pass before the next polling request.
    */
   pollUntilDone(pollOptions?: { abortSignal?: AbortSignalLike }): Promise<TResult>;
   /**
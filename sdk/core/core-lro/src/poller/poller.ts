@@ -1,7 +1,12 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { AbortController, AbortSignalLike } from "@azure/abort-controller";
+import {
+  AbortController,
+  AbortSignalLike,
+  DeadlineExceededError,
+  getRemainingTimeInMs,
+} from "@azure/abort-controller";
 import {
   BuildCreatePollerOptions,
   CreatePollerOptions,
@@ -14,6 +19,7 @@ import {
 import { deserializeState, initOperation, pollOperation } from "./operation";
 import { POLL_INTERVAL_IN_MS } from "./constants";
 import { delayMs } from "./util/delayMs";
+import { logger } from "../logger";
 
 const createStateProxy: <TResult, TState extends OperationState<TResult>>() => StateProxy<
   TState,
@@ -40,6 +46,17 @@ const createStateProxy: <TResult, TState extends OperationState<TResult>>() => S
   isSucceeded: (state) => state.status === "succeeded",
 });
 
+const pollingIntervals = new WeakMap<object, () => number>();
+
+/**
+ * Gets the time the given poller waits before sending the next polling request,
+ * as last suggested by the service, if it was created by `buildCreatePoller`.
+ * @internal
+ */
+export function getPollingIntervalInMs(poller: object): number | undefined {
+  return pollingIntervals.get(poller)?.();
+}
+
 /**
  * Returns a poller factory.
  */
@@ -67,6 +84,8 @@ export function buildCreatePoller<TResponse, TResult, TState extends OperationSt
       withOperationLocation: withOperationLocationCallback,
       intervalInMs = POLL_INTERVAL_IN_MS,
       restoreFrom,
+      stateStore,
+      operationId: operationIdOption,
     } = options || {};
     const stateProxy = createStateProxy<TResult, TState>();
     const withOperationLocation = withOperationLocationCallback
@@ -99,6 +118,22 @@ export function buildCreatePoller<TResponse, TResult, TState extends OperationSt
 
     let currentPollIntervalInMs = intervalInMs;
 
+    const operationId =
+      operationIdOption ?? state.config.operationLocation ?? state.config.resourceLocation;
+    /**
+     * Saves the state in the store, or removes it once the operation is done. Failures
+     * are logged rather than thrown so that they don't interrupt the polling.
+     */
+    const checkpoint = async (): Promise<void> => {
+      if (!stateStore || operationId === undefined) return;
+      try {
+        if (poller.isDone()) await stateStore.delete(operationId);
+        else await stateStore.set(operationId, poller.toString());
+      } catch (e: unknown) {
+        logger.warning(`LRO: Unable to save the state of operation ${operationId}:`, e);
+      }
+    };
+
     const poller: SimplePollerLike<TState, TResult> = {
       getOperationState: () => state,
       getResult: () => state.result,
@@ -126,6 +161,11 @@ export function buildCreatePoller<TResponse, TResult, TState extends OperationSt
           if (!poller.isDone()) {
             await poller.poll({ abortSignal });
             while (!poller.isDone()) {
+              if (currentPollIntervalInMs >= getRemainingTimeInMs(abortSignal)) {
+                throw new DeadlineExceededError(
+                  "The operation deadline would be exceeded before the next polling request."
+                );
+              }
               const delay = delayMs(currentPollIntervalInMs);
               cancelJob = delay.cancel;
               await delay;
@@ -172,6 +212,7 @@ export function buildCreatePoller<TResponse, TResult, TState extends OperationSt
           setErrorAsResult: !resolveOnUnsuccessful,
         });
         await handleProgressEvents();
+        await checkpoint();
         if (state.status === "canceled" && !resolveOnUnsuccessful) {
           throw new Error("Operation was canceled");
         }
@@ -180,6 +221,8 @@ export function buildCreatePoller<TResponse, TResult, TState extends OperationSt
         }
       },
     };
+    pollingIntervals.set(poller, () => currentPollIntervalInMs);
+    await checkpoint();
     return poller;
   };
 }
@@ -0,0 +1,223 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AbortController, AbortError, AbortSignalLike } from "@azure/abort-controller";
+import { CancelOnProgress, OperationState, OperationStatus, SimplePollerLike } from "./models";
+import { POLL_INTERVAL_IN_MS } from "./constants";
+import { getPollingIntervalInMs } from "./poller";
+
+/**
+ * Options for `createPollerGroup`.
+ */
+export interface PollerGroupOptions {
+  /**
+   * The maximum number of polling requests sent at the same time. Defaults to 5.
+   */
+  maxConcurrency?: number;
+  /**
+   * Defines how much time to wait before polling an operation again, for pollers that
+   * weren't created by this package. Other pollers wait for the time suggested by the service
+   * in the `Retry-After` header, or their own `intervalInMs`.
+   */
+  intervalInMs?: number;
+}
+
+/**
+ * The aggregate progress of the operations of a poller group.
+ */
+export interface PollerGroupProgress {
+  /**
+   * The number of operations in the group.
+   */
+  total: number;
+  /**
+   * The number of operations that reached a terminal state.
+   */
+  done: number;
+  /**
+   * The number of operations in each status.
+   */
+  statuses: Record<OperationStatus, number>;
+}
+
+/**
+ * A group of pollers that are polled together on a shared schedule.
+ */
+export interface PollerGroup<TState extends OperationState<TResult>, TResult> {
+  /**
+   * Polls the operations until they are all done.
+   * @returns The states of the operations, in the order of the pollers.
+   */
+  waitAll(options?: { abortSignal?: AbortSignalLike }): Promise<TState[]>;
+  /**
+   * Polls the operations until one of them is done.
+   * @returns The poller of the first operation that is done.
+   */
+  waitAny(options?: { abortSignal?: AbortSignalLike }): Promise<SimplePollerLike<TState, TResult>>;
+  /**
+   * Invokes the provided callback after each polling request of the group is completed,
+   * sending the aggregate progress of the operations.
+   *
+   * It returns a method that can be used to stop receiving updates on the given callback function.
+   */
+  onProgress(callback: (progress: PollerGroupProgress) => void): CancelOnProgress;
+  /**
+   * Returns the aggregate progress of the operations.
+   */
+  getProgress(): PollerGroupProgress;
+}
+
+interface Waiter {
+  isSatisfied: () => boolean;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Creates a group that polls many operations on a shared schedule with a cap on the number
+ * of concurrent polling requests, instead of each poller polling on its own timer.
+ * Polling only happens while `waitAll` or `waitAny` is being awaited. An operation that failed or
+ * was canceled counts as done, and the group rejects if a polling request fails otherwise.
+ * @param pollers - The pollers of the operations.
+ * @param options - Options to configure the group.
+ */
+export function createPollerGroup<TState extends OperationState<TResult>, TResult>(
+  pollers: SimplePollerLike<TState, TResult>[],
+  options: PollerGroupOptions = {}
+): PollerGroup<TState, TResult> {
+  const { maxConcurrency = 5, intervalInMs = POLL_INTERVAL_IN_MS } = options;
+  const waiters = new Set<Waiter>();
+  const nextPollTimes = new Map<SimplePollerLike<TState, TResult>, number>();
+  let isScheduling = false;
+  let wake: (() => void) | undefined;
+
+  type Handler = (progress: PollerGroupProgress) => void;
+  const handlers = new Map<symbol, Handler>();
+
+  const getProgress = (): PollerGroupProgress => {
+    const statuses: Record<OperationStatus, number> = {
+      notStarted: 0,
+      running: 0,
+      succeeded: 0,
+      canceled: 0,
+      failed: 0,
+    };
+    for (const poller of pollers) {
+      statuses[poller.getOperationState().status]++;
+    }
+    return {
+      total: pollers.length,
+      done: pollers.filter((poller) => poller.isDone()).length,
+      statuses,
+    };
+  };
+
+  const settleWaiters = (error?: { error: unknown }): void => {
+    for (const waiter of waiters) {
+      if (error) {
+        waiters.delete(waiter);
+        waiter.reject(error.error);
+      } else if (waiter.isSatisfied()) {
+        waiters.delete(waiter);
+        waiter.resolve();
+      }
+    }
+  };
+
+  const schedule = async (): Promise<void> => {
+    isScheduling = true;
+    const abortController = new AbortController();
+    const inFlight = new Set<SimplePollerLike<TState, TResult>>();
+    let pollError: { error: unknown } | undefined;
+    try {
+      while (waiters.size > 0 && !pollError) {
+        const now = Date.now();
+        let nextPollTime = Infinity;
+        for (const poller of pollers) {
+          if (poller.isDone() || inFlight.has(poller)) continue;
+          const pollTime = nextPollTimes.get(poller) ?? 0;
+          if (pollTime > now) {
+            nextPollTime = Math.min(nextPollTime, pollTime);
+          } else if (inFlight.size < maxConcurrency) {
+            inFlight.add(poller);
+            poller
+              .poll({ abortSignal: abortController.signal })
+              .catch((e: unknown) => {
+                // Pollers throw once their operation failed or was canceled, which counts as done.
+                if (!poller.isDone()) pollError ??= { error: e };
+              })
+              .finally(() => {
+                inFlight.delete(poller);
+                nextPollTimes.set(
+                  poller,
+                  Date.now() + (getPollingIntervalInMs(poller) ?? intervalInMs)
+                );
+                handlers.forEach((h) => h(getProgress()));
+                settleWaiters();
+                wake?.();
+              });
+          }
+        }
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+          if (nextPollTime !== Infinity) timer = setTimeout(resolve, nextPollTime - now);
+        });
+        clearTimeout(timer);
+        wake = undefined;
+      }
+    } finally {
+      abortController.abort();
+      isScheduling = false;
+      if (pollError) settleWaiters(pollError);
+    }
+  };
+
+  const wait = (isSatisfied: () => boolean, abortSignal?: AbortSignalLike): Promise<void> =>
+    new Promise<void>((resolve, reject) => {
+      if (abortSignal?.aborted) {
+        reject(new AbortError("The polling was aborted."));
+        return;
+      }
+      const onAborted = (): void => {
+        waiters.delete(waiter);
+        reject(new AbortError("The polling was aborted."));
+        wake?.();
+      };
+      const waiter: Waiter = {
+        isSatisfied,
+        resolve: () => {
+          abortSignal?.removeEventListener("abort", onAborted);
+          resolve();
+        },
+        reject: (error) => {
+          abortSignal?.removeEventListener("abort", onAborted);
+          reject(error);
+        },
+      };
+      abortSignal?.addEventListener("abort", onAborted);
+      waiters.add(waiter);
+      settleWaiters();
+      if (!isScheduling && waiters.size > 0) void schedule();
+    });
+
+  return {
+    waitAll: async (waitOptions) => {
+      await wait(() => pollers.every((poller) => poller.isDone()), waitOptions?.abortSignal);
+      return pollers.map((poller) => poller.getOperationState());
+    },
+    waitAny: async (waitOptions) => {
+      if (pollers.length === 0) {
+        throw new Error("The poller group is empty");
+      }
+      await wait(() => pollers.some((poller) => poller.isDone()), waitOptions?.abortSignal);
+      return pollers.find((poller) => poller.isDone())!;
+    },
+    onProgress: (callback: Handler) => {
+      const s = Symbol();
+      handlers.set(s, callback);
+      return () => handlers.delete(s);
+    },
+    getProgress,
+  };
+}
@@ -0,0 +1,70 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+/**
+ * A store that persists the serialized state of pollers, so that their operations can be
+ * resumed after the process restarts. Pollers created with a store save their state after
+ * each poll and remove it once the operation is done.
+ */
+export interface PollerStateStore {
+  /**
+   * Gets the serialized state saved for the given operation, or undefined if there is none.
+   */
+  get(operationId: string): Promise<string | undefined>;
+  /**
+   * Saves the serialized state of the given operation, replacing any previous state.
+   */
+  set(operationId: string, serializedState: string): Promise<void>;
+  /**
+   * Removes the state saved for the given operation, if any.
+   */
+  delete(operationId: string): Promise<void>;
+  /**
+   * Lists the IDs of the operations whose state is saved.
+   */
+  list(): Promise<string[]>;
+}
+
+/**
+ * Creates a store that keeps the serialized states in memory.
+ */
+export function createInMemoryPollerStateStore(): PollerStateStore {
+  const states = new Map<string, string>();
+  return {
+    async get(operationId: string) {
+      return states.get(operationId);
+    },
+    async set(operationId: string, serializedState: string) {
+      states.set(operationId, serializedState);
+    },
+    async delete(operationId: string) {
+      states.delete(operationId);
+    },
+    async list() {
+      return [...states.keys()];
+    },
+  };
+}
+
+/**
+ * Resumes the operations whose state is saved in a store, e.g. after the process restarted.
+ * @param store - The store in which the pollers saved their state.
+ * @param createPoller - A function that creates a poller from the serialized state of an operation,
+ * typically by passing it as `restoreFrom` along with the same store and operation ID
+ * so that the resumed poller keeps saving its state.
+ * @returns The resumed pollers.
+ */
+export async function resumePollers<TPoller>(
+  store: PollerStateStore,
+  createPoller: (restoreFrom: string, operationId: string) => Promise<TPoller>
+): Promise<TPoller[]> {
+  const pollers: TPoller[] = [];
+  for (const operationId of await store.list()) {
+    const serializedState = await store.get(operationId);
+    // The operation may have completed since it was listed.
+    if (serializedState !== undefined) {
+      pollers.push(await createPoller(serializedState, operationId));
+    }
+  }
+  return pollers;
+}
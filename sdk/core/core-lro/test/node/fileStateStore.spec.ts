@@ -0,0 +1,41 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import * as os from "os";
+import * as path from "path";
+import { promises as fs } from "fs";
+import { assert } from "@azure/test-utils";
+import { createFilePollerStateStore } from "../../src";
+
+describe("createFilePollerStateStore", function () {
+  let directory: string;
+
+  beforeEach(async function () {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "core-lro-"));
+  });
+
+  afterEach(async function () {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("saves, lists and removes states", async function () {
+    const operationId = "https://management.azure.com/operations/1?api-version=2022-01-01";
+    const store = createFilePollerStateStore(path.join(directory, "states"));
+    assert.deepEqual(await store.list(), []);
+    assert.isUndefined(await store.get(operationId));
+
+    await store.set(operationId, "state 1");
+    await store.set(operationId, "state 2");
+    assert.equal(await store.get(operationId), "state 2");
+    assert.deepEqual(await store.list(), [operationId]);
+
+    await store.delete(operationId);
+    await store.delete(operationId);
+    assert.deepEqual(await store.list(), []);
+  });
+
+  it("shares the states between instances", async function () {
+    await createFilePollerStateStore(directory).set("operation", "state");
+    assert.equal(await createFilePollerStateStore(directory).get("operation"), "state");
+  });
+});
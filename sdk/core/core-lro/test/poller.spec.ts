@@ -0,0 +1,48 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { DeadlineExceededError, OperationBudget } from "@azure/abort-controller";
+import { OperationState } from "../src";
+import { Operation } from "../src/poller/models";
+import { assert } from "@azure/test-utils";
+import { buildCreatePoller } from "../src/poller/poller";
+
+type Response = { status: string };
+
+const createPoller = buildCreatePoller<Response, string, OperationState<string>>({
+  getStatusFromInitialResponse: ({ response }) => response.status as "running",
+  getStatusFromPollResponse: (response) => response.status as "running",
+  getResourceLocation: () => undefined,
+  resolveOnUnsuccessful: false,
+});
+
+function createOperation(): Operation<Response, unknown> & { pollCount: number } {
+  const operation = {
+    pollCount: 0,
+    init: async () => ({
+      response: { status: "running" },
+      operationLocation: "https://example.org/operations/1",
+    }),
+    poll: async () => {
+      operation.pollCount++;
+      return { status: "running" };
+    },
+  };
+  return operation;
+}
+
+describe("createPoller", function () {
+  it("stops polling when the next polling request would exceed the deadline", async function () {
+    const operation = createOperation();
+    const poller = await createPoller(operation, { intervalInMs: 100 });
+    const budget = new OperationBudget({ timeoutInMs: 250 });
+    const start = Date.now();
+
+    await poller.pollUntilDone({ abortSignal: budget.signal }).then(
+      () => assert.fail("pollUntilDone should have rejected"),
+      (e: unknown) => assert.instanceOf(e, DeadlineExceededError)
+    );
+    assert.equal(operation.pollCount, 3);
+    assert.isBelow(Date.now() - start, 250);
+  });
+});
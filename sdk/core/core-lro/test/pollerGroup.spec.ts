@@ -0,0 +1,136 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { OperationState, PollerGroupProgress, createPollerGroup } from "../src";
+import { AbortController } from "@azure/abort-controller";
+import { Operation } from "../src/poller/models";
+import { assert } from "@azure/test-utils";
+import { buildCreatePoller } from "../src/poller/poller";
+
+type Response = { status: string; retryAfterInMs?: number };
+
+const createPoller = buildCreatePoller<Response, string, OperationState<string>>({
+  getStatusFromInitialResponse: ({ response }) => response.status as "running",
+  getStatusFromPollResponse: (response) => response.status as "running",
+  getResourceLocation: () => undefined,
+  getPollingInterval: (response) => response.retryAfterInMs,
+  resolveOnUnsuccessful: false,
+});
+
+function createOperation(
+  responses: Response[],
+  onPoll: (pollTimes: number[]) => Promise<void> = async () => undefined
+): Operation<Response, unknown> & { pollTimes: number[] } {
+  const pollTimes: number[] = [];
+  return {
+    pollTimes,
+    init: async () => ({
+      response: { status: "running" },
+      operationLocation: "https://example.org/operations/1",
+    }),
+    poll: async () => {
+      pollTimes.push(Date.now());
+      await onPoll(pollTimes);
+      return responses[pollTimes.length - 1];
+    },
+  };
+}
+
+describe("createPollerGroup", function () {
+  it("waits for all the operations", async function () {
+    const operations = [
+      createOperation([{ status: "succeeded" }]),
+      createOperation([{ status: "running" }, { status: "failed" }]),
+    ];
+    const pollers = await Promise.all(
+      operations.map((operation) => createPoller(operation, { intervalInMs: 0 }))
+    );
+    const progresses: PollerGroupProgress[] = [];
+    const group = createPollerGroup(pollers);
+    group.onProgress((progress) => progresses.push(progress));
+
+    const states = await group.waitAll();
+    assert.deepEqual(
+      states.map((state) => state.status),
+      ["succeeded", "failed"]
+    );
+    assert.equal(progresses.length, 3);
+    assert.deepInclude(progresses[2], { total: 2, done: 2 });
+    assert.include(progresses[2].statuses, { succeeded: 1, failed: 1, running: 0 });
+  });
+
+  it("waits for the first operation that is done", async function () {
+    const operations = [
+      createOperation([{ status: "running" }, { status: "running" }, { status: "succeeded" }]),
+      createOperation([{ status: "running" }, { status: "succeeded" }]),
+    ];
+    const pollers = await Promise.all(
+      operations.map((operation) => createPoller(operation, { intervalInMs: 0 }))
+    );
+    const group = createPollerGroup(pollers);
+
+    assert.strictEqual(await group.waitAny(), pollers[1]);
+    assert.isFalse(pollers[0].isDone());
+    assert.equal(group.getProgress().done, 1);
+  });
+
+  it("caps the number of concurrent polling requests", async function () {
+    let pending = 0;
+    let maxPending = 0;
+    const onPoll = async (): Promise<void> => {
+      maxPending = Math.max(maxPending, ++pending);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      pending--;
+    };
+    const pollers = await Promise.all(
+      Array.from({ length: 10 }, () =>
+        createPoller(createOperation([{ status: "running" }, { status: "succeeded" }], onPoll), {
+          intervalInMs: 0,
+        })
+      )
+    );
+
+    await createPollerGroup(pollers, { maxConcurrency: 3 }).waitAll();
+    assert.equal(maxPending, 3);
+  });
+
+  it("respects the polling interval suggested by the service", async function () {
+    const operation = createOperation([
+      { status: "running", retryAfterInMs: 100 },
+      { status: "succeeded" },
+    ]);
+    const poller = await createPoller(operation, { intervalInMs: 0 });
+
+    await createPollerGroup([poller]).waitAll();
+    assert.isAtLeast(operation.pollTimes[1] - operation.pollTimes[0], 90);
+  });
+
+  it("reports the operations whose polling request failed", async function () {
+    const poller = await createPoller(
+      createOperation([], async () => {
+        throw new Error("The service is unavailable");
+      })
+    );
+
+    const [state] = await createPollerGroup([poller]).waitAll();
+    assert.equal(state.status, "failed");
+    assert.equal(state.error?.message, "The service is unavailable");
+  });
+
+  it("stops polling when aborted", async function () {
+    const operation = createOperation(Array.from({ length: 100 }, () => ({ status: "running" })));
+    const poller = await createPoller(operation, { intervalInMs: 10 });
+    const abortController = new AbortController();
+    setTimeout(() => abortController.abort(), 30);
+
+    await createPollerGroup([poller])
+      .waitAll({ abortSignal: abortController.signal })
+      .then(
+        () => assert.fail("waitAll should have rejected"),
+        (e: Error) => assert.equal(e.name, "AbortError")
+      );
+    const pollCount = operation.pollTimes.length;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(operation.pollTimes.length, pollCount);
+  });
+});
@@ -0,0 +1,100 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+  OperationState,
+  PollerStateStore,
+  SimplePollerLike,
+  createInMemoryPollerStateStore,
+  resumePollers,
+} from "../src";
+import { assert } from "@azure/test-utils";
+import { Operation } from "../src/poller/models";
+import { buildCreatePoller } from "../src/poller/poller";
+
+type Response = { status: string; value?: string };
+
+const createPoller = buildCreatePoller<Response, string, OperationState<string>>({
+  getStatusFromInitialResponse: ({ response }) => response.status as "running",
+  getStatusFromPollResponse: (response) => response.status as "running",
+  getResourceLocation: () => undefined,
+  resolveOnUnsuccessful: false,
+});
+
+function createOperation(statuses: string[]): Operation<Response, unknown> {
+  let pollCount = 0;
+  return {
+    init: async () => ({
+      response: { status: "running" },
+      operationLocation: "https://example.org/operations/1",
+    }),
+    poll: async () => {
+      const status = statuses[pollCount++];
+      return { status, value: status === "succeeded" ? "done" : undefined };
+    },
+  };
+}
+
+describe("Poller state store", function () {
+  it("saves the state after each poll and removes it once done", async function () {
+    const stateStore = createInMemoryPollerStateStore();
+    const poller = await createPoller(createOperation(["running", "succeeded"]), {
+      stateStore,
+      processResult: (response) => response.value ?? "",
+    });
+    assert.deepEqual(await stateStore.list(), ["https://example.org/operations/1"]);
+    assert.equal(await stateStore.get("https://example.org/operations/1"), poller.toString());
+
+    await poller.poll();
+    assert.deepEqual(await stateStore.list(), ["https://example.org/operations/1"]);
+
+    await poller.poll();
+    assert.isTrue(poller.isDone());
+    assert.deepEqual(await stateStore.list(), []);
+  });
+
+  it("saves the state under the given operation ID", async function () {
+    const stateStore = createInMemoryPollerStateStore();
+    await createPoller(createOperation([]), { stateStore, operationId: "deployment-1" });
+    assert.deepEqual(await stateStore.list(), ["deployment-1"]);
+  });
+
+  it("keeps polling when the store fails", async function () {
+    const stateStore: PollerStateStore = {
+      ...createInMemoryPollerStateStore(),
+      set: async () => {
+        throw new Error("The store is unavailable");
+      },
+    };
+    const poller = await createPoller(createOperation(["running", "succeeded"]), {
+      stateStore,
+      intervalInMs: 0,
+      processResult: (response) => response.value ?? "",
+    });
+    assert.equal(await poller.pollUntilDone(), "done");
+  });
+
+  it("resumes the outstanding operations", async function () {
+    const stateStore = createInMemoryPollerStateStore();
+    await createPoller(createOperation([]), { stateStore, operationId: "deployment-1" });
+    await createPoller(createOperation([]), { stateStore, operationId: "deployment-2" });
+
+    const pollers = await resumePollers(
+      stateStore,
+      (restoreFrom, operationId): Promise<SimplePollerLike<OperationState<string>, string>> =>
+        createPoller(createOperation(["succeeded"]), {
+          restoreFrom,
+          stateStore,
+          operationId,
+          intervalInMs: 0,
+          processResult: (response) => response.value ?? "",
+        })
+    );
+    assert.lengthOf(pollers, 2);
+    assert.deepEqual(await Promise.all(pollers.map((poller) => poller.pollUntilDone())), [
+      "done",
+      "done",
+    ]);
+    assert.deepEqual(await stateStore.list(), []);
+  });
+});
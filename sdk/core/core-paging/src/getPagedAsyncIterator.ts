@@ -1,7 +1,8 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { PageSettings, PagedAsyncIterableIterator, PagedResult } from "./models";
+import { AbortController, AbortError, AbortSignalLike } from "@azure/abort-controller";
+import { PageCursor, PageSettings, PagedAsyncIterableIterator, PagedResult } from "./models";
 
 /**
  * returns an async iterator that iterates over results. It also has a `byPage`
@@ -30,10 +31,14 @@ export function getPagedAsyncIterator<
     byPage:
       pagedResult?.byPage ??
       (((settings?: PageSettings) => {
-        const { continuationToken, maxPageSize } = settings ?? {};
+        const { continuationToken, maxPageSize, onPage, prefetchPageCount, abortSignal } =
+          settings ?? {};
         return getPageAsyncIterator(pagedResult, {
           pageLink: continuationToken as unknown as TLink | undefined,
           maxPageSize,
+          onPage,
+          prefetchPageCount,
+          abortSignal,
         });
       }) as unknown as (settings?: TPageSettings) => AsyncIterableIterator<TPage>),
   };
@@ -73,19 +78,90 @@ async function* getPageAsyncIterator<TPage, TLink, TPageSettings>(
   options: {
     maxPageSize?: number;
     pageLink?: TLink;
+    onPage?: (cursor: PageCursor) => void | Promise<void>;
+    prefetchPageCount?: number;
+    abortSignal?: AbortSignalLike;
   } = {}
 ): AsyncIterableIterator<TPage> {
-  const { pageLink, maxPageSize } = options;
-  let response = await pagedResult.getPage(pageLink ?? pagedResult.firstPageLink, maxPageSize);
-  if (!response) {
-    return;
+  const { pageLink, maxPageSize, onPage, prefetchPageCount = 0, abortSignal } = options;
+  type PageResponse = { page: TPage; nextPageLink?: TLink } | undefined;
+
+  // Aborts the pages still being fetched when the iteration is aborted or stopped early.
+  const pageController = new AbortController();
+  const pageOptions = { abortSignal: pageController.signal };
+  const abortPages = (): void => pageController.abort();
+
+  // The pages fetched ahead of the consumer. Each page is fetched once the previous one
+  // was received, since its link is only known then.
+  const queue: Promise<PageResponse>[] = [];
+  let lastResponse: Promise<PageResponse> | undefined;
+  function fetchAhead(pageCount: number): void {
+    while (queue.length < pageCount && !pageController.signal.aborted) {
+      const response: Promise<PageResponse> = lastResponse
+        ? lastResponse.then((previous) =>
+            previous?.nextPageLink && !pageController.signal.aborted
+              ? pagedResult.getPage(previous.nextPageLink, maxPageSize, pageOptions)
+              : undefined
+          )
+        : pagedResult.getPage(pageLink ?? pagedResult.firstPageLink, maxPageSize, pageOptions);
+      // Errors are thrown to the consumer when it gets to the page.
+      response.catch(() => undefined);
+      queue.push(response);
+      lastResponse = response;
+    }
   }
-  yield response.page;
-  while (response.nextPageLink) {
-    response = await pagedResult.getPage(response.nextPageLink, maxPageSize);
-    if (!response) {
-      return;
+
+  abortSignal?.addEventListener("abort", abortPages);
+  try {
+    if (abortSignal?.aborted) {
+      throw new AbortError("The paged iteration was aborted.");
+    }
+    while (true) {
+      fetchAhead(1);
+      const response = await abortable(queue.shift()!, abortSignal);
+      if (!response) {
+        return;
+      }
+      fetchAhead(prefetchPageCount);
+      await onPage?.({
+        continuationToken: response.nextPageLink as unknown as string | undefined,
+      });
+      yield response.page;
+      if (!response.nextPageLink) {
+        return;
+      }
     }
-    yield response.page;
+  } finally {
+    abortSignal?.removeEventListener("abort", abortPages);
+    abortPages();
   }
 }
+
+/**
+ * Waits for a promise, rejecting early with an AbortError if the signal is aborted.
+ */
+function abortable<T>(promise: Promise<T>, abortSignal?: AbortSignalLike): Promise<T> {
+  if (!abortSignal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAborted = (): void => {
+      reject(new AbortError("The paged iteration was aborted."));
+    };
+    if (abortSignal.aborted) {
+      onAborted();
+      return;
+    }
+    abortSignal.addEventListener("abort", onAborted);
+    promise.then(
+      (value) => {
+        abortSignal.removeEventListener("abort", onAborted);
+        resolve(value);
+      },
+      (err) => {
+        abortSignal.removeEventListener("abort", onAborted);
+        reject(err);
+      }
+    );
+  });
+}
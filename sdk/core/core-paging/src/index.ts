@@ -3,3 +3,4 @@
 
 export * from "./models";
 export * from "./getPagedAsyncIterator";
+export * from "./resumablePages";
@@ -1,6 +1,8 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
+import { AbortSignalLike } from "@azure/abort-controller";
+
 /**
  * An interface that tracks the settings for paged iteration
  */
@@ -13,6 +15,39 @@ export interface PageSettings {
    * The size of the page during paged iteration
    */
   maxPageSize?: number;
+  /**
+   * A function called with the cursor to resume the iteration after each page, before that page is returned.
+   * Persist the cursor once the page has been processed to be able to resume from there later.
+   * Only supported by the `byPage` method of iterators created by `getPagedAsyncIterator`
+   * without a custom `byPage` implementation.
+   */
+  onPage?: (cursor: PageCursor) => void | Promise<void>;
+  /**
+   * The number of pages to fetch in the background while the current page is processed.
+   * At most this many pages are held in memory in addition to the current page.
+   * Defaults to 0, i.e. each page is only fetched when it is requested.
+   * Only supported by the `byPage` method of iterators created by `getPagedAsyncIterator`
+   * without a custom `byPage` implementation.
+   */
+  prefetchPageCount?: number;
+  /**
+   * Used to abort the paged iteration. Pages are no longer fetched once it is aborted,
+   * the pages being fetched are aborted, and waiting for the next page rejects with an `AbortError`.
+   * Only supported by the `byPage` method of iterators created by `getPagedAsyncIterator`
+   * without a custom `byPage` implementation.
+   */
+  abortSignal?: AbortSignalLike;
+}
+
+/**
+ * A serializable position in a paged iteration.
+ */
+export interface PageCursor {
+  /**
+   * The continuation token to pass to `byPage` to get the pages after the position,
+   * or undefined if there are no pages after the position.
+   */
+  continuationToken?: string;
 }
 /**
  * An interface that allows async iterable iteration both to completion and by page.
@@ -46,10 +81,13 @@ export interface PagedResult<TPage, TPageSettings = PageSettings, TLink = string
   firstPageLink: TLink;
   /**
    * A method that returns a page of results.
+   * The abort signal in the options is aborted when the page is no longer needed,
+   * because the paged iteration was aborted or stopped before reaching the page.
    */
   getPage: (
     pageLink: TLink,
-    maxPageSize?: number
+    maxPageSize?: number,
+    options?: { abortSignal?: AbortSignalLike }
   ) => Promise<{ page: TPage; nextPageLink?: TLink } | undefined>;
   /**
    * a function to implement the `byPage` method on the paged async iterator. The default is
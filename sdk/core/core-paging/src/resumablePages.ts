@@ -0,0 +1,115 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { PageCursor, PageSettings, PagedAsyncIterableIterator } from "./models";
+
+/**
+ * A store that persists the cursors of paged iterations, so that they can be resumed
+ * after the process restarts.
+ */
+export interface PageCursorStore {
+  /**
+   * Gets the cursor saved under the given key, or undefined if there is none.
+   */
+  get(key: string): Promise<PageCursor | undefined>;
+  /**
+   * Saves the cursor under the given key, replacing any previous cursor.
+   */
+  set(key: string, cursor: PageCursor): Promise<void>;
+}
+
+/**
+ * Options to configure {@link getResumablePages}.
+ */
+export interface ResumablePagesOptions<TPage> {
+  /**
+   * The store in which to save the cursor after each processed page.
+   */
+  store: PageCursorStore;
+  /**
+   * The key under which the cursor of this iteration is saved.
+   */
+  key: string;
+  /**
+   * The size of the pages, passed to `byPage`.
+   */
+  maxPageSize?: number;
+  /**
+   * A function that returns the continuation token of the pages after the given page,
+   * used when the `byPage` method of the iterator doesn't support `onPage`.
+   * Defaults to reading the `continuationToken` property of the page.
+   */
+  getContinuationToken?: (page: TPage) => string | undefined;
+}
+
+/**
+ * Creates a store that keeps the cursors in memory.
+ */
+export function createInMemoryPageCursorStore(): PageCursorStore {
+  const cursors = new Map<string, PageCursor>();
+  return {
+    async get(key: string) {
+      const cursor = cursors.get(key);
+      return cursor && { ...cursor };
+    },
+    async set(key: string, cursor: PageCursor) {
+      cursors.set(key, { ...cursor });
+    },
+  };
+}
+
+function getPageContinuationToken(page: unknown): string | undefined {
+  const continuationToken = (page as { continuationToken?: unknown } | undefined)
+    ?.continuationToken;
+  return typeof continuationToken === "string" ? continuationToken : undefined;
+}
+
+/**
+ * Iterates over the pages of a paged iterator, saving a cursor in a store after each page
+ * has been processed, i.e. when the next page is requested. If a cursor was saved by a previous
+ * iteration with the same key, the iteration resumes after the last processed page,
+ * and if that iteration completed, no pages are returned.
+ *
+ * Pages are processed at least once: a page whose processing was interrupted is returned again
+ * when resuming.
+ *
+ * @param iterator - The paged iterator to iterate over, such as the result of a `list` method of a client.
+ * @param options - Options to configure where the cursors are saved.
+ */
+export async function* getResumablePages<
+  TElement,
+  TPage = TElement[],
+  TPageSettings extends PageSettings = PageSettings
+>(
+  iterator: PagedAsyncIterableIterator<TElement, TPage, TPageSettings>,
+  options: ResumablePagesOptions<TPage>
+): AsyncIterableIterator<TPage> {
+  const { store, key, maxPageSize, getContinuationToken = getPageContinuationToken } = options;
+
+  const savedCursor = await store.get(key);
+  if (savedCursor && savedCursor.continuationToken === undefined) {
+    return;
+  }
+
+  let reportedCursor: PageCursor | undefined;
+  const pages = iterator.byPage({
+    continuationToken: savedCursor?.continuationToken,
+    maxPageSize,
+    onPage: (cursor: PageCursor) => {
+      reportedCursor = cursor;
+    },
+  } as TPageSettings);
+
+  for await (const page of pages) {
+    const cursor: PageCursor = reportedCursor ?? {
+      continuationToken: getContinuationToken(page),
+    };
+    reportedCursor = undefined;
+    yield page;
+    // The end of the iteration is only saved once it is known, in case the page lacks a continuation token.
+    if (cursor.continuationToken !== undefined) {
+      await store.set(key, cursor);
+    }
+  }
+  await store.set(key, {});
+}
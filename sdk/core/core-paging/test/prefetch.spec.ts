@@ -0,0 +1,138 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert } from "chai";
+import { AbortController, AbortError, AbortSignalLike } from "@azure/abort-controller";
+import { PagedResult, PageSettings, getPagedAsyncIterator } from "../src";
+
+describe("page prefetching", function () {
+  const pageCount = 5;
+
+  function buildPagedResult(
+    fetchedLinks: number[],
+    pageSignals: AbortSignalLike[] = []
+  ): PagedResult<number[], PageSettings, number> {
+    return {
+      firstPageLink: 0,
+      async getPage(pageLink, _maxPageSize, options) {
+        fetchedLinks.push(pageLink);
+        pageSignals.push(options!.abortSignal!);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return {
+          page: [pageLink],
+          nextPageLink: pageLink + 1 < pageCount ? pageLink + 1 : undefined,
+        };
+      },
+    };
+  }
+
+  async function waitForFetches(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+
+  it("should not fetch pages ahead by default", async function () {
+    const fetchedLinks: number[] = [];
+    const pages = getPagedAsyncIterator(buildPagedResult(fetchedLinks)).byPage();
+
+    assert.deepEqual((await pages.next()).value, [0]);
+    await waitForFetches();
+    assert.deepEqual(fetchedLinks, [0]);
+  });
+
+  it("should fetch up to prefetchPageCount pages ahead of the consumer", async function () {
+    const fetchedLinks: number[] = [];
+    const pages = getPagedAsyncIterator(buildPagedResult(fetchedLinks)).byPage({
+      prefetchPageCount: 2,
+    });
+
+    assert.deepEqual((await pages.next()).value, [0]);
+    await waitForFetches();
+    assert.deepEqual(fetchedLinks, [0, 1, 2]);
+
+    assert.deepEqual((await pages.next()).value, [1]);
+    await waitForFetches();
+    assert.deepEqual(fetchedLinks, [0, 1, 2, 3]);
+
+    const remaining: number[][] = [];
+    for await (const page of pages) {
+      remaining.push(page);
+    }
+    assert.deepEqual(remaining, [[2], [3], [4]]);
+    assert.deepEqual(fetchedLinks, [0, 1, 2, 3, 4]);
+  });
+
+  it("should throw errors of prefetched pages when they are reached", async function () {
+    const pagedResult: PagedResult<number[], PageSettings, number> = {
+      firstPageLink: 0,
+      async getPage(pageLink) {
+        if (pageLink === 1) {
+          throw new Error("page failed");
+        }
+        return { page: [pageLink], nextPageLink: pageLink + 1 };
+      },
+    };
+    const pages = getPagedAsyncIterator(pagedResult).byPage({ prefetchPageCount: 3 });
+
+    assert.deepEqual((await pages.next()).value, [0]);
+    try {
+      await pages.next();
+      assert.fail("Expected the page to fail");
+    } catch (e: any) {
+      assert.strictEqual(e.message, "page failed");
+    }
+  });
+
+  it("should stop fetching pages when aborted", async function () {
+    const fetchedLinks: number[] = [];
+    const controller = new AbortController();
+    const pages = getPagedAsyncIterator(buildPagedResult(fetchedLinks)).byPage({
+      prefetchPageCount: 1,
+      abortSignal: controller.signal,
+    });
+
+    assert.deepEqual((await pages.next()).value, [0]);
+    controller.abort();
+    try {
+      await pages.next();
+      assert.fail("Expected the iteration to be aborted");
+    } catch (e: any) {
+      assert.instanceOf(e, AbortError);
+    }
+    await waitForFetches();
+    assert.deepEqual(fetchedLinks, [0, 1]);
+  });
+
+  it("should abort the pages fetched ahead when the iteration is stopped early", async function () {
+    const fetchedLinks: number[] = [];
+    const pageSignals: AbortSignalLike[] = [];
+    const pages = getPagedAsyncIterator(buildPagedResult(fetchedLinks, pageSignals)).byPage({
+      prefetchPageCount: 2,
+    });
+
+    assert.deepEqual((await pages.next()).value, [0]);
+    assert.isFalse(pageSignals[0].aborted);
+    await pages.return!();
+    await waitForFetches();
+
+    assert.deepEqual(fetchedLinks, [0, 1]);
+    assert.isTrue(pageSignals.every((signal) => signal.aborted));
+  });
+
+  it("should abort the pages being fetched when aborted", async function () {
+    const controller = new AbortController();
+    const pageSignals: AbortSignalLike[] = [];
+    const pages = getPagedAsyncIterator(buildPagedResult([], pageSignals)).byPage({
+      abortSignal: controller.signal,
+    });
+
+    const next = pages.next();
+    controller.abort();
+    try {
+      await next;
+      assert.fail("Expected the iteration to be aborted");
+    } catch (e: any) {
+      assert.instanceOf(e, AbortError);
+    }
+    assert.isTrue(pageSignals[0].aborted);
+  });
+});
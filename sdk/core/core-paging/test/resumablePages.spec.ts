@@ -0,0 +1,128 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert } from "chai";
+import {
+  PageCursor,
+  PagedAsyncIterableIterator,
+  PagedResult,
+  PageSettings,
+  createInMemoryPageCursorStore,
+  getPagedAsyncIterator,
+  getResumablePages,
+} from "../src";
+
+function buildIterator(collection: number[]): PagedAsyncIterableIterator<number> {
+  const pagedResult: PagedResult<number[], PageSettings, number> = {
+    firstPageLink: 0,
+    async getPage(pageLink, maxPageSize) {
+      const top = maxPageSize || 2;
+      return {
+        page: collection.slice(pageLink, pageLink + top),
+        nextPageLink: pageLink + top < collection.length ? pageLink + top : undefined,
+      };
+    },
+  };
+  return getPagedAsyncIterator(pagedResult);
+}
+
+describe("resumable pages", function () {
+  const collection = [1, 2, 3, 4, 5];
+
+  it("byPage should report a cursor for each page", async function () {
+    const cursors: PageCursor[] = [];
+    const pages: number[][] = [];
+    for await (const page of buildIterator(collection).byPage({
+      onPage: (cursor) => {
+        cursors.push(cursor);
+      },
+    })) {
+      pages.push(page);
+    }
+    assert.deepEqual(pages, [[1, 2], [3, 4], [5]]);
+    assert.deepEqual(cursors, [
+      { continuationToken: 2 as unknown as string },
+      { continuationToken: 4 as unknown as string },
+      { continuationToken: undefined },
+    ]);
+  });
+
+  it("byPage should resume from a reported cursor", async function () {
+    let resumeCursor: PageCursor | undefined;
+    for await (const page of buildIterator(collection).byPage({
+      onPage: (cursor) => {
+        resumeCursor = cursor;
+      },
+    })) {
+      assert.deepEqual(page, [1, 2]);
+      break;
+    }
+
+    const pages: number[][] = [];
+    const serialized = JSON.parse(JSON.stringify(resumeCursor));
+    for await (const page of buildIterator(collection).byPage(serialized)) {
+      pages.push(page);
+    }
+    assert.deepEqual(pages, [[3, 4], [5]]);
+  });
+
+  it("getResumablePages should resume after the last processed page", async function () {
+    const store = createInMemoryPageCursorStore();
+    const pages: number[][] = [];
+
+    for await (const page of getResumablePages(buildIterator(collection), { store, key: "job" })) {
+      pages.push(page);
+      if (pages.length === 2) {
+        // Simulates a crash while processing the second page.
+        break;
+      }
+    }
+    assert.deepEqual(await store.get("job"), { continuationToken: 2 as unknown as string });
+
+    for await (const page of getResumablePages(buildIterator(collection), { store, key: "job" })) {
+      pages.push(page);
+    }
+    assert.deepEqual(pages, [[1, 2], [3, 4], [3, 4], [5]]);
+    assert.deepEqual(await store.get("job"), {});
+
+    for await (const page of getResumablePages(buildIterator(collection), { store, key: "job" })) {
+      assert.fail(`A completed iteration should not return pages but got ${page}`);
+    }
+  });
+
+  it("getResumablePages should use the continuation token of pages of custom iterators", async function () {
+    interface Page {
+      items: number[];
+      continuationToken?: string;
+    }
+    const requestedTokens: Array<string | undefined> = [];
+    const iterator: PagedAsyncIterableIterator<number, Page> = {
+      next: () => Promise.resolve({ done: true, value: undefined }),
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+      async *byPage(settings: PageSettings = {}) {
+        requestedTokens.push(settings.continuationToken);
+        let index = Number(settings.continuationToken ?? 0);
+        while (index < collection.length) {
+          const next = index + 3;
+          yield {
+            items: collection.slice(index, next),
+            continuationToken: next < collection.length ? String(next) : undefined,
+          };
+          index = next;
+        }
+      },
+    };
+
+    const store = createInMemoryPageCursorStore();
+    await store.set("custom", { continuationToken: "3" });
+    const pages: Page[] = [];
+    for await (const page of getResumablePages(iterator, { store, key: "custom" })) {
+      pages.push(page);
+    }
+    assert.deepEqual(requestedTokens, ["3"]);
+    assert.deepEqual(pages, [{ items: [4, 5], continuationToken: undefined }]);
+    assert.deepEqual(await store.get("custom"), {});
+  });
+});
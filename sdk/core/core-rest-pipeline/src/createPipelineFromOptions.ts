@@ -11,11 +11,15 @@ import { ProxySettings } from ".";
 import { decompressResponsePolicy } from "./policies/decompressResponsePolicy";
 import { defaultRetryPolicy } from "./policies/defaultRetryPolicy";
 import { formDataPolicy } from "./policies/formDataPolicy";
+import { HedgingPolicyOptions, hedgingPolicy } from "./policies/hedgingPolicy";
+import { HttpCachePolicyOptions, httpCachePolicy } from "./policies/httpCachePolicy";
+import { RateLimitPolicyOptions, rateLimitPolicy } from "./policies/rateLimitPolicy";
 import { isNode } from "@azure/core-util";
 import { proxyPolicy } from "./policies/proxyPolicy";
 import { setClientRequestIdPolicy } from "./policies/setClientRequestIdPolicy";
 import { tlsPolicy } from "./policies/tlsPolicy";
 import { tracingPolicy } from "./policies/tracingPolicy";
+import { metricsPolicy } from "./policies/metricsPolicy";
 
 /**
  * Defines options that are used to configure the HTTP pipeline for
@@ -44,6 +48,31 @@ export interface PipelineOptions {
    * Options for adding user agent details to outgoing requests.
    */
   userAgentOptions?: UserAgentPolicyOptions;
+
+  /**
+   * Options for sending duplicates of slow idempotent requests.
+   * Requests are not hedged unless this is provided.
+   */
+  hedgingOptions?: HedgingPolicyOptions;
+
+  /**
+   * Options for caching the responses of GET requests.
+   * Responses are not cached unless this is provided.
+   */
+  httpCacheOptions?: HttpCachePolicyOptions;
+
+  /**
+   * Options for limiting the rate and concurrency of outgoing requests.
+   * Requests are not limited unless this is provided.
+   */
+  rateLimitOptions?: RateLimitPolicyOptions;
+
+  /**
+   * Whether to record metrics about outgoing requests through the `MetricsInstrumenter`
+   * configured in `@azure/core-tracing`.
+   * Metrics are not recorded unless this is `true`.
+   */
+  enableMetrics?: boolean;
 }
 
 /**
@@ -77,12 +106,26 @@ export function createPipelineFromOptions(options: InternalPipelineOptions): Pip
   pipeline.addPolicy(setClientRequestIdPolicy());
   pipeline.addPolicy(defaultRetryPolicy(options.retryOptions), { phase: "Retry" });
   pipeline.addPolicy(tracingPolicy(options.userAgentOptions), { afterPhase: "Retry" });
+  if (options.enableMetrics) {
+    pipeline.addPolicy(metricsPolicy(), { afterPhase: "Retry" });
+  }
   if (isNode) {
     // Both XHR and Fetch expect to handle redirects automatically,
     // so only include this policy when we're in Node.
     pipeline.addPolicy(redirectPolicy(options.redirectOptions), { afterPhase: "Retry" });
   }
+  if (options.httpCacheOptions) {
+    // After the Sign phase, so that responses are cached per credential.
+    pipeline.addPolicy(httpCachePolicy(options.httpCacheOptions), { afterPhase: "Sign" });
+  }
+  if (options.rateLimitOptions) {
+    // Every attempt made by the retry policies counts against the limits, but cached responses don't.
+    pipeline.addPolicy(rateLimitPolicy(options.rateLimitOptions), { afterPhase: "Sign" });
+  }
   pipeline.addPolicy(logPolicy(options.loggingOptions), { afterPhase: "Sign" });
+  if (options.hedgingOptions) {
+    pipeline.addPolicy(hedgingPolicy(options.hedgingOptions), { afterPhase: "Sign" });
+  }
 
   return pipeline;
 }
@@ -0,0 +1,376 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { HttpClient, PipelineRequest, PipelineResponse, RawHttpHeaders } from "./interfaces";
+import { RestError, isRestError } from "./restError";
+import { SDK_VERSION } from "./constants";
+import { RedactionRules, Sanitizer } from "./util/sanitizer";
+import { createHttpHeaders } from "./httpHeaders";
+
+/**
+ * A name/value pair of a HAR header or query string parameter.
+ */
+export interface HarNameValue {
+  /**
+   * The name of the header or parameter.
+   */
+  name: string;
+  /**
+   * The value of the header or parameter.
+   */
+  value: string;
+}
+
+/**
+ * A request recorded in a HAR file.
+ */
+export interface HarRequest {
+  /**
+   * The HTTP method of the request.
+   */
+  method: string;
+  /**
+   * The URL of the request, with its query parameters redacted.
+   */
+  url: string;
+  /**
+   * The HTTP version of the request.
+   */
+  httpVersion: string;
+  /**
+   * The cookies of the request. Always empty.
+   */
+  cookies: HarNameValue[];
+  /**
+   * The headers of the request, with their values redacted.
+   */
+  headers: HarNameValue[];
+  /**
+   * The query string parameters of the request, with their values redacted.
+   */
+  queryString: HarNameValue[];
+  /**
+   * The body of the request, if it was sent as a string, with secrets redacted.
+   */
+  postData?: {
+    mimeType: string;
+    text: string;
+  };
+  /**
+   * The size of the request headers in bytes, or -1 if unknown.
+   */
+  headersSize: number;
+  /**
+   * The size of the request body in bytes, or -1 if unknown.
+   */
+  bodySize: number;
+}
+
+/**
+ * A response recorded in a HAR file.
+ */
+export interface HarResponse {
+  /**
+   * The HTTP status code of the response.
+   */
+  status: number;
+  /**
+   * The HTTP status text of the response.
+   */
+  statusText: string;
+  /**
+   * The HTTP version of the response.
+   */
+  httpVersion: string;
+  /**
+   * The cookies of the response. Always empty.
+   */
+  cookies: HarNameValue[];
+  /**
+   * The headers of the response, with their values redacted.
+   */
+  headers: HarNameValue[];
+  /**
+   * The body of the response, with secrets redacted. Streamed bodies are not recorded.
+   */
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+  };
+  /**
+   * The target of a redirect response.
+   */
+  redirectURL: string;
+  /**
+   * The size of the response headers in bytes, or -1 if unknown.
+   */
+  headersSize: number;
+  /**
+   * The size of the response body in bytes, or -1 if unknown.
+   */
+  bodySize: number;
+  /**
+   * The message of the error, with secrets redacted, if the request failed without a response.
+   * Such responses have a status of 0, as in the HAR files saved by browsers.
+   */
+  _error?: string;
+}
+
+/**
+ * A request/response pair recorded in a HAR file.
+ */
+export interface HarEntry {
+  /**
+   * The time at which the request was sent, in ISO 8601 format.
+   */
+  startedDateTime: string;
+  /**
+   * The time in milliseconds it took to receive the response.
+   */
+  time: number;
+  /**
+   * The recorded request.
+   */
+  request: HarRequest;
+  /**
+   * The recorded response.
+   */
+  response: HarResponse;
+  /**
+   * Information about the cache usage of the request. Always empty.
+   */
+  cache: Record<string, never>;
+  /**
+   * The time in milliseconds spent in each phase of the request.
+   */
+  timings: {
+    send: number;
+    wait: number;
+    receive: number;
+  };
+}
+
+/**
+ * An HTTP Archive, following the HAR 1.2 format.
+ * Serialize it with `JSON.stringify` to save it as a .har file.
+ */
+export interface Har {
+  /**
+   * The root of the archive.
+   */
+  log: {
+    version: string;
+    creator: {
+      name: string;
+      version: string;
+    };
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * Options to configure the redaction of recorded requests and responses.
+ */
+export interface HarRecordingOptions {
+  /**
+   * Header names whose values will be recorded. Defaults include a list of well-known
+   * safe headers. Any headers specified in this field will be added to that list.
+   * Any other values will be recorded as "REDACTED".
+   */
+  additionalAllowedHeaderNames?: string[];
+
+  /**
+   * Query string names whose values will be recorded. By default no
+   * query string values are recorded.
+   */
+  additionalAllowedQueryParameters?: string[];
+
+  /**
+   * Rules that redact secrets in the recorded URLs, bodies and error messages, in addition to
+   * the default rules and the rules set with `setRedactionRules`.
+   */
+  redactionRules?: RedactionRules;
+}
+
+/**
+ * An HttpClient that records the requests it sends and the responses it receives.
+ */
+export interface HarRecordingHttpClient extends HttpClient {
+  /**
+   * Returns the requests and responses recorded so far.
+   */
+  getHar(): Har;
+}
+
+/**
+ * Creates an HttpClient that sends requests through another HttpClient,
+ * and records each request and response in an HTTP Archive (HAR).
+ * Header and query parameter values are redacted the same way as in the logs, and secrets are
+ * redacted from the bodies with the redaction rules.
+ * Requests that fail without a response are recorded as well, with the error message.
+ * @param httpClient - The HttpClient that actually performs the requests.
+ * @param options - Options to configure the redaction of recorded values.
+ */
+export function createHarRecordingHttpClient(
+  httpClient: HttpClient,
+  options: HarRecordingOptions = {}
+): HarRecordingHttpClient {
+  const sanitizer = new Sanitizer(options);
+  const entries: HarEntry[] = [];
+
+  return {
+    async sendRequest(request: PipelineRequest): Promise<PipelineResponse> {
+      const startedDateTime = new Date();
+      const record = (harResponse: HarResponse): void => {
+        const time = Date.now() - startedDateTime.getTime();
+        entries.push({
+          startedDateTime: startedDateTime.toISOString(),
+          time,
+          request: toHarRequest(request, sanitizer),
+          response: harResponse,
+          cache: {},
+          timings: { send: 0, wait: time, receive: 0 },
+        });
+      };
+
+      let response: PipelineResponse;
+      try {
+        response = await httpClient.sendRequest(request);
+      } catch (e: any) {
+        record(
+          isRestError(e) && e.response
+            ? toHarResponse(e.response, sanitizer)
+            : toHarErrorResponse(e, sanitizer)
+        );
+        throw e;
+      }
+      record(toHarResponse(response, sanitizer));
+      return response;
+    },
+    getHar() {
+      return {
+        log: {
+          version: "1.2",
+          creator: { name: "@azure/core-rest-pipeline", version: SDK_VERSION },
+          entries: entries.slice(),
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Creates an HttpClient that answers requests with the responses recorded in an HTTP Archive (HAR),
+ * without sending them. Requests are matched to the recorded entries by method and URL,
+ * with the values of the query parameters redacted during recording ignored.
+ * Identical requests are answered with the matching entries in the order they were recorded.
+ * @param har - The HTTP Archive to replay.
+ * @param options - The options that the archive was recorded with.
+ */
+export function createHarReplayHttpClient(har: Har, options: HarRecordingOptions = {}): HttpClient {
+  const sanitizer = new Sanitizer(options);
+  const remainingEntries = har.log.entries.slice();
+
+  return {
+    async sendRequest(request: PipelineRequest): Promise<PipelineResponse> {
+      const url = sanitizer.sanitizeUrl(request.url);
+      const index = remainingEntries.findIndex(
+        (entry) => entry.request.method === request.method && entry.request.url === url
+      );
+      if (index === -1) {
+        throw new RestError(`No recorded response found for ${request.method} ${url}`, {
+          code: RestError.REQUEST_SEND_ERROR,
+          request,
+        });
+      }
+
+      const [entry] = remainingEntries.splice(index, 1);
+      if (entry.response._error !== undefined) {
+        throw new RestError(entry.response._error, {
+          code: RestError.REQUEST_SEND_ERROR,
+          request,
+        });
+      }
+      const headers: RawHttpHeaders = {};
+      for (const { name, value } of entry.response.headers) {
+        headers[name] = value;
+      }
+      return {
+        request,
+        status: entry.response.status,
+        headers: createHttpHeaders(headers),
+        bodyAsText: entry.response.content.text,
+      };
+    },
+  };
+}
+
+function toHarHeaders(headers: RawHttpHeaders, sanitizer: Sanitizer): HarNameValue[] {
+  const sanitized = sanitizer.sanitizeHeaders(headers);
+  return Object.keys(sanitized).map((name) => ({ name, value: String(sanitized[name]) }));
+}
+
+function toHarRequest(request: PipelineRequest, sanitizer: Sanitizer): HarRequest {
+  const url = sanitizer.sanitizeUrl(request.url);
+  const queryString: HarNameValue[] = [];
+  for (const [name, value] of new URL(url).searchParams) {
+    queryString.push({ name, value });
+  }
+
+  const body = typeof request.body === "string" ? request.body : undefined;
+  return {
+    method: request.method,
+    url,
+    httpVersion: "HTTP/1.1",
+    cookies: [],
+    headers: toHarHeaders(request.headers.toJSON({ preserveCase: true }), sanitizer),
+    queryString,
+    postData:
+      body === undefined
+        ? undefined
+        : {
+            mimeType: request.headers.get("Content-Type") ?? "",
+            text: sanitizer.sanitizeBody(body) as string,
+          },
+    headersSize: -1,
+    bodySize: body === undefined ? (request.body ? -1 : 0) : body.length,
+  };
+}
+
+function toHarResponse(response: PipelineResponse, sanitizer: Sanitizer): HarResponse {
+  const text = response.bodyAsText ?? undefined;
+  const isStreamed = Boolean(
+    response.readableStreamBody || response.browserStreamBody || response.blobBody
+  );
+  return {
+    status: response.status,
+    statusText: "",
+    httpVersion: "HTTP/1.1",
+    cookies: [],
+    headers: toHarHeaders(response.headers.toJSON({ preserveCase: true }), sanitizer),
+    content: {
+      size: text?.length ?? (isStreamed ? -1 : 0),
+      mimeType: response.headers.get("Content-Type") ?? "",
+      text: text === undefined ? undefined : (sanitizer.sanitizeBody(text) as string),
+    },
+    redirectURL: response.headers.get("Location") ?? "",
+    headersSize: -1,
+    bodySize: text?.length ?? (isStreamed ? -1 : 0),
+  };
+}
+
+function toHarErrorResponse(error: unknown, sanitizer: Sanitizer): HarResponse {
+  return {
+    status: 0,
+    statusText: "",
+    httpVersion: "",
+    cookies: [],
+    headers: [],
+    content: { size: 0, mimeType: "" },
+    redirectURL: "",
+    headersSize: -1,
+    bodySize: -1,
+    _error: sanitizer.redactString(error instanceof Error ? error.message : String(error)),
+  };
+}
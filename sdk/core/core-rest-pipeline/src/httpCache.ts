@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { RawHttpHeaders } from "./interfaces";
+
+/**
+ * Defines the default maximum number of responses kept by the in-memory HTTP cache.
+ */
+const DefaultMaxCacheEntries = 100;
+
+/**
+ * A response stored by the {@link httpCachePolicy}.
+ */
+export interface HttpCacheEntry {
+  /**
+   * The HTTP status code of the stored response.
+   */
+  status: number;
+  /**
+   * The HTTP headers of the stored response.
+   */
+  headers: RawHttpHeaders;
+  /**
+   * The response body as text.
+   */
+  bodyAsText?: string | null;
+  /**
+   * The values of the request headers named by the `Vary` response header,
+   * which must match for the entry to be used.
+   */
+  varyHeaders?: RawHttpHeaders;
+  /**
+   * The time (in milliseconds since the epoch) at which the response was stored or last revalidated.
+   */
+  storedOnTimestamp: number;
+  /**
+   * How long (in milliseconds) the response can be served without revalidating it,
+   * as given by `Cache-Control: max-age`. The entry is revalidated on every use if not set.
+   */
+  maxAgeInMs?: number;
+}
+
+/**
+ * A pluggable store for the responses cached by the {@link httpCachePolicy}.
+ */
+export interface HttpCache {
+  /**
+   * Returns the entry stored for the given key, or undefined if nothing is stored.
+   * @param key - The key of the entry, based on the request URL and credential.
+   */
+  get(key: string): Promise<HttpCacheEntry | undefined>;
+  /**
+   * Stores an entry, replacing any entry with the same key.
+   * @param key - The key of the entry, based on the request URL and credential.
+   * @param entry - The entry to store.
+   */
+  set(key: string, entry: HttpCacheEntry): Promise<void>;
+  /**
+   * Removes the entry stored for the given key, if any.
+   * @param key - The key of the entry, based on the request URL and credential.
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options to configure the in-memory HTTP cache.
+ */
+export interface InMemoryHttpCacheOptions {
+  /**
+   * The maximum number of entries kept in memory. The least recently used
+   * entry is evicted when a new one would exceed this number. Defaults to 100.
+   */
+  maxEntries?: number;
+}
+
+/**
+ * A private implementation of HttpCache that keeps the least recently used entries in memory.
+ * Do not export this class from the package.
+ * @internal
+ */
+class InMemoryHttpCache implements HttpCache {
+  private readonly _entries = new Map<string, HttpCacheEntry>();
+  private readonly _maxEntries: number;
+
+  constructor(options: InMemoryHttpCacheOptions) {
+    this._maxEntries = options.maxEntries ?? DefaultMaxCacheEntries;
+  }
+
+  public async get(key: string): Promise<HttpCacheEntry | undefined> {
+    const entry = this._entries.get(key);
+    if (entry) {
+      // Maps iterate in insertion order, so re-inserting marks the entry as the most recently used.
+      this._entries.delete(key);
+      this._entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  public async set(key: string, entry: HttpCacheEntry): Promise<void> {
+    this._entries.delete(key);
+    this._entries.set(key, entry);
+    while (this._entries.size > this._maxEntries) {
+      const leastRecentlyUsed = this._entries.keys().next().value;
+      this._entries.delete(leastRecentlyUsed);
+    }
+  }
+
+  public async delete(key: string): Promise<void> {
+    this._entries.delete(key);
+  }
+}
+
+/**
+ * Creates an HttpCache that keeps the least recently used responses in memory.
+ * @param options - Options to configure the cache.
+ */
+export function createInMemoryHttpCache(options: InMemoryHttpCacheOptions = {}): HttpCache {
+  return new InMemoryHttpCache(options);
+}
@@ -3,6 +3,7 @@
 
 export {
   Agent,
+  CircuitBreakerOptions,
   FormDataMap,
   FormDataValue,
   HttpClient,
@@ -34,9 +35,41 @@ export {
   PipelineOptions,
 } from "./createPipelineFromOptions";
 export { createDefaultHttpClient } from "./defaultHttpClient";
+export {
+  createHarRecordingHttpClient,
+  createHarReplayHttpClient,
+  Har,
+  HarEntry,
+  HarNameValue,
+  HarRecordingHttpClient,
+  HarRecordingOptions,
+  HarRequest,
+  HarResponse,
+} from "./harHttpClient";
 export { createHttpHeaders } from "./httpHeaders";
+export {
+  createInMemoryHttpCache,
+  HttpCache,
+  HttpCacheEntry,
+  InMemoryHttpCacheOptions,
+} from "./httpCache";
+export { createJsonLinesIterator, JsonLinesIteratorOptions } from "./jsonLines";
+export {
+  getMultipartMixedContentType,
+  MultipartMixedBody,
+  MultipartMixedChangesetPart,
+  MultipartMixedChangesetResponsePart,
+  MultipartMixedHttpResponsePart,
+  MultipartMixedPart,
+  MultipartMixedRequestPart,
+  MultipartMixedResponsePart,
+  parseMultipartMixedResponse,
+  serializeMultipartMixedBody,
+  SerializeMultipartMixedOptions,
+} from "./multipartMixed";
 export { createPipelineRequest, PipelineRequestOptions } from "./pipelineRequest";
 export { RestError, RestErrorOptions, isRestError } from "./restError";
+export { RedactionRules, setRedactionRules } from "./util/sanitizer";
 export {
   decompressResponsePolicy,
   decompressResponsePolicyName,
@@ -69,7 +102,13 @@ export {
 } from "./policies/throttlingRetryPolicy";
 export { retryPolicy, RetryPolicyOptions } from "./policies/retryPolicy";
 export { RetryStrategy, RetryInformation, RetryModifiers } from "./retryStrategies/retryStrategy";
+export {
+  circuitBreakerRetryStrategy,
+  CircuitBreakerRetryStrategy,
+  CircuitBreakerState,
+} from "./retryStrategies/circuitBreakerRetryStrategy";
 export { tracingPolicy, tracingPolicyName, TracingPolicyOptions } from "./policies/tracingPolicy";
+export { metricsPolicy, metricsPolicyName } from "./policies/metricsPolicy";
 export { defaultRetryPolicy, DefaultRetryPolicyOptions } from "./policies/defaultRetryPolicy";
 export {
   userAgentPolicy,
@@ -87,3 +126,25 @@ export {
   AuthorizeRequestOnChallengeOptions,
 } from "./policies/bearerTokenAuthenticationPolicy";
 export { ndJsonPolicy, ndJsonPolicyName } from "./policies/ndJsonPolicy";
+export {
+  hmacSigningPolicy,
+  hmacSigningPolicyName,
+  HmacSigningPolicyOptions,
+  HmacStringToSignPart,
+} from "./policies/hmacSigningPolicy";
+export {
+  getHedgedAttemptNumber,
+  hedgingPolicy,
+  hedgingPolicyName,
+  HedgingPolicyOptions,
+} from "./policies/hedgingPolicy";
+export {
+  httpCachePolicy,
+  httpCachePolicyName,
+  HttpCachePolicyOptions,
+} from "./policies/httpCachePolicy";
+export {
+  rateLimitPolicy,
+  rateLimitPolicyName,
+  RateLimitPolicyOptions,
+} from "./policies/rateLimitPolicy";
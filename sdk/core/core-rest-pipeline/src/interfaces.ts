@@ -340,6 +340,30 @@ export interface PipelineRetryOptions {
    * to 64000 (64 seconds).
    */
   maxRetryDelayInMs?: number;
+
+  /**
+   * Options to enable a per-host circuit breaker. When set, requests to a host that keeps failing
+   * are rejected immediately with a {@link RestError} whose code is `CIRCUIT_BREAKER_OPEN`
+   * until the cooldown elapses. Disabled by default.
+   */
+  circuitBreakerOptions?: CircuitBreakerOptions;
+}
+
+/**
+ * Options that control when a circuit breaker opens and how long it stays open.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * The number of consecutive failed attempts against a host after which
+   * its circuit opens. Defaults to 5.
+   */
+  failureThreshold?: number;
+
+  /**
+   * The amount of time in milliseconds a circuit stays open before a single trial
+   * request is let through (half-open). Defaults to 30000 (30 seconds).
+   */
+  cooldownInMs?: number;
 }
 
 /**
@@ -0,0 +1,173 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AbortError, AbortSignalLike } from "@azure/abort-controller";
+import { PipelineResponse } from "./interfaces";
+import { RestError } from "./restError";
+
+/**
+ * The record separator that starts each JSON text in a JSON text sequence (RFC 7464).
+ */
+const RECORD_SEPARATOR = "\x1e";
+
+/**
+ * Options to configure the iteration of a response body of line-delimited JSON values.
+ */
+export interface JsonLinesIteratorOptions {
+  /**
+   * The format of the response body:
+   * - "ndjson": JSON values separated by newlines, also known as JSON Lines.
+   * - "json-seq": JSON values each preceded by a record separator character, as described in RFC 7464.
+   *
+   * Defaults to "ndjson".
+   */
+  format?: "ndjson" | "json-seq";
+
+  /**
+   * Used to abort the iteration. The response body stream is cancelled when aborted.
+   */
+  abortSignal?: AbortSignalLike;
+}
+
+/**
+ * Creates an iterator over the JSON values in the body of a response in the
+ * NDJSON (JSON Lines) or JSON text sequence format, parsing them as they are received.
+ *
+ * The body is read from `readableStreamBody` in Node.js or `browserStreamBody` in browsers,
+ * which requires the status code of the response to be in the `streamResponseStatusCodes`
+ * of the request. Only as much of the body as needed for the values requested so far is read,
+ * and the stream is cancelled if the iteration is stopped early.
+ * If the body was already read as text, the values are parsed from `bodyAsText` instead.
+ *
+ * @param response - The response whose body to iterate.
+ * @param options - Options to configure the iteration.
+ */
+export function createJsonLinesIterator<T = unknown>(
+  response: PipelineResponse,
+  options: JsonLinesIteratorOptions = {}
+): AsyncIterableIterator<T> {
+  const { format = "ndjson", abortSignal } = options;
+  const separator = format === "json-seq" ? RECORD_SEPARATOR : "\n";
+
+  function parse(text: string): T | undefined {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(trimmed);
+    } catch (e: any) {
+      throw new RestError(`Error parsing a value of the ${format} response: ${e.message}`, {
+        code: RestError.PARSE_ERROR,
+        statusCode: response.status,
+        request: response.request,
+        response,
+      });
+    }
+  }
+
+  async function* iterate(): AsyncIterableIterator<T> {
+    let buffer = "";
+    for await (const text of readText(response, abortSignal)) {
+      buffer += text;
+      const records = buffer.split(separator);
+      // The last record may not have been fully received yet.
+      buffer = records.pop() ?? "";
+      for (const record of records) {
+        const value = parse(record);
+        if (value !== undefined) {
+          yield value;
+        }
+      }
+    }
+    const value = parse(buffer);
+    if (value !== undefined) {
+      yield value;
+    }
+  }
+
+  return iterate();
+}
+
+/**
+ * Races a promise against the abort signal.
+ */
+function abortable<T>(promise: Promise<T>, abortSignal?: AbortSignalLike): Promise<T> {
+  if (!abortSignal) {
+    return promise;
+  }
+  if (abortSignal.aborted) {
+    return Promise.reject(new AbortError("The operation was aborted."));
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAborted = (): void => {
+      reject(new AbortError("The operation was aborted."));
+    };
+    abortSignal.addEventListener("abort", onAborted);
+    promise.then(
+      (value) => {
+        abortSignal.removeEventListener("abort", onAborted);
+        resolve(value);
+      },
+      (err) => {
+        abortSignal.removeEventListener("abort", onAborted);
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Reads the body of a response as text, one chunk at a time.
+ */
+async function* readText(
+  response: PipelineResponse,
+  abortSignal?: AbortSignalLike
+): AsyncIterableIterator<string> {
+  const decoder = new TextDecoder();
+  const decode = (chunk: string | Uint8Array): string =>
+    typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+  if (response.readableStreamBody) {
+    const stream = response.readableStreamBody;
+    const iterator = stream[Symbol.asyncIterator]();
+    try {
+      while (true) {
+        const { done, value } = await abortable(iterator.next(), abortSignal);
+        if (done) {
+          break;
+        }
+        yield decode(value);
+      }
+    } finally {
+      (stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+    }
+  } else if (response.browserStreamBody) {
+    const reader = response.browserStreamBody.getReader();
+    let done = false;
+    try {
+      while (!done) {
+        const result = await abortable(reader.read(), abortSignal);
+        done = result.done;
+        if (result.value) {
+          yield decode(result.value);
+        }
+      }
+    } finally {
+      if (done) {
+        reader.releaseLock();
+      } else {
+        reader.cancel().catch(() => {
+          // The rest of the body is not needed anymore.
+        });
+      }
+    }
+  } else {
+    if (abortSignal?.aborted) {
+      throw new AbortError("The operation was aborted.");
+    }
+    yield response.bodyAsText ?? "";
+    return;
+  }
+  yield decoder.decode();
+}
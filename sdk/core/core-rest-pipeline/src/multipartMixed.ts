@@ -0,0 +1,329 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { HttpHeaders, PipelineRequest, PipelineResponse, RawHttpHeaders } from "./interfaces";
+import { RestError } from "./restError";
+import { createHttpHeaders } from "./httpHeaders";
+
+const LINE_ENDING = "\r\n";
+
+/**
+ * A part of a multipart/mixed body that contains a single HTTP request.
+ */
+export interface MultipartMixedRequestPart {
+  /**
+   * Additional MIME headers of the part, such as Content-ID.
+   * The Content-Type and Content-Transfer-Encoding headers are always set.
+   */
+  headers?: RawHttpHeaders;
+  /**
+   * The nested request. Its body must be a string, if any.
+   */
+  request: PipelineRequest;
+}
+
+/**
+ * A part of a multipart/mixed body that contains a nested multipart/mixed body,
+ * such as an OData changeset.
+ */
+export interface MultipartMixedChangesetPart {
+  /**
+   * Additional MIME headers of the part.
+   * The Content-Type header is always set.
+   */
+  headers?: RawHttpHeaders;
+  /**
+   * The nested body.
+   */
+  changeset: MultipartMixedBody;
+}
+
+/**
+ * A part of a multipart/mixed body.
+ */
+export type MultipartMixedPart = MultipartMixedRequestPart | MultipartMixedChangesetPart;
+
+/**
+ * A multipart/mixed body, as used by batch APIs to send several HTTP requests at once.
+ */
+export interface MultipartMixedBody {
+  /**
+   * The boundary that separates the parts of the body.
+   */
+  boundary: string;
+  /**
+   * The parts of the body.
+   */
+  parts: MultipartMixedPart[];
+}
+
+/**
+ * Options to configure the serialization of a multipart/mixed body.
+ */
+export interface SerializeMultipartMixedOptions {
+  /**
+   * If true, the request line of the nested requests contains only the path and query
+   * of their URL instead of the full URL. Defaults to false.
+   */
+  useRelativeUrls?: boolean;
+}
+
+/**
+ * A part of a multipart/mixed response that contains a single HTTP response.
+ */
+export interface MultipartMixedHttpResponsePart {
+  /**
+   * The MIME headers of the part, such as Content-ID.
+   */
+  headers: HttpHeaders;
+  /**
+   * The nested response.
+   */
+  response: PipelineResponse;
+}
+
+/**
+ * A part of a multipart/mixed response that contains a nested multipart/mixed body,
+ * such as the response to an OData changeset.
+ */
+export interface MultipartMixedChangesetResponsePart {
+  /**
+   * The MIME headers of the part.
+   */
+  headers: HttpHeaders;
+  /**
+   * The parts of the nested body.
+   */
+  changeset: MultipartMixedResponsePart[];
+}
+
+/**
+ * A part of a multipart/mixed response.
+ */
+export type MultipartMixedResponsePart =
+  | MultipartMixedHttpResponsePart
+  | MultipartMixedChangesetResponsePart;
+
+/**
+ * Gets the value of the Content-Type header of a request whose body is the given multipart/mixed body.
+ * @param body - The multipart/mixed body.
+ */
+export function getMultipartMixedContentType(body: MultipartMixedBody): string {
+  return `multipart/mixed; boundary=${body.boundary}`;
+}
+
+/**
+ * Serializes a multipart/mixed body, including its nested changesets, into the text of a request body.
+ * The Content-Type of the request must be set with {@link getMultipartMixedContentType}.
+ * @param body - The multipart/mixed body to serialize.
+ * @param options - Options to configure the serialization.
+ */
+export function serializeMultipartMixedBody(
+  body: MultipartMixedBody,
+  options: SerializeMultipartMixedOptions = {}
+): string {
+  const lines: string[] = [];
+  for (const part of body.parts) {
+    lines.push(`--${body.boundary}`);
+    if (isChangesetPart(part)) {
+      lines.push(
+        ...serializeHeaders({
+          ...part.headers,
+          "Content-Type": getMultipartMixedContentType(part.changeset),
+        }),
+        "",
+        serializeMultipartMixedBody(part.changeset, options)
+      );
+    } else {
+      lines.push(
+        ...serializeHeaders({
+          "Content-Type": "application/http",
+          "Content-Transfer-Encoding": "binary",
+          ...part.headers,
+        }),
+        "",
+        serializeRequest(part.request, options)
+      );
+    }
+  }
+  lines.push(`--${body.boundary}--`, "");
+  return lines.join(LINE_ENDING);
+}
+
+/**
+ * Parses the body of a multipart/mixed response, including its nested changesets.
+ * Each nested response is associated with the nested request with the same Content-ID
+ * in the same changeset if any, or else with the nested request at the same position.
+ * When no nested request is found, the request of the batch is used.
+ * @param response - The response to the batch request. Its body must have been read as text.
+ * @param body - The multipart/mixed body that was sent, to associate nested requests with the nested responses.
+ */
+export function parseMultipartMixedResponse(
+  response: PipelineResponse,
+  body?: MultipartMixedBody
+): MultipartMixedResponsePart[] {
+  const contentType = response.headers.get("Content-Type");
+  const boundary = contentType && getBoundary(contentType);
+  if (!boundary) {
+    throw new RestError(`Expected a multipart/mixed response but got "${contentType}".`, {
+      code: RestError.PARSE_ERROR,
+      statusCode: response.status,
+      request: response.request,
+      response,
+    });
+  }
+  if (typeof response.bodyAsText !== "string") {
+    throw new RestError("The body of the multipart/mixed response was not read as text.", {
+      code: RestError.PARSE_ERROR,
+      statusCode: response.status,
+      request: response.request,
+      response,
+    });
+  }
+
+  try {
+    return parseParts(response.bodyAsText, boundary, response.request, body);
+  } catch (e: any) {
+    throw new RestError(`Error parsing the multipart/mixed response: ${e.message}`, {
+      code: RestError.PARSE_ERROR,
+      statusCode: response.status,
+      request: response.request,
+      response,
+    });
+  }
+}
+
+function isChangesetPart(part: MultipartMixedPart): part is MultipartMixedChangesetPart {
+  return "changeset" in part;
+}
+
+function serializeHeaders(headers: RawHttpHeaders): string[] {
+  return Object.keys(headers).map((name) => `${name}: ${headers[name]}`);
+}
+
+function serializeRequest(
+  request: PipelineRequest,
+  options: SerializeMultipartMixedOptions
+): string {
+  if (request.body !== undefined && request.body !== null && typeof request.body !== "string") {
+    throw new Error("Only requests with a string body can be part of a multipart/mixed body.");
+  }
+  const url = new URL(request.url);
+  const target = options.useRelativeUrls ? `${url.pathname}${url.search}` : request.url;
+  const lines = [
+    `${request.method} ${target} HTTP/1.1`,
+    ...serializeHeaders(request.headers.toJSON({ preserveCase: true })),
+    "",
+  ];
+  if (request.body) {
+    lines.push(request.body);
+  }
+  return lines.join(LINE_ENDING);
+}
+
+function getBoundary(contentType: string): string | undefined {
+  if (!/^\s*multipart\/mixed\s*(;|$)/i.test(contentType)) {
+    return undefined;
+  }
+  const match = /;\s*boundary=(?:"([^"]+)"|([^";\s]+))/i.exec(contentType);
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+/**
+ * Splits a MIME entity or an HTTP message into its headers and its content,
+ * accepting both CRLF and LF line endings.
+ */
+function splitHeaders(text: string): { headerLines: string[]; content: string } {
+  const match = /\r?\n\r?\n/.exec(text);
+  const headerText = match ? text.slice(0, match.index) : text;
+  const content = match ? text.slice(match.index + match[0].length) : "";
+  return { headerLines: headerText.split(/\r?\n/).filter((line) => line !== ""), content };
+}
+
+function parseHeaderLines(headerLines: string[]): HttpHeaders {
+  const headers = createHttpHeaders();
+  for (const line of headerLines) {
+    const index = line.indexOf(":");
+    if (index === -1) {
+      throw new Error(`Invalid header line "${line}".`);
+    }
+    headers.set(line.slice(0, index).trim(), line.slice(index + 1).trim());
+  }
+  return headers;
+}
+
+function getContentId(headers: RawHttpHeaders = {}): string | undefined {
+  const name = Object.keys(headers).find((key) => key.toLowerCase() === "content-id");
+  return name === undefined ? undefined : String(headers[name]);
+}
+
+function findRequestPart(
+  body: MultipartMixedBody | undefined,
+  headers: HttpHeaders,
+  index: number
+): MultipartMixedPart | undefined {
+  if (!body) {
+    return undefined;
+  }
+  const contentId = headers.get("Content-ID");
+  const partWithContentId =
+    contentId === undefined
+      ? undefined
+      : body.parts.find((part) => getContentId(part.headers) === contentId);
+  return partWithContentId ?? body.parts[index];
+}
+
+function parseParts(
+  text: string,
+  boundary: string,
+  batchRequest: PipelineRequest,
+  body?: MultipartMixedBody
+): MultipartMixedResponsePart[] {
+  const delimiter = `--${boundary}`;
+  const endIndex = text.indexOf(`${delimiter}--`);
+  const segments = (endIndex === -1 ? text : text.slice(0, endIndex))
+    .split(delimiter)
+    // The text before the first delimiter is a preamble to ignore.
+    .slice(1);
+
+  return segments.map((segment, index) => {
+    const { headerLines, content } = splitHeaders(segment.replace(/^[ \t]*\r?\n/, ""));
+    const headers = parseHeaderLines(headerLines);
+    const requestPart = findRequestPart(body, headers, index);
+    const contentType = headers.get("Content-Type") ?? "";
+    const nestedBoundary = getBoundary(contentType);
+
+    if (nestedBoundary) {
+      return {
+        headers,
+        changeset: parseParts(
+          content,
+          nestedBoundary,
+          batchRequest,
+          requestPart && isChangesetPart(requestPart) ? requestPart.changeset : undefined
+        ),
+      };
+    }
+    if (!/^\s*application\/http\s*(;|$)/i.test(contentType)) {
+      throw new Error(`Unexpected Content-Type "${contentType}" of part ${index}.`);
+    }
+    const request =
+      requestPart && !isChangesetPart(requestPart) ? requestPart.request : batchRequest;
+    return { headers, response: parseResponse(content.replace(/\r?\n$/, ""), request) };
+  });
+}
+
+function parseResponse(text: string, request: PipelineRequest): PipelineResponse {
+  const { headerLines, content } = splitHeaders(text);
+  const statusLine = headerLines.shift() ?? "";
+  const match = /^HTTP\/\d(?:\.\d)?\s+(\d{3})\b/.exec(statusLine);
+  if (!match) {
+    throw new Error(`Invalid status line "${statusLine}".`);
+  }
+  return {
+    request,
+    status: Number(match[1]),
+    headers: parseHeaderLines(headerLines),
+    bodyAsText: content === "" ? undefined : content,
+  };
+}
@@ -5,6 +5,7 @@ import { PipelineRetryOptions } from "../interfaces";
 import { PipelinePolicy } from "../pipeline";
 import { exponentialRetryStrategy } from "../retryStrategies/exponentialRetryStrategy";
 import { throttlingRetryStrategy } from "../retryStrategies/throttlingRetryStrategy";
+import { circuitBreakerRetryStrategy } from "../retryStrategies/circuitBreakerRetryStrategy";
 import { retryPolicy } from "./retryPolicy";
 import { DEFAULT_RETRY_POLICY_COUNT } from "../constants";
 
@@ -23,12 +24,34 @@ export interface DefaultRetryPolicyOptions extends PipelineRetryOptions {}
  * - When the server sends a 429 response with a Retry-After header.
  * - When there are errors in the underlying transport layer (e.g. DNS lookup failures).
  * - Or otherwise if the outgoing request fails, it will retry with an exponentially increasing delay.
+ *
+ * If `circuitBreakerOptions` are provided, requests to a host that keeps failing
+ * are rejected without being sent until its circuit closes again.
  */
 export function defaultRetryPolicy(options: DefaultRetryPolicyOptions = {}): PipelinePolicy {
+  const retryOptions = {
+    maxRetries: options.maxRetries ?? DEFAULT_RETRY_POLICY_COUNT,
+  };
+
+  if (!options.circuitBreakerOptions) {
+    return {
+      name: defaultRetryPolicyName,
+      sendRequest: retryPolicy(
+        [throttlingRetryStrategy(), exponentialRetryStrategy(options)],
+        retryOptions
+      ).sendRequest,
+    };
+  }
+
+  const circuitBreaker = circuitBreakerRetryStrategy(options.circuitBreakerOptions);
+  const policy = retryPolicy(
+    [circuitBreaker, throttlingRetryStrategy(), exponentialRetryStrategy(options)],
+    retryOptions
+  );
   return {
     name: defaultRetryPolicyName,
-    sendRequest: retryPolicy([throttlingRetryStrategy(), exponentialRetryStrategy(options)], {
-      maxRetries: options.maxRetries ?? DEFAULT_RETRY_POLICY_COUNT,
-    }).sendRequest,
+    sendRequest(request, next) {
+      return policy.sendRequest(request, (req) => circuitBreaker.sendRequest(req, next));
+    },
   };
 }
@@ -0,0 +1,192 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AbortController } from "@azure/abort-controller";
+import { HttpMethods, PipelineRequest, PipelineResponse, SendRequest } from "../interfaces";
+import { PipelinePolicy } from "../pipeline";
+import { logger } from "../log";
+
+/**
+ * The programmatic identifier of the hedgingPolicy.
+ */
+export const hedgingPolicyName = "hedgingPolicy";
+
+/**
+ * The number of most recent latencies used to compute the hedging delay.
+ */
+const LATENCY_WINDOW_SIZE = 100;
+
+/**
+ * The number of latencies needed before the percentile is used instead of the default delay.
+ */
+const MIN_LATENCY_SAMPLES = 10;
+
+/**
+ * Options to configure the hedging policy.
+ */
+export interface HedgingPolicyOptions {
+  /**
+   * The percentile of the recently observed latencies after which a duplicate
+   * of a pending request is sent. Defaults to 95.
+   */
+  latencyPercentile?: number;
+
+  /**
+   * The delay in milliseconds before sending a duplicate request, used until enough
+   * latencies have been observed to compute the percentile. Defaults to 1000 (1 second).
+   */
+  defaultHedgingDelayInMs?: number;
+
+  /**
+   * The maximum number of concurrent attempts of a single request, including the original one.
+   * Defaults to 2.
+   */
+  maxAttempts?: number;
+
+  /**
+   * The idempotent HTTP methods whose requests can be hedged. Defaults to GET and HEAD.
+   */
+  methods?: HttpMethods[];
+}
+
+const hedgedAttempts = new WeakMap<PipelineResponse, number>();
+
+/**
+ * Returns the zero-based number of the attempt that produced a response sent through the {@link hedgingPolicy},
+ * where 0 is the original request and greater numbers are its duplicates.
+ * Returns undefined if the request wasn't hedged.
+ * @param response - The response returned by the pipeline.
+ */
+export function getHedgedAttemptNumber(response: PipelineResponse): number | undefined {
+  return hedgedAttempts.get(response);
+}
+
+/**
+ * A policy that reduces tail latency of idempotent requests by sending duplicates of a request
+ * that takes longer than a percentile of the recently observed latencies.
+ * The first response received wins, and the remaining attempts are aborted.
+ * @param options - Options to configure the hedging policy.
+ */
+export function hedgingPolicy(options: HedgingPolicyOptions = {}): PipelinePolicy {
+  const {
+    latencyPercentile = 95,
+    defaultHedgingDelayInMs = 1000,
+    maxAttempts = 2,
+    methods = ["GET", "HEAD"],
+  } = options;
+  const latencies: number[] = [];
+
+  function recordLatency(latencyInMs: number): void {
+    latencies.push(latencyInMs);
+    if (latencies.length > LATENCY_WINDOW_SIZE) {
+      latencies.shift();
+    }
+  }
+
+  function getHedgingDelay(): number {
+    if (latencies.length < MIN_LATENCY_SAMPLES) {
+      return defaultHedgingDelayInMs;
+    }
+    const sorted = latencies.slice().sort((a, b) => a - b);
+    const index = Math.ceil((latencyPercentile / 100) * sorted.length) - 1;
+    return sorted[Math.min(Math.max(index, 0), sorted.length - 1)];
+  }
+
+  return {
+    name: hedgingPolicyName,
+    sendRequest(request: PipelineRequest, next: SendRequest): Promise<PipelineResponse> {
+      if (maxAttempts < 2 || !methods.includes(request.method)) {
+        return next(request);
+      }
+
+      return new Promise<PipelineResponse>((resolve, reject) => {
+        const hedgingDelay = getHedgingDelay();
+        const controllers: AbortController[] = [];
+        const startTimes: number[] = [];
+        const finished: boolean[] = [];
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let pendingAttempts = 0;
+        let settled = false;
+        let firstError: unknown;
+
+        const settle = (): void => {
+          settled = true;
+          if (timer) {
+            clearTimeout(timer);
+          }
+          request.abortSignal?.removeEventListener("abort", onAborted);
+        };
+
+        const onAborted = (): void => {
+          if (timer) {
+            clearTimeout(timer);
+            timer = undefined;
+          }
+          controllers.forEach((controller) => controller.abort(request.abortSignal?.reason));
+        };
+
+        const sendAttempt = (attempt: number): void => {
+          // The attempts are aborted by onAborted rather than linked to the request's signal,
+          // so that no listener is left on a long-lived signal once the request settles.
+          const controller = new AbortController();
+          if (request.abortSignal?.aborted) {
+            controller.abort(request.abortSignal.reason);
+          }
+          controllers.push(controller);
+          startTimes.push(Date.now());
+          finished.push(false);
+          pendingAttempts += 1;
+
+          if (attempt < maxAttempts - 1) {
+            timer = setTimeout(() => {
+              timer = undefined;
+              logger.info(
+                `hedgingPolicy: sending attempt ${attempt + 1} after ${hedgingDelay}ms`,
+                request.requestId
+              );
+              sendAttempt(attempt + 1);
+            }, hedgingDelay);
+          }
+
+          next({ ...request, abortSignal: controller.signal }).then(
+            (response) => {
+              pendingAttempts -= 1;
+              if (settled) {
+                return;
+              }
+              settle();
+              finished[attempt] = true;
+              recordLatency(Date.now() - startTimes[attempt]);
+              controllers.forEach((losingController, index) => {
+                if (!finished[index]) {
+                  // The losing attempt took at least this long, which keeps slow
+                  // responses in the window instead of only the winning ones.
+                  recordLatency(Date.now() - startTimes[index]);
+                  losingController.abort();
+                }
+              });
+              hedgedAttempts.set(response, attempt);
+              resolve(response);
+            },
+            (e: unknown) => {
+              pendingAttempts -= 1;
+              finished[attempt] = true;
+              if (settled) {
+                return;
+              }
+              firstError = firstError ?? e;
+              // Wait for the attempts still in flight before failing.
+              if (pendingAttempts === 0) {
+                settle();
+                reject(firstError);
+              }
+            }
+          );
+        };
+
+        request.abortSignal?.addEventListener("abort", onAborted);
+        sendAttempt(0);
+      });
+    },
+  };
+}
@@ -0,0 +1,212 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { computeSha256Hash, computeSha256Hmac } from "@azure/core-util";
+import { KeyCredential } from "@azure/core-auth";
+import { PipelineRequest, PipelineResponse, SendRequest } from "../interfaces";
+import { PipelinePolicy } from "../pipeline";
+
+/**
+ * The programmatic identifier of the hmacSigningPolicy.
+ */
+export const hmacSigningPolicyName = "hmacSigningPolicy";
+
+/**
+ * A line of the string to sign of a request. It is one of:
+ * - `"method"`: the HTTP method of the request.
+ * - `"pathAndQuery"`: the path of the URL, followed by its query string if any.
+ * - `{ headers, separator }`: the values of the given headers, joined by the separator, which defaults to a new line.
+ *   Missing headers are signed as empty values, except `host`, which defaults to the host of the URL.
+ * - `{ headerPrefix }`: the headers whose names start with the prefix, with lowercase names,
+ *   sorted by name, as `name:value` lines.
+ * - `{ resourcePrefix, queryParameters }`: the prefix followed by the path of the URL, then the given query
+ *   parameters (or all of them), with lowercase names, sorted by name, as `\nname:value`.
+ * - a function that returns the line for the given request.
+ */
+export type HmacStringToSignPart =
+  | "method"
+  | "pathAndQuery"
+  | { headers: string[]; separator?: string }
+  | { headerPrefix: string }
+  | { resourcePrefix: string; queryParameters?: string[] | "all" }
+  | ((request: PipelineRequest) => string);
+
+/**
+ * Options to configure the hmacSigningPolicy.
+ */
+export interface HmacSigningPolicyOptions {
+  /**
+   * The credential whose base64-encoded key signs the requests.
+   * The key is read for each request, so that it can be rotated.
+   */
+  credential: KeyCredential;
+
+  /**
+   * The lines of the string to sign, which are joined by new lines.
+   */
+  stringToSign: HmacStringToSignPart[];
+
+  /**
+   * Returns the value of the Authorization header for the base64-encoded signature of a request.
+   */
+  formatAuthorization: (signature: string) => string;
+
+  /**
+   * The header set to the current date, in the format of `Date.prototype.toUTCString`,
+   * before each request is signed. Defaults to `x-ms-date`.
+   */
+  dateHeaderName?: string;
+
+  /**
+   * Whether a date header already set on a request is signed as is rather than replaced by the current date.
+   * Defaults to false.
+   */
+  keepExistingDate?: boolean;
+
+  /**
+   * When set, the header set to the base64-encoded SHA-256 hash of the UTF-8 encoded request body
+   * before each request is signed. Only requests without a body or with a string body can be
+   * hashed, so sending other bodies fails.
+   */
+  contentHashHeaderName?: string;
+}
+
+function getContentToHash(request: PipelineRequest): string {
+  const { body } = request;
+  if (body === undefined || body === null) {
+    return "";
+  } else if (typeof body === "string") {
+    return body;
+  }
+  throw new Error(
+    "The hmacSigningPolicy can only compute the content hash of string bodies. Serialize the body of the request to a string."
+  );
+}
+
+function getPathAndQuery(url: URL): string {
+  return url.search ? `${url.pathname}${url.search}` : url.pathname;
+}
+
+function getHeaderValues(request: PipelineRequest, url: URL, headers: string[]): string[] {
+  return headers.map((name) => {
+    const value = request.headers.get(name);
+    if (value === undefined && name.toLowerCase() === "host") {
+      return url.host;
+    }
+    return value ?? "";
+  });
+}
+
+function getCanonicalizedHeaders(request: PipelineRequest, headerPrefix: string): string {
+  const prefix = headerPrefix.toLowerCase();
+  const headers = new Map<string, string>();
+  for (const [name, value] of request.headers) {
+    const lowercaseName = name.toLowerCase();
+    if (lowercaseName.startsWith(prefix)) {
+      headers.set(lowercaseName, value.trim());
+    }
+  }
+  return Array.from(headers.keys())
+    .sort()
+    .map((name) => `${name}:${headers.get(name)}`)
+    .join("\n");
+}
+
+function getCanonicalizedResource(
+  url: URL,
+  resourcePrefix: string,
+  queryParameters: string[] | "all" = []
+): string {
+  const selected =
+    queryParameters === "all" ? undefined : new Set(queryParameters.map((p) => p.toLowerCase()));
+  const queries = new Map<string, string[]>();
+  for (const [name, value] of url.searchParams) {
+    const lowercaseName = name.toLowerCase();
+    if (!selected || selected.has(lowercaseName)) {
+      queries.set(lowercaseName, [...(queries.get(lowercaseName) ?? []), value]);
+    }
+  }
+  const lines = Array.from(queries.keys())
+    .sort()
+    .map((name) => `\n${name}:${queries.get(name)!.join(",")}`);
+  return `${resourcePrefix}${url.pathname || "/"}${lines.join("")}`;
+}
+
+function getStringToSignPart(
+  request: PipelineRequest,
+  url: URL,
+  part: HmacStringToSignPart
+): string {
+  if (typeof part === "function") {
+    return part(request);
+  } else if (part === "method") {
+    return request.method;
+  } else if (part === "pathAndQuery") {
+    return getPathAndQuery(url);
+  } else if ("headers" in part) {
+    return getHeaderValues(request, url, part.headers).join(part.separator ?? "\n");
+  } else if ("headerPrefix" in part) {
+    return getCanonicalizedHeaders(request, part.headerPrefix);
+  } else {
+    return getCanonicalizedResource(url, part.resourcePrefix, part.queryParameters);
+  }
+}
+
+/**
+ * A policy that signs requests with an HMAC-SHA256 of a canonical form of the request, as
+ * services authenticated with shared keys expect. The date header, and the content hash header
+ * if configured, are set before the string to sign is built, so they can be signed as well.
+ *
+ * @example
+ * Sign the method, path, date, host and content hash of the requests
+ * ```ts
+ * pipeline.addPolicy(
+ *   hmacSigningPolicy({
+ *     credential: new AzureKeyCredential(secret),
+ *     contentHashHeaderName: "x-ms-content-sha256",
+ *     stringToSign: [
+ *       "method",
+ *       "pathAndQuery",
+ *       { headers: ["x-ms-date", "host", "x-ms-content-sha256"], separator: ";" },
+ *     ],
+ *     formatAuthorization: (signature) =>
+ *       `HMAC-SHA256 SignedHeaders=x-ms-date;host;x-ms-content-sha256&Signature=${signature}`,
+ *   })
+ * );
+ * ```
+ *
+ * @param options - Options to configure the canonicalization and the signature of the requests.
+ */
+export function hmacSigningPolicy(options: HmacSigningPolicyOptions): PipelinePolicy {
+  const {
+    credential,
+    stringToSign,
+    formatAuthorization,
+    dateHeaderName = "x-ms-date",
+    keepExistingDate = false,
+    contentHashHeaderName,
+  } = options;
+
+  return {
+    name: hmacSigningPolicyName,
+    async sendRequest(request: PipelineRequest, next: SendRequest): Promise<PipelineResponse> {
+      if (!keepExistingDate || !request.headers.has(dateHeaderName)) {
+        request.headers.set(dateHeaderName, new Date().toUTCString());
+      }
+      if (contentHashHeaderName) {
+        const contentHash = await computeSha256Hash(getContentToHash(request), "base64");
+        request.headers.set(contentHashHeaderName, contentHash);
+      }
+
+      const url = new URL(request.url);
+      const signature = await computeSha256Hmac(
+        credential.key,
+        stringToSign.map((part) => getStringToSignPart(request, url, part)).join("\n"),
+        "base64"
+      );
+      request.headers.set("Authorization", formatAuthorization(signature));
+
+      return next(request);
+    },
+  };
+}
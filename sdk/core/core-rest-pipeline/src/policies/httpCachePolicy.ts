@@ -0,0 +1,227 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { computeSha256Hash } from "@azure/core-util";
+import { PipelineRequest, PipelineResponse, RawHttpHeaders, SendRequest } from "../interfaces";
+import { PipelinePolicy } from "../pipeline";
+import { HttpCache, HttpCacheEntry, createInMemoryHttpCache } from "../httpCache";
+import { createHttpHeaders } from "../httpHeaders";
+import { logger } from "../log";
+
+/**
+ * The programmatic identifier of the httpCachePolicy.
+ */
+export const httpCachePolicyName = "httpCachePolicy";
+
+/**
+ * Options to configure the httpCachePolicy.
+ */
+export interface HttpCachePolicyOptions {
+  /**
+   * The store for cached responses.
+   * Defaults to an in-memory cache of the 100 least recently used responses.
+   */
+  cache?: HttpCache;
+  /**
+   * Identifies the credential of the pipeline, e.g. the client id of an application, to keep the
+   * responses to its authorized requests apart from those of other credentials in a shared cache.
+   * Defaults to a hash of the `Authorization` header of each request, which changes whenever
+   * a token is refreshed.
+   */
+  credentialId?: string;
+}
+
+/**
+ * A policy that caches the responses of GET requests, honoring the `Cache-Control` response header:
+ * - Responses are served from the cache without a request while younger than their `max-age`.
+ * - Otherwise, cached responses with an `ETag` or `Last-Modified` header are revalidated with
+ *   `If-None-Match` or `If-Modified-Since`, and served from the cache if the service replies with 304.
+ * - Responses with `no-store` are never cached.
+ * - Responses to authorized requests are cached separately for each credential, identified by the
+ *   `credentialId` option or the `Authorization` header of the request, and may then be `private`.
+ *   Responses to requests whose `Authorization` header is set by the policies that run after this
+ *   one can't be told apart, so they are only cached if they are marked `public`, like the
+ *   responses that are `private` to an unknown user.
+ * @param options - Options to configure the cache.
+ */
+export function httpCachePolicy(options: HttpCachePolicyOptions = {}): PipelinePolicy {
+  const cache = options.cache ?? createInMemoryHttpCache();
+
+  return {
+    name: httpCachePolicyName,
+    async sendRequest(request: PipelineRequest, next: SendRequest): Promise<PipelineResponse> {
+      const requestCacheControl = parseCacheControl(request.headers.get("Cache-Control"));
+      if (
+        request.method !== "GET" ||
+        requestCacheControl.has("no-store") ||
+        request.headers.has("If-None-Match") ||
+        request.headers.has("If-Modified-Since")
+      ) {
+        return next(request);
+      }
+
+      const authorization = request.headers.get("Authorization");
+      const credentialId =
+        options.credentialId ??
+        (authorization ? await computeSha256Hash(authorization, "hex") : undefined);
+      const key = credentialId ? `${credentialId} ${request.url}` : request.url;
+      const isCachedPerCredential = (): boolean =>
+        options.credentialId !== undefined ||
+        (authorization !== undefined && request.headers.get("Authorization") === authorization);
+      let entry = await cache.get(key);
+      if (entry && !matchesVaryHeaders(request, entry)) {
+        entry = undefined;
+      }
+
+      if (entry && !requestCacheControl.has("no-cache") && isFresh(entry)) {
+        logger.info(`httpCachePolicy: serving ${key} from the cache`, request.requestId);
+        return createCachedResponse(request, entry);
+      }
+
+      const etag = entry?.headers.etag;
+      const lastModified = entry?.headers["last-modified"];
+      if (etag) {
+        request.headers.set("If-None-Match", etag);
+      } else if (lastModified) {
+        request.headers.set("If-Modified-Since", lastModified);
+      }
+
+      let response: PipelineResponse;
+      try {
+        response = await next(request);
+      } finally {
+        request.headers.delete("If-None-Match");
+        request.headers.delete("If-Modified-Since");
+      }
+
+      if (entry && (etag || lastModified) && response.status === 304) {
+        logger.info(`httpCachePolicy: revalidated ${key}`, request.requestId);
+        const revalidatedEntry: HttpCacheEntry = {
+          ...entry,
+          headers: { ...entry.headers, ...response.headers.toJSON() },
+          storedOnTimestamp: Date.now(),
+          maxAgeInMs: getMaxAgeInMs(response),
+        };
+        if (
+          isStorable(
+            request,
+            parseCacheControl(response.headers.get("Cache-Control")),
+            isCachedPerCredential()
+          )
+        ) {
+          await cache.set(key, revalidatedEntry);
+        } else {
+          await cache.delete(key);
+        }
+        return createCachedResponse(request, revalidatedEntry);
+      }
+
+      if (response.status !== 200 || response.readableStreamBody || response.browserStreamBody) {
+        return response;
+      }
+
+      const responseCacheControl = parseCacheControl(response.headers.get("Cache-Control"));
+      const maxAgeInMs = getMaxAgeInMs(response);
+      if (
+        !isStorable(request, responseCacheControl, isCachedPerCredential()) ||
+        response.headers.get("Vary") === "*" ||
+        !(response.headers.has("ETag") || response.headers.has("Last-Modified") || maxAgeInMs)
+      ) {
+        await cache.delete(key);
+        return response;
+      }
+
+      await cache.set(key, {
+        status: response.status,
+        headers: response.headers.toJSON(),
+        bodyAsText: response.bodyAsText,
+        varyHeaders: getVaryHeaders(request, response.headers.get("Vary")),
+        storedOnTimestamp: Date.now(),
+        maxAgeInMs,
+      });
+      return response;
+    },
+  };
+}
+
+/**
+ * Parses the directives of a `Cache-Control` header into a map of lower-cased names to values.
+ */
+function parseCacheControl(value: string | undefined): Map<string, string | undefined> {
+  const directives = new Map<string, string | undefined>();
+  for (const directive of value?.split(",") ?? []) {
+    const [name, directiveValue] = directive.split("=");
+    if (name.trim()) {
+      directives.set(name.trim().toLowerCase(), directiveValue?.trim().replace(/^"|"$/g, ""));
+    }
+  }
+  return directives;
+}
+
+/**
+ * Returns whether a response can be stored. Entries cached per credential follow the rules of
+ * private caches in RFC 9111, the others those of shared caches.
+ * The `Authorization` header is checked once the request was sent, so that it includes
+ * the credentials added by the policies that run after this one.
+ */
+function isStorable(
+  request: PipelineRequest,
+  responseCacheControl: Map<string, string | undefined>,
+  isCachedPerCredential: boolean
+): boolean {
+  if (responseCacheControl.has("no-store")) {
+    return false;
+  }
+  if (isCachedPerCredential) {
+    return true;
+  }
+  return (
+    !responseCacheControl.has("private") &&
+    (!request.headers.has("Authorization") || responseCacheControl.has("public"))
+  );
+}
+
+function getMaxAgeInMs(response: PipelineResponse): number | undefined {
+  const cacheControl = parseCacheControl(response.headers.get("Cache-Control"));
+  if (cacheControl.has("no-cache")) {
+    return undefined;
+  }
+  const maxAge = Number(cacheControl.get("max-age"));
+  return Number.isFinite(maxAge) && maxAge > 0 ? maxAge * 1000 : undefined;
+}
+
+function isFresh(entry: HttpCacheEntry): boolean {
+  return entry.maxAgeInMs !== undefined && Date.now() - entry.storedOnTimestamp < entry.maxAgeInMs;
+}
+
+function getVaryHeaders(
+  request: PipelineRequest,
+  vary: string | undefined
+): RawHttpHeaders | undefined {
+  if (!vary) {
+    return undefined;
+  }
+  const varyHeaders: RawHttpHeaders = {};
+  for (const name of vary.split(",")) {
+    const headerName = name.trim().toLowerCase();
+    if (headerName) {
+      varyHeaders[headerName] = request.headers.get(headerName) ?? "";
+    }
+  }
+  return varyHeaders;
+}
+
+function matchesVaryHeaders(request: PipelineRequest, entry: HttpCacheEntry): boolean {
+  return Object.keys(entry.varyHeaders ?? {}).every(
+    (name) => (request.headers.get(name) ?? "") === entry.varyHeaders?.[name]
+  );
+}
+
+function createCachedResponse(request: PipelineRequest, entry: HttpCacheEntry): PipelineResponse {
+  return {
+    request,
+    status: entry.status,
+    headers: createHttpHeaders(entry.headers),
+    bodyAsText: entry.bodyAsText,
+  };
+}
@@ -5,7 +5,7 @@ import { Debugger } from "@azure/logger";
 import { PipelineRequest, PipelineResponse, SendRequest } from "../interfaces";
 import { PipelinePolicy } from "../pipeline";
 import { logger as coreLogger } from "../log";
-import { Sanitizer } from "../util/sanitizer";
+import { RedactionRules, Sanitizer } from "../util/sanitizer";
 
 /**
  * The programmatic identifier of the logPolicy.
@@ -30,6 +30,12 @@ export interface LogPolicyOptions {
    */
   additionalAllowedQueryParameters?: string[];
 
+  /**
+   * Rules that redact secrets in the logged values, in addition to the default rules
+   * and the rules set with `setRedactionRules`.
+   */
+  redactionRules?: RedactionRules;
+
   /**
    * The log function to use for writing pipeline logs.
    * Defaults to core-http's built-in logger.
@@ -47,6 +53,7 @@ export function logPolicy(options: LogPolicyOptions = {}): PipelinePolicy {
   const sanitizer = new Sanitizer({
     additionalAllowedHeaderNames: options.additionalAllowedHeaderNames,
     additionalAllowedQueryParameters: options.additionalAllowedQueryParameters,
+    redactionRules: options.redactionRules,
   });
   return {
     name: logPolicyName,
@@ -0,0 +1,174 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+  MetricAttributes,
+  MetricCounter,
+  MetricHistogram,
+  createMetricsClient,
+} from "@azure/core-tracing";
+import { SDK_VERSION } from "../constants";
+import { PipelineRequest, PipelineResponse, SendRequest } from "../interfaces";
+import { PipelinePolicy } from "../pipeline";
+import { logger } from "../log";
+import { getErrorMessage } from "@azure/core-util";
+import { isRestError } from "../restError";
+
+/**
+ * The programmatic identifier of the metricsPolicy.
+ */
+export const metricsPolicyName = "metricsPolicy";
+
+/**
+ * The key under which core-tracing stores the az.namespace of the current operation.
+ */
+const namespaceContextKey = Symbol.for("@azure/core-tracing namespace");
+
+interface HttpMetrics {
+  duration: MetricHistogram;
+  retries: MetricCounter;
+  requestSize: MetricHistogram;
+  responseSize: MetricHistogram;
+}
+
+/**
+ * A policy that records metrics about each request sent by the pipeline,
+ * through the metrics instrumenter configured in `@azure/core-tracing`:
+ * - `http.client.duration`: the duration of each attempt, in milliseconds.
+ * - `http.client.retries`: the number of attempts that were retries of a previous attempt.
+ * - `http.client.request.size` and `http.client.response.size`: the size of the bodies, in bytes, when known.
+ *
+ * Values are tagged with the HTTP method, the response status code, the host,
+ * and the az.namespace of the client that made the request.
+ */
+export function metricsPolicy(): PipelinePolicy {
+  const metrics = tryCreateMetrics();
+  const attempts = new WeakMap<PipelineRequest, number>();
+
+  return {
+    name: metricsPolicyName,
+    async sendRequest(request: PipelineRequest, next: SendRequest): Promise<PipelineResponse> {
+      if (!metrics) {
+        return next(request);
+      }
+
+      // The retry policies send the same request object again, so its attempts can be counted.
+      const resendCount = attempts.get(request) ?? 0;
+      attempts.set(request, resendCount + 1);
+      const start = Date.now();
+
+      try {
+        const response = await next(request);
+        tryRecordMetrics(metrics, request, resendCount, Date.now() - start, response);
+        return response;
+      } catch (err: unknown) {
+        tryRecordMetrics(
+          metrics,
+          request,
+          resendCount,
+          Date.now() - start,
+          isRestError(err) ? err.response : undefined
+        );
+        throw err;
+      }
+    },
+  };
+}
+
+function tryCreateMetrics(): HttpMetrics | undefined {
+  try {
+    const metricsClient = createMetricsClient({
+      namespace: "",
+      packageName: "@azure/core-rest-pipeline",
+      packageVersion: SDK_VERSION,
+    });
+    return {
+      duration: metricsClient.createHistogram("http.client.duration", {
+        description: "The duration of outbound HTTP requests.",
+        unit: "ms",
+      }),
+      retries: metricsClient.createCounter("http.client.retries", {
+        description: "The number of outbound HTTP requests that were retries.",
+        unit: "{request}",
+      }),
+      requestSize: metricsClient.createHistogram("http.client.request.size", {
+        description: "The size of the bodies of outbound HTTP requests.",
+        unit: "By",
+      }),
+      responseSize: metricsClient.createHistogram("http.client.response.size", {
+        description: "The size of the bodies of the responses to outbound HTTP requests.",
+        unit: "By",
+      }),
+    };
+  } catch (e: unknown) {
+    logger.warning(`Error when creating the MetricsClient: ${getErrorMessage(e)}`);
+    return undefined;
+  }
+}
+
+function tryRecordMetrics(
+  metrics: HttpMetrics,
+  request: PipelineRequest,
+  resendCount: number,
+  durationInMs: number,
+  response?: PipelineResponse
+): void {
+  try {
+    const attributes: MetricAttributes = {
+      "http.method": request.method,
+      "http.status_code": response?.status,
+      "net.peer.name": new URL(request.url).hostname,
+      "az.namespace": request.tracingOptions?.tracingContext?.getValue(namespaceContextKey) as
+        | string
+        | undefined,
+    };
+    if (resendCount > 0) {
+      attributes["http.resend_count"] = resendCount;
+      metrics.retries.add(1, attributes);
+    }
+    metrics.duration.record(durationInMs, attributes);
+
+    const requestSize = getRequestBodySize(request);
+    if (requestSize !== undefined) {
+      metrics.requestSize.record(requestSize, attributes);
+    }
+    const responseSize = response && getResponseBodySize(response);
+    if (responseSize !== undefined) {
+      metrics.responseSize.record(responseSize, attributes);
+    }
+  } catch (e: unknown) {
+    logger.warning(`Skipping recording metrics due to an error: ${getErrorMessage(e)}`);
+  }
+}
+
+function parseContentLength(value: string | undefined): number | undefined {
+  const length = Number(value);
+  return value && Number.isFinite(length) ? length : undefined;
+}
+
+function getRequestBodySize(request: PipelineRequest): number | undefined {
+  const contentLength = parseContentLength(request.headers.get("Content-Length"));
+  if (contentLength !== undefined) {
+    return contentLength;
+  }
+  const body = request.body;
+  if (!body) {
+    return 0;
+  } else if (typeof body === "string") {
+    return new TextEncoder().encode(body).byteLength;
+  } else if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  return undefined;
+}
+
+function getResponseBodySize(response: PipelineResponse): number | undefined {
+  const contentLength = parseContentLength(response.headers.get("Content-Length"));
+  if (contentLength !== undefined) {
+    return contentLength;
+  }
+  if (typeof response.bodyAsText === "string") {
+    return new TextEncoder().encode(response.bodyAsText).byteLength;
+  }
+  return undefined;
+}
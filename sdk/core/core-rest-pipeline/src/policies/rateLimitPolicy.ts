@@ -0,0 +1,202 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AbortError } from "@azure/abort-controller";
+import { PipelineRequest, PipelineResponse, SendRequest } from "../interfaces";
+import { PipelinePolicy } from "../pipeline";
+import { logger } from "../log";
+
+/**
+ * The programmatic identifier of the rateLimitPolicy.
+ */
+export const rateLimitPolicyName = "rateLimitPolicy";
+
+/**
+ * Options to configure the rateLimitPolicy.
+ */
+export interface RateLimitPolicyOptions {
+  /**
+   * The number of requests per second allowed on average. Must be greater than 0.
+   * Requests are not limited by rate if not set.
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * The number of requests that can be sent at once after a period of inactivity,
+   * i.e. the size of the token bucket. Must be at least 1.
+   * Defaults to `requestsPerSecond`, or 1 if `requestsPerSecond` is less than 1.
+   */
+  burstSize?: number;
+
+  /**
+   * The maximum number of requests in flight at the same time. Must be at least 1.
+   * Requests are not limited by concurrency if not set.
+   */
+  maxConcurrentRequests?: number;
+
+  /**
+   * If true, the limits apply to each host separately instead of to all the requests of the client.
+   * Defaults to false.
+   */
+  perHost?: boolean;
+}
+
+interface QueuedRequest {
+  resolve: () => void;
+}
+
+/**
+ * The token bucket and queue shared by the requests limited together.
+ */
+interface RateLimiter {
+  key: string;
+  tokens: number;
+  lastRefillTimestamp: number;
+  inFlight: number;
+  queue: QueuedRequest[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A policy that limits the rate and concurrency of outgoing requests with a token bucket.
+ * Requests exceeding the limits are queued until they can be sent, or until their `abortSignal` is aborted.
+ * @param options - Options to configure the limits.
+ */
+export function rateLimitPolicy(options: RateLimitPolicyOptions = {}): PipelinePolicy {
+  const { requestsPerSecond, maxConcurrentRequests = Infinity, perHost = false } = options;
+  if (requestsPerSecond !== undefined && !(requestsPerSecond > 0)) {
+    throw new Error(`requestsPerSecond must be greater than 0, but was ${requestsPerSecond}.`);
+  }
+  if (options.burstSize !== undefined && !(options.burstSize >= 1)) {
+    throw new Error(`burstSize must be at least 1, but was ${options.burstSize}.`);
+  }
+  if (!(maxConcurrentRequests >= 1)) {
+    throw new Error(`maxConcurrentRequests must be at least 1, but was ${maxConcurrentRequests}.`);
+  }
+  const burstSize =
+    options.burstSize ??
+    (requestsPerSecond === undefined ? Infinity : Math.max(1, requestsPerSecond));
+  const tokensPerMs = requestsPerSecond === undefined ? Infinity : requestsPerSecond / 1000;
+
+  const limiters = new Map<string, RateLimiter>();
+
+  /**
+   * Removes the limiters of the hosts that have no request in flight or queued, and whose bucket
+   * is full again, since a new limiter would start in the same state.
+   */
+  function evictIdleLimiters(): void {
+    for (const [key, limiter] of limiters) {
+      if (limiter.inFlight === 0 && !limiter.queue.length) {
+        refill(limiter);
+        if (limiter.tokens >= burstSize) {
+          limiters.delete(key);
+        }
+      }
+    }
+  }
+
+  function getLimiter(request: PipelineRequest): RateLimiter {
+    const key = perHost ? new URL(request.url).host : "";
+    let limiter = limiters.get(key);
+    if (!limiter) {
+      evictIdleLimiters();
+      limiter = {
+        key,
+        tokens: burstSize,
+        lastRefillTimestamp: Date.now(),
+        inFlight: 0,
+        queue: [],
+      };
+      limiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  function refill(limiter: RateLimiter): void {
+    if (requestsPerSecond === undefined) {
+      return;
+    }
+    const now = Date.now();
+    limiter.tokens = Math.min(
+      burstSize,
+      limiter.tokens + (now - limiter.lastRefillTimestamp) * tokensPerMs
+    );
+    limiter.lastRefillTimestamp = now;
+  }
+
+  function drain(limiter: RateLimiter): void {
+    refill(limiter);
+    while (limiter.tokens >= 1 && limiter.inFlight < maxConcurrentRequests) {
+      const queued = limiter.queue.shift();
+      if (!queued) {
+        break;
+      }
+      limiter.tokens -= 1;
+      limiter.inFlight += 1;
+      queued.resolve();
+    }
+
+    if (limiter.queue.length && limiter.tokens < 1 && !limiter.timer) {
+      limiter.timer = setTimeout(() => {
+        limiter.timer = undefined;
+        drain(limiter);
+      }, Math.ceil((1 - limiter.tokens) / tokensPerMs));
+    }
+  }
+
+  function acquire(limiter: RateLimiter, request: PipelineRequest): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const onAborted = (): void => {
+        const index = limiter.queue.indexOf(queued);
+        if (index !== -1) {
+          limiter.queue.splice(index, 1);
+          logger.info(
+            `rateLimitPolicy: aborted a queued request, queue depth for "${limiter.key}" is ${limiter.queue.length}`,
+            request.requestId
+          );
+        }
+        reject(new AbortError("The operation was aborted."));
+      };
+      const queued: QueuedRequest = {
+        resolve: () => {
+          request.abortSignal?.removeEventListener("abort", onAborted);
+          resolve();
+        },
+      };
+
+      if (request.abortSignal?.aborted) {
+        onAborted();
+        return;
+      }
+
+      limiter.queue.push(queued);
+      request.abortSignal?.addEventListener("abort", onAborted);
+      drain(limiter);
+
+      if (limiter.queue.includes(queued)) {
+        logger.info(
+          `rateLimitPolicy: queued a request, queue depth for "${limiter.key}" is ${limiter.queue.length}`,
+          request.requestId
+        );
+      }
+    });
+  }
+
+  function release(limiter: RateLimiter): void {
+    limiter.inFlight -= 1;
+    drain(limiter);
+  }
+
+  return {
+    name: rateLimitPolicyName,
+    async sendRequest(request: PipelineRequest, next: SendRequest): Promise<PipelineResponse> {
+      const limiter = getLimiter(request);
+      await acquire(limiter, request);
+      try {
+        return await next(request);
+      } finally {
+        release(limiter);
+      }
+    },
+  };
+}
@@ -7,7 +7,7 @@ import { delay } from "../util/helpers";
 import { createClientLogger } from "@azure/logger";
 import { RetryStrategy } from "../retryStrategies/retryStrategy";
 import { RestError } from "../restError";
-import { AbortError } from "@azure/abort-controller";
+import { AbortError, getRemainingTimeInMs } from "@azure/abort-controller";
 import { AzureLogger } from "@azure/logger";
 import { DEFAULT_RETRY_POLICY_COUNT } from "../constants";
 
@@ -118,6 +118,15 @@ export function retryPolicy(
           }
 
           if (retryAfterInMs || retryAfterInMs === 0) {
+            if (retryAfterInMs >= getRemainingTimeInMs(request.abortSignal)) {
+              strategyLogger.info(
+                `Retry ${retryCount}: Not enough time left before the deadline of the request to retry after ${retryAfterInMs}. Returning the last received response, or throwing the last received error.`
+              );
+              if (responseError) {
+                throw responseError;
+              }
+              return response!;
+            }
             strategyLogger.info(
               `Retry ${retryCount}: Retry strategy ${strategy.name} retries after ${retryAfterInMs}`
             );
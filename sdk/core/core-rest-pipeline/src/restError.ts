@@ -45,6 +45,11 @@ export class RestError extends Error {
    * It may have been malformed.
    */
   static readonly PARSE_ERROR: string = "PARSE_ERROR";
+  /**
+   * This means that the request was not sent because the circuit breaker
+   * for the target host is open after too many consecutive failures.
+   */
+  static readonly CIRCUIT_BREAKER_OPEN: string = "CIRCUIT_BREAKER_OPEN";
 
   /**
    * The code of the error itself (use statics on RestError if possible.)
@@ -78,11 +83,28 @@ export class RestError extends Error {
     Object.setPrototypeOf(this, RestError.prototype);
   }
 
+  /**
+   * Returns a representation of the error that is safe to serialize with `JSON.stringify`,
+   * such as when the error is reported to an error tracker. The bodies of the request and
+   * response are left out, and their headers and query parameters, as well as the message and
+   * details of the error, are redacted with the same rules as the logs. See `setRedactionRules`.
+   */
+  toJSON(): Record<string, unknown> {
+    return JSON.parse(errorSanitizer.sanitize(this.toSerializableObject()));
+  }
+
   /**
    * Logging method for util.inspect in Node
    */
   [custom](): string {
-    return `RestError: ${this.message} \n ${errorSanitizer.sanitize(this)}`;
+    return `RestError: ${errorSanitizer.redactString(this.message)} \n ${errorSanitizer.sanitize(
+      this.toSerializableObject()
+    )}`;
+  }
+
+  private toSerializableObject(): unknown {
+    // JSON.stringify would call toJSON again on the error itself.
+    return { ...this, name: this.name, message: this.message };
   }
 }
 
@@ -0,0 +1,160 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+  CircuitBreakerOptions,
+  PipelineRequest,
+  PipelineResponse,
+  SendRequest,
+} from "../interfaces";
+import { RestError } from "../restError";
+import { RetryStrategy } from "./retryStrategy";
+import { isExponentialRetryResponse } from "./exponentialRetryStrategy";
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+// intervals are in milliseconds
+const DEFAULT_COOLDOWN_INTERVAL = 1000 * 30;
+
+/**
+ * The state of the circuit of a single host.
+ * - Closed: requests flow normally while failures are counted.
+ * - Open: requests are rejected without being sent until the cooldown elapses.
+ * - HalfOpen: a single trial request is in flight; its outcome closes or re-opens the circuit.
+ */
+export type CircuitBreakerState = "Closed" | "Open" | "HalfOpen";
+
+interface HostCircuit {
+  state: CircuitBreakerState;
+  consecutiveFailures: number;
+  openedAt: number;
+}
+
+/**
+ * A retry strategy that also keeps track of the circuits of the hosts it has seen.
+ * To combine it with other strategies, pass it first to {@link retryPolicy} and send each
+ * attempt through its `sendRequest`:
+ *
+ * ```ts
+ * const circuitBreaker = circuitBreakerRetryStrategy({ failureThreshold: 3 });
+ * const policy = retryPolicy([circuitBreaker, myRetryStrategy]);
+ * const circuitBreakerPolicy: PipelinePolicy = {
+ *   name: "circuitBreakerPolicy",
+ *   sendRequest: (request, next) =>
+ *     policy.sendRequest(request, (req) => circuitBreaker.sendRequest(req, next)),
+ * };
+ * ```
+ */
+export interface CircuitBreakerRetryStrategy extends RetryStrategy {
+  /**
+   * Sends the request through `next` if the circuit of its host allows it,
+   * and records the outcome of the attempt.
+   * Throws a {@link RestError} with the `CIRCUIT_BREAKER_OPEN` code otherwise.
+   */
+  sendRequest(request: PipelineRequest, next: SendRequest): Promise<PipelineResponse>;
+  /**
+   * Returns the state of the circuit of a host, such as `"bing.com"`.
+   * Hosts that haven't been seen yet are `"Closed"`.
+   */
+  getCircuitState(host: string): CircuitBreakerState;
+}
+
+/**
+ * A retry strategy that tracks failures per host, and stops retrying (and sending)
+ * requests to a host once its failures reach the configured threshold:
+ * - An attempt fails if there are errors in the underlying transport layer, or
+ *   if the response status is one that would be retried exponentially (408, greater or equal than 500, except for 501 and 505).
+ * - Once open, the circuit lets a single trial request through after the cooldown,
+ *   closing again if it succeeds.
+ */
+export function circuitBreakerRetryStrategy(
+  options: CircuitBreakerOptions = {}
+): CircuitBreakerRetryStrategy {
+  const failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+  const cooldownInMs = options.cooldownInMs ?? DEFAULT_COOLDOWN_INTERVAL;
+
+  const circuits = new Map<string, HostCircuit>();
+
+  function getCircuit(request: PipelineRequest): HostCircuit {
+    const host = getHost(request.url);
+    let circuit = circuits.get(host);
+    if (!circuit) {
+      circuit = { state: "Closed", consecutiveFailures: 0, openedAt: 0 };
+      circuits.set(host, circuit);
+    }
+    return circuit;
+  }
+
+  function recordAttempt(circuit: HostCircuit, failed: boolean): void {
+    if (!failed) {
+      circuit.state = "Closed";
+      circuit.consecutiveFailures = 0;
+      return;
+    }
+    circuit.consecutiveFailures += 1;
+    if (circuit.state === "HalfOpen" || circuit.consecutiveFailures >= failureThreshold) {
+      circuit.state = "Open";
+      circuit.openedAt = Date.now();
+    }
+  }
+
+  function createOpenCircuitError(request: PipelineRequest): RestError {
+    const host = getHost(request.url);
+    return new RestError(
+      `The circuit for ${host} is open after ${
+        circuits.get(host)?.consecutiveFailures
+      } consecutive failures.`,
+      { code: RestError.CIRCUIT_BREAKER_OPEN, request }
+    );
+  }
+
+  return {
+    name: "circuitBreakerRetryStrategy",
+    async sendRequest(request, next) {
+      const circuit = getCircuit(request);
+      if (circuit.state === "HalfOpen") {
+        throw createOpenCircuitError(request);
+      }
+      if (circuit.state === "Open") {
+        if (Date.now() - circuit.openedAt < cooldownInMs) {
+          throw createOpenCircuitError(request);
+        }
+        circuit.state = "HalfOpen";
+      }
+
+      let response: PipelineResponse;
+      try {
+        response = await next(request);
+      } catch (e: any) {
+        if (e?.name === "RestError") {
+          // Only errors from the transport layer, or with a failing status, count against the host.
+          recordAttempt(circuit, !e.response || isExponentialRetryResponse(e.response));
+        } else if (circuit.state === "HalfOpen") {
+          // The trial request was interrupted (e.g. aborted), so let the next request try again.
+          circuit.state = "Open";
+        }
+        throw e;
+      }
+      recordAttempt(circuit, isExponentialRetryResponse(response));
+      return response;
+    },
+    retry({ response, responseError }) {
+      if (responseError?.code === RestError.CIRCUIT_BREAKER_OPEN) {
+        return { errorToThrow: responseError };
+      }
+
+      const request = response?.request ?? responseError?.request;
+      if (request && circuits.get(getHost(request.url))?.state === "Open") {
+        return { errorToThrow: createOpenCircuitError(request) };
+      }
+
+      return { skipStrategy: true };
+    },
+    getCircuitState(host) {
+      return circuits.get(host)?.state ?? "Closed";
+    },
+  };
+}
+
+function getHost(url: string): string {
+  return new URL(url).host;
+}
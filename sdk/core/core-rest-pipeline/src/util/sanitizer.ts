@@ -20,10 +20,83 @@ export interface SanitizerOptions {
    * query string values are logged.
    */
   additionalAllowedQueryParameters?: string[];
+
+  /**
+   * Rules that redact secrets in the values that are logged or serialized, in addition to
+   * the default rules and the rules set with `setRedactionRules`.
+   */
+  redactionRules?: RedactionRules;
+}
+
+/**
+ * Rules that redact secrets, such as account keys or tokens, that services echo in the bodies
+ * of their responses or that end up in error messages.
+ * Values that match the rules are replaced by "REDACTED".
+ */
+export interface RedactionRules {
+  /**
+   * Paths of the JSON properties whose values are redacted, such as `"properties.primaryKey"`.
+   * Paths are relative to the root of a parsed body, and their segments are property names separated by dots.
+   * The segment `*` matches any property, and arrays are traversed, so `"keys.value"` matches
+   * the `value` of every element of the `keys` array.
+   */
+  jsonPaths?: string[];
+
+  /**
+   * Patterns whose matches are redacted in any string that is logged or serialized, including
+   * error messages, URLs and bodies. Patterns without the global flag only redact their first match.
+   */
+  patterns?: RegExp[];
 }
 
 const RedactedString = "REDACTED";
 
+/**
+ * The patterns of secrets that are always redacted: SAS signatures, keys and signatures in
+ * connection strings, and JSON Web Tokens.
+ * The first group of each pattern is the text before the secret, which is kept. Lookbehind
+ * assertions would be simpler, but aren't supported by older browsers, such as Safari before 16.4.
+ */
+const defaultRedactedPatterns: RegExp[] = [
+  /([?&]sig=)[^&\s"'#]+/gi,
+  /(\b(?:AccountKey|SharedAccessKey|SharedAccessSignature|Password)=)[^;"'<\s]+/gi,
+  /()\beyJ[\w-]*\.eyJ[\w-]*\.[\w-]*/g,
+];
+
+let sharedRedactionRules: RedactionRules = {};
+
+/**
+ * Sets the rules that redact secrets in the logs of the pipeline and in `RestError`s, whether they
+ * are inspected, such as by `console.log`, or serialized with `JSON.stringify`.
+ * The rules apply in addition to the default rules, which redact SAS signatures, keys and signatures
+ * in connection strings, and JSON Web Tokens, and replace any rules set previously.
+ * @param rules - The rules to apply.
+ */
+export function setRedactionRules(rules: RedactionRules): void {
+  sharedRedactionRules = rules;
+}
+
+function splitJsonPath(path: string): string[] {
+  return path.replace(/^\$\.?/, "").split(".");
+}
+
+function redactJsonPath(value: unknown, path: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactJsonPath(item, path));
+  }
+  if (!isObject(value) || path.length === 0) {
+    return value;
+  }
+  const [segment, ...rest] = path;
+  const redacted: UnknownObject = { ...value };
+  for (const key of Object.keys(redacted)) {
+    if (segment === "*" || segment === key) {
+      redacted[key] = rest.length === 0 ? RedactedString : redactJsonPath(redacted[key], rest);
+    }
+  }
+  return redacted;
+}
+
 // Make sure this list is up-to-date with the one under core/logger/Readme#Keyconcepts
 const defaultAllowedHeaderNames = [
   "x-ms-client-request-id",
@@ -77,16 +150,19 @@ const defaultAllowedQueryParameters: string[] = ["api-version"];
 export class Sanitizer {
   private allowedHeaderNames: Set<string>;
   private allowedQueryParameters: Set<string>;
+  private redactionRules: RedactionRules;
 
   constructor({
     additionalAllowedHeaderNames: allowedHeaderNames = [],
     additionalAllowedQueryParameters: allowedQueryParameters = [],
+    redactionRules = {},
   }: SanitizerOptions = {}) {
     allowedHeaderNames = defaultAllowedHeaderNames.concat(allowedHeaderNames);
     allowedQueryParameters = defaultAllowedQueryParameters.concat(allowedQueryParameters);
 
     this.allowedHeaderNames = new Set(allowedHeaderNames.map((n) => n.toLowerCase()));
     this.allowedQueryParameters = new Set(allowedQueryParameters.map((p) => p.toLowerCase()));
+    this.redactionRules = redactionRules;
   }
 
   public sanitize(obj: unknown): string {
@@ -96,10 +172,12 @@ export class Sanitizer {
       (key: string, value: unknown) => {
         // Ensure Errors include their interesting non-enumerable members
         if (value instanceof Error) {
+          const { cause } = value as { cause?: unknown };
           return {
             ...value,
             name: value.name,
             message: value.message,
+            ...(cause !== undefined ? { cause } : {}),
           };
         }
 
@@ -109,12 +187,17 @@ export class Sanitizer {
           return this.sanitizeUrl(value as string);
         } else if (key === "query") {
           return this.sanitizeQuery(value as UnknownObject);
+        } else if (key === "bodyAsText") {
+          return this.sanitizeBody(value);
+        } else if (key === "details" || key === "parsedBody") {
+          return this.sanitizeJson(value);
         } else if (key === "body") {
           // Don't log the request body
           return undefined;
         } else if (key === "response") {
-          // Don't log response again
-          return undefined;
+          // Don't log the whole response again, only its status and headers.
+          // Its body may contain secrets that the redaction rules don't know about.
+          return this.sanitizeResponse(value);
         } else if (key === "operationSpec") {
           // When using sendOperationRequest, the request carries a massive
           // field with the autorest spec. No need to log it.
@@ -124,6 +207,8 @@ export class Sanitizer {
             return "[Circular]";
           }
           seen.add(value);
+        } else if (typeof value === "string") {
+          return this.redactString(value);
         }
 
         return value;
@@ -132,7 +217,65 @@ export class Sanitizer {
     );
   }
 
-  private sanitizeHeaders(obj: UnknownObject): UnknownObject {
+  /**
+   * Redacts the matches of the redaction patterns in the given string.
+   */
+  public redactString(value: string): string {
+    for (const pattern of defaultRedactedPatterns) {
+      value = value.replace(pattern, `$1${RedactedString}`);
+    }
+    for (const pattern of this.getRedactedPatterns()) {
+      value = value.replace(pattern, RedactedString);
+    }
+    return value;
+  }
+
+  /**
+   * Redacts the properties of a parsed JSON body that match the redaction paths.
+   * The strings of the body are redacted later on, as any other string.
+   */
+  public sanitizeJson(value: unknown): unknown {
+    return this.getJsonPaths().reduce(
+      (redacted, path) => redactJsonPath(redacted, splitJsonPath(path)),
+      value
+    );
+  }
+
+  /**
+   * Redacts a body received as text, which is parsed to redact the properties matching
+   * the redaction paths when it is JSON.
+   */
+  public sanitizeBody(value: unknown): unknown {
+    if (typeof value !== "string") {
+      return value;
+    }
+    if (this.getJsonPaths().length === 0) {
+      return this.redactString(value);
+    }
+    try {
+      return this.redactString(JSON.stringify(this.sanitizeJson(JSON.parse(value))));
+    } catch {
+      return this.redactString(value);
+    }
+  }
+
+  private sanitizeResponse(value: unknown): unknown {
+    if (!isObject(value)) {
+      return undefined;
+    }
+    const { status, headers } = value;
+    return { status, headers };
+  }
+
+  private getJsonPaths(): string[] {
+    return [...(sharedRedactionRules.jsonPaths ?? []), ...(this.redactionRules.jsonPaths ?? [])];
+  }
+
+  private getRedactedPatterns(): RegExp[] {
+    return [...(sharedRedactionRules.patterns ?? []), ...(this.redactionRules.patterns ?? [])];
+  }
+
+  public sanitizeHeaders(obj: UnknownObject): UnknownObject {
     const sanitized: UnknownObject = {};
     for (const key of Object.keys(obj)) {
       if (this.allowedHeaderNames.has(key.toLowerCase())) {
@@ -162,12 +305,18 @@ export class Sanitizer {
     return sanitized;
   }
 
-  private sanitizeUrl(value: string): string {
+  public sanitizeUrl(value: string): string {
     if (typeof value !== "string" || value === null) {
       return value;
     }
 
-    const url = new URL(value);
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      // Not an absolute URL, such as the path of a nested request.
+      return this.redactString(value);
+    }
 
     if (!url.search) {
       return value;
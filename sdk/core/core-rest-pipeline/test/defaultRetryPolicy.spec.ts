@@ -1,9 +1,20 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { assert } from "chai";
+import { assert, use as chaiUse } from "chai";
+import chaiPromises from "chai-as-promised";
+chaiUse(chaiPromises);
 import * as sinon from "sinon";
-import { RestError, SendRequest, createPipelineRequest, defaultRetryPolicy } from "../src";
+import {
+  PipelineResponse,
+  RestError,
+  SendRequest,
+  circuitBreakerRetryStrategy,
+  createHttpHeaders,
+  createPipelineRequest,
+  defaultRetryPolicy,
+  retryPolicy,
+} from "../src";
 import { DEFAULT_RETRY_POLICY_COUNT } from "../src/constants";
 
 describe("defaultRetryPolicy", function () {
@@ -71,4 +82,135 @@ describe("defaultRetryPolicy", function () {
     await assert.isRejected(policy.sendRequest(request, next), /Test Error/);
     assert.strictEqual(next.callCount, 1);
   });
+
+  describe("circuitBreakerOptions", function () {
+    function createResponse(url: string, status: number): PipelineResponse {
+      return {
+        headers: createHttpHeaders(),
+        request: createPipelineRequest({ url }),
+        status,
+      };
+    }
+
+    it("It should open the circuit after the failure threshold and fail fast", async () => {
+      const request = createPipelineRequest({
+        url: "https://bing.com",
+      });
+
+      const policy = defaultRetryPolicy({
+        maxRetries: 5,
+        circuitBreakerOptions: { failureThreshold: 2 },
+      });
+      const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+      next.resolves(createResponse(request.url, 500));
+
+      const clock = sinon.useFakeTimers();
+
+      let catchCalled = false;
+      const promise = policy.sendRequest(request, next);
+      promise.catch((e) => {
+        catchCalled = true;
+        assert.strictEqual(e.code, RestError.CIRCUIT_BREAKER_OPEN);
+      });
+      await clock.runAllAsync();
+      assert.strictEqual(next.callCount, 2);
+      assert.isTrue(catchCalled);
+
+      // While open, requests to the same host are not sent at all.
+      const error = await policy.sendRequest(request, next).catch((e) => e);
+      assert.strictEqual(error.code, RestError.CIRCUIT_BREAKER_OPEN);
+      assert.strictEqual(next.callCount, 2);
+    });
+
+    it("It should track circuits per host", async () => {
+      const failingRequest = createPipelineRequest({ url: "https://failing.bing.com" });
+      const healthyRequest = createPipelineRequest({ url: "https://healthy.bing.com" });
+
+      const policy = defaultRetryPolicy({
+        maxRetries: 0,
+        circuitBreakerOptions: { failureThreshold: 1 },
+      });
+      const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+      next.callsFake(async (req) =>
+        createResponse(req.url, req.url === failingRequest.url ? 503 : 200)
+      );
+
+      await policy.sendRequest(failingRequest, next);
+      await assert.isRejected(policy.sendRequest(failingRequest, next), /circuit/);
+
+      const response = await policy.sendRequest(healthyRequest, next);
+      assert.strictEqual(response.status, 200);
+      assert.strictEqual(next.callCount, 2);
+    });
+
+    it("It should let a trial request through after the cooldown and close on success", async () => {
+      const request = createPipelineRequest({
+        url: "https://bing.com",
+      });
+
+      const policy = defaultRetryPolicy({
+        maxRetries: 0,
+        circuitBreakerOptions: { failureThreshold: 1, cooldownInMs: 1000 },
+      });
+      const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+      next.onFirstCall().rejects(new RestError("Test Error!", { code: "ECONNRESET" }));
+      next.resolves(createResponse(request.url, 200));
+
+      const clock = sinon.useFakeTimers();
+
+      await assert.isRejected(policy.sendRequest(request, next), /Test Error/);
+      await assert.isRejected(policy.sendRequest(request, next), /circuit/);
+      assert.strictEqual(next.callCount, 1);
+
+      await clock.tickAsync(1000);
+
+      const response = await policy.sendRequest(request, next);
+      assert.strictEqual(response.status, 200);
+      assert.strictEqual((await policy.sendRequest(request, next)).status, 200);
+      assert.strictEqual(next.callCount, 3);
+    });
+
+    it("It should re-open the circuit if the trial request fails", async () => {
+      const request = createPipelineRequest({
+        url: "https://bing.com",
+      });
+
+      const policy = defaultRetryPolicy({
+        maxRetries: 0,
+        circuitBreakerOptions: { failureThreshold: 1, cooldownInMs: 1000 },
+      });
+      const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+      next.resolves(createResponse(request.url, 500));
+
+      const clock = sinon.useFakeTimers();
+
+      await policy.sendRequest(request, next);
+      await clock.tickAsync(1000);
+      await policy.sendRequest(request, next);
+      await assert.isRejected(policy.sendRequest(request, next), /circuit/);
+      assert.strictEqual(next.callCount, 2);
+    });
+
+    it("It should be composable with other retry strategies", async () => {
+      const request = createPipelineRequest({
+        url: "https://bing.com",
+      });
+
+      const circuitBreaker = circuitBreakerRetryStrategy({ failureThreshold: 2 });
+      const policy = retryPolicy(
+        [circuitBreaker, { name: "retryAll", retry: () => ({ retryAfterInMs: 0 }) }],
+        { maxRetries: 5 }
+      );
+      const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+      next.resolves(createResponse(request.url, 503));
+
+      assert.strictEqual(circuitBreaker.getCircuitState("bing.com"), "Closed");
+      await assert.isRejected(
+        policy.sendRequest(request, (req) => circuitBreaker.sendRequest(req, next)),
+        /circuit/
+      );
+      assert.strictEqual(next.callCount, 2);
+      assert.strictEqual(circuitBreaker.getCircuitState("bing.com"), "Open");
+    });
+  });
 });
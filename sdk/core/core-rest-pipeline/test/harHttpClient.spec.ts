@@ -0,0 +1,168 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert, use as chaiUse } from "chai";
+import chaiPromises from "chai-as-promised";
+chaiUse(chaiPromises);
+import * as sinon from "sinon";
+import {
+  HttpClient,
+  PipelineRequest,
+  RestError,
+  createHarRecordingHttpClient,
+  createHarReplayHttpClient,
+  createHttpHeaders,
+  createPipelineRequest,
+} from "../src";
+
+describe("HAR HttpClients", function () {
+  function createHttpClient(): HttpClient {
+    let count = 0;
+    return {
+      sendRequest: sinon.spy(async (request: PipelineRequest) => ({
+        request,
+        status: 200,
+        headers: createHttpHeaders({
+          "Content-Type": "application/json",
+          "x-ms-request-id": "request-id",
+          "x-secret": "secret",
+        }),
+        bodyAsText: JSON.stringify({ count: ++count }),
+      })),
+    };
+  }
+
+  it("should record requests and responses with redacted values", async () => {
+    const client = createHarRecordingHttpClient(createHttpClient());
+    await client.sendRequest(
+      createPipelineRequest({
+        url: "https://bing.com/path?api-version=1&sig=secret",
+        method: "PUT",
+        headers: createHttpHeaders({ Authorization: "Bearer secret", Accept: "*/*" }),
+        body: "payload",
+      })
+    );
+
+    const har = client.getHar();
+    assert.strictEqual(har.log.version, "1.2");
+    assert.strictEqual(har.log.creator.name, "@azure/core-rest-pipeline");
+    assert.lengthOf(har.log.entries, 1);
+
+    const [{ request, response }] = har.log.entries;
+    assert.strictEqual(request.method, "PUT");
+    assert.strictEqual(request.url, "https://bing.com/path?api-version=1&sig=REDACTED");
+    assert.deepEqual(request.queryString, [
+      { name: "api-version", value: "1" },
+      { name: "sig", value: "REDACTED" },
+    ]);
+    assert.deepInclude(request.headers, { name: "Authorization", value: "REDACTED" });
+    assert.deepInclude(request.headers, { name: "Accept", value: "*/*" });
+    assert.strictEqual(request.postData?.text, "payload");
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.content.text, '{"count":1}');
+    assert.strictEqual(response.content.mimeType, "application/json");
+    assert.deepInclude(response.headers, { name: "x-ms-request-id", value: "request-id" });
+    assert.deepInclude(response.headers, { name: "x-secret", value: "REDACTED" });
+    assert.notInclude(JSON.stringify(har), "Bearer secret");
+    assert.notInclude(JSON.stringify(har), "sig=secret");
+  });
+
+  it("should record values of additionally allowed headers and query parameters", async () => {
+    const client = createHarRecordingHttpClient(createHttpClient(), {
+      additionalAllowedHeaderNames: ["x-secret"],
+      additionalAllowedQueryParameters: ["sig"],
+    });
+    await client.sendRequest(createPipelineRequest({ url: "https://bing.com/?sig=value" }));
+
+    const [{ request, response }] = client.getHar().log.entries;
+    assert.strictEqual(request.url, "https://bing.com/?sig=value");
+    assert.deepInclude(response.headers, { name: "x-secret", value: "secret" });
+  });
+
+  it("should redact secrets in the recorded bodies", async () => {
+    const client = createHarRecordingHttpClient(
+      {
+        sendRequest: async (request: PipelineRequest) => ({
+          request,
+          status: 200,
+          headers: createHttpHeaders({ "Content-Type": "application/json" }),
+          bodyAsText: JSON.stringify({ name: "key1", value: "secret-key" }),
+        }),
+      },
+      { redactionRules: { jsonPaths: ["value"] } }
+    );
+    await client.sendRequest(
+      createPipelineRequest({
+        url: "https://bing.com/",
+        method: "POST",
+        body: "Endpoint=sb://bing.com/;SharedAccessKey=secret-key",
+      })
+    );
+
+    const [{ request, response }] = client.getHar().log.entries;
+    assert.strictEqual(request.postData?.text, "Endpoint=sb://bing.com/;SharedAccessKey=REDACTED");
+    assert.strictEqual(response.content.text, '{"name":"key1","value":"REDACTED"}');
+    assert.notInclude(JSON.stringify(client.getHar()), "secret-key");
+  });
+
+  it("should record and replay requests that failed without a response", async () => {
+    const recorder = createHarRecordingHttpClient({
+      sendRequest: async () => {
+        throw new RestError("getaddrinfo ENOTFOUND bing.com?sig=secret", {
+          code: RestError.REQUEST_SEND_ERROR,
+        });
+      },
+    });
+    await assert.isRejected(
+      recorder.sendRequest(createPipelineRequest({ url: "https://bing.com/" })),
+      /ENOTFOUND/
+    );
+
+    const har = recorder.getHar();
+    const [{ response }] = har.log.entries;
+    assert.strictEqual(response.status, 0);
+    assert.strictEqual(response._error, "getaddrinfo ENOTFOUND bing.com?sig=REDACTED");
+
+    const replayer = createHarReplayHttpClient(har);
+    await assert.isRejected(
+      replayer.sendRequest(createPipelineRequest({ url: "https://bing.com/" })),
+      /ENOTFOUND/
+    );
+  });
+
+  it("should replay recorded responses in order", async () => {
+    const recorder = createHarRecordingHttpClient(createHttpClient());
+    await recorder.sendRequest(createPipelineRequest({ url: "https://bing.com/?sig=1" }));
+    await recorder.sendRequest(createPipelineRequest({ url: "https://bing.com/?sig=2" }));
+
+    const har = JSON.parse(JSON.stringify(recorder.getHar()));
+    const replayer = createHarReplayHttpClient(har);
+
+    const first = await replayer.sendRequest(
+      createPipelineRequest({ url: "https://bing.com/?sig=3" })
+    );
+    const second = await replayer.sendRequest(
+      createPipelineRequest({ url: "https://bing.com/?sig=4" })
+    );
+    assert.strictEqual(first.bodyAsText, '{"count":1}');
+    assert.strictEqual(second.bodyAsText, '{"count":2}');
+    assert.strictEqual(first.headers.get("content-type"), "application/json");
+
+    await assert.isRejected(
+      replayer.sendRequest(createPipelineRequest({ url: "https://bing.com/?sig=5" })),
+      /No recorded response/
+    );
+  });
+
+  it("should not replay responses of other methods", async () => {
+    const recorder = createHarRecordingHttpClient(createHttpClient());
+    await recorder.sendRequest(createPipelineRequest({ url: "https://bing.com/" }));
+
+    const replayer = createHarReplayHttpClient(recorder.getHar());
+    await assert.isRejected(
+      replayer.sendRequest(createPipelineRequest({ url: "https://bing.com/", method: "DELETE" })),
+      /No recorded response/
+    );
+  });
+});
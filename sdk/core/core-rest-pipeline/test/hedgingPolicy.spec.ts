@@ -0,0 +1,191 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert, use as chaiUse } from "chai";
+import chaiPromises from "chai-as-promised";
+chaiUse(chaiPromises);
+import * as sinon from "sinon";
+import {
+  PipelineRequest,
+  PipelineResponse,
+  SendRequest,
+  createHttpHeaders,
+  createPipelineRequest,
+  getHedgedAttemptNumber,
+  hedgingPolicy,
+} from "../src";
+import { AbortController, AbortError } from "@azure/abort-controller";
+
+describe("hedgingPolicy", function () {
+  afterEach(function () {
+    sinon.restore();
+  });
+
+  function respondAfter(delayInMs: number, status: number = 200): SendRequest {
+    return (request: PipelineRequest) =>
+      new Promise<PipelineResponse>((resolve, reject) => {
+        const timer = setTimeout(
+          () => resolve({ headers: createHttpHeaders(), request, status }),
+          delayInMs
+        );
+        request.abortSignal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(new AbortError("aborted"));
+        });
+      });
+  }
+
+  it("should not hedge requests that complete before the hedging delay", async () => {
+    const request = createPipelineRequest({ url: "https://bing.com" });
+    const next = sinon.spy(respondAfter(50));
+    const policy = hedgingPolicy({ defaultHedgingDelayInMs: 100 });
+
+    const clock = sinon.useFakeTimers();
+    const promise = policy.sendRequest(request, next);
+    await clock.runAllAsync();
+    const response = await promise;
+
+    assert.strictEqual(next.callCount, 1);
+    assert.strictEqual(getHedgedAttemptNumber(response), 0);
+  });
+
+  it("should send a duplicate after the hedging delay and return the first response", async () => {
+    const request = createPipelineRequest({ url: "https://bing.com" });
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.onFirstCall().callsFake(respondAfter(1000));
+    next.onSecondCall().callsFake(respondAfter(10, 201));
+    const policy = hedgingPolicy({ defaultHedgingDelayInMs: 100 });
+
+    const clock = sinon.useFakeTimers();
+    const promise = policy.sendRequest(request, next);
+    await clock.tickAsync(100);
+    assert.strictEqual(next.callCount, 2);
+    await clock.tickAsync(10);
+    const response = await promise;
+
+    assert.strictEqual(response.status, 201);
+    assert.strictEqual(getHedgedAttemptNumber(response), 1);
+    assert.isTrue(next.firstCall.args[0].abortSignal?.aborted, "losing attempt wasn't aborted");
+    assert.isFalse(next.secondCall.args[0].abortSignal?.aborted);
+  });
+
+  it("should not hedge non-idempotent methods", async () => {
+    const request = createPipelineRequest({ url: "https://bing.com", method: "POST" });
+    const next = sinon.spy(respondAfter(1000));
+    const policy = hedgingPolicy({ defaultHedgingDelayInMs: 100 });
+
+    const clock = sinon.useFakeTimers();
+    const promise = policy.sendRequest(request, next);
+    await clock.runAllAsync();
+    const response = await promise;
+
+    assert.strictEqual(next.callCount, 1);
+    assert.isUndefined(getHedgedAttemptNumber(response));
+  });
+
+  it("should use the latency percentile once enough latencies were observed", async () => {
+    const policy = hedgingPolicy({ defaultHedgingDelayInMs: 1000, latencyPercentile: 50 });
+    const clock = sinon.useFakeTimers();
+
+    for (let i = 0; i < 10; i++) {
+      const promise = policy.sendRequest(
+        createPipelineRequest({ url: "https://bing.com" }),
+        respondAfter(20)
+      );
+      await clock.tickAsync(20);
+      await promise;
+    }
+
+    const next = sinon.spy(respondAfter(500));
+    const promise = policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    await clock.tickAsync(20);
+    assert.strictEqual(next.callCount, 2);
+    await clock.runAllAsync();
+    assert.strictEqual(getHedgedAttemptNumber(await promise), 0);
+  });
+
+  it("should count the latency of the losing attempts", async () => {
+    const policy = hedgingPolicy({ defaultHedgingDelayInMs: 100, latencyPercentile: 95 });
+    const clock = sinon.useFakeTimers();
+
+    for (let i = 0; i < 5; i++) {
+      const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+      next.onFirstCall().callsFake(respondAfter(1000));
+      next.onSecondCall().callsFake(respondAfter(10));
+      const promise = policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+      await clock.tickAsync(110);
+      assert.strictEqual(getHedgedAttemptNumber(await promise), 1);
+    }
+
+    // The losing attempts were pending for 110ms, so duplicates are no longer sent after 10ms.
+    const next = sinon.spy(respondAfter(1000));
+    const promise = policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    await clock.tickAsync(100);
+    assert.strictEqual(next.callCount, 1);
+    await clock.tickAsync(10);
+    assert.strictEqual(next.callCount, 2);
+    await clock.runAllAsync();
+    await promise;
+  });
+
+  it("should only fail once every attempt has failed", async () => {
+    const request = createPipelineRequest({ url: "https://bing.com" });
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.onFirstCall().callsFake(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      throw new Error("first attempt failed");
+    });
+    next.onSecondCall().callsFake(respondAfter(100));
+    const policy = hedgingPolicy({ defaultHedgingDelayInMs: 100 });
+
+    const clock = sinon.useFakeTimers();
+    const promise = policy.sendRequest(request, next);
+    await clock.runAllAsync();
+    const response = await promise;
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(getHedgedAttemptNumber(response), 1);
+  });
+
+  it("should abort every attempt when the request is aborted", async () => {
+    const controller = new AbortController();
+    const request = createPipelineRequest({
+      url: "https://bing.com",
+      abortSignal: controller.signal,
+    });
+    const next = sinon.spy(respondAfter(1000));
+    const policy = hedgingPolicy({ defaultHedgingDelayInMs: 100 });
+
+    const clock = sinon.useFakeTimers();
+    const promise = policy.sendRequest(request, next);
+    await clock.tickAsync(150);
+    controller.abort();
+
+    await assert.isRejected(promise, AbortError);
+    assert.strictEqual(next.callCount, 2);
+  });
+
+  it("should not leave listeners on the request's abort signal", async () => {
+    const controller = new AbortController();
+    const addListener = sinon.spy(controller.signal, "addEventListener");
+    const removeListener = sinon.spy(controller.signal, "removeEventListener");
+    const request = createPipelineRequest({
+      url: "https://bing.com",
+      abortSignal: controller.signal,
+    });
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.onFirstCall().callsFake(respondAfter(1000));
+    next.onSecondCall().callsFake(respondAfter(10));
+    const policy = hedgingPolicy({ defaultHedgingDelayInMs: 100 });
+
+    const clock = sinon.useFakeTimers();
+    const promise = policy.sendRequest(request, next);
+    await clock.runAllAsync();
+    await promise;
+
+    assert.strictEqual(next.callCount, 2);
+    assert.strictEqual(addListener.callCount, 1);
+    assert.strictEqual(removeListener.callCount, 1);
+    assert.strictEqual(removeListener.firstCall.args[1], addListener.firstCall.args[1]);
+  });
+});
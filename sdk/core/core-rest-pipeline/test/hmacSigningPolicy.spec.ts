@@ -0,0 +1,227 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert, use as chaiUse } from "chai";
+import chaiPromises from "chai-as-promised";
+chaiUse(chaiPromises);
+import * as sinon from "sinon";
+import { createHash, createHmac } from "crypto";
+import {
+  PipelinePolicy,
+  PipelineRequest,
+  PipelineResponse,
+  SendRequest,
+  createHttpHeaders,
+  createPipelineRequest,
+  hmacSigningPolicy,
+} from "../src";
+
+const key = Buffer.from("secret key").toString("base64");
+
+function sign(stringToSign: string, signingKey: string = key): string {
+  return createHmac("sha256", Buffer.from(signingKey, "base64"))
+    .update(stringToSign)
+    .digest("base64");
+}
+
+describe("hmacSigningPolicy", function () {
+  let next: sinon.SinonStub<Parameters<SendRequest>, ReturnType<SendRequest>>;
+
+  beforeEach(function () {
+    sinon.useFakeTimers(new Date("2022-11-03T10:20:30Z"));
+    next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.callsFake(async (request: PipelineRequest): Promise<PipelineResponse> => {
+      return { headers: createHttpHeaders(), request, status: 200 };
+    });
+  });
+
+  afterEach(function () {
+    sinon.restore();
+  });
+
+  it("signs the method, path, query and selected headers", async function () {
+    const request = createPipelineRequest({
+      url: "https://example.azconfig.io/kv/key?api-version=1.0",
+      method: "PUT",
+      body: '{"value":"v"}',
+    });
+    const policy = hmacSigningPolicy({
+      credential: { key },
+      contentHashHeaderName: "x-ms-content-sha256",
+      stringToSign: [
+        "method",
+        "pathAndQuery",
+        { headers: ["x-ms-date", "host", "x-ms-content-sha256"], separator: ";" },
+      ],
+      formatAuthorization: (signature) => `HMAC-SHA256 Signature=${signature}`,
+    });
+
+    await policy.sendRequest(request, next);
+
+    const date = "Thu, 03 Nov 2022 10:20:30 GMT";
+    const contentHash = createHash("sha256").update('{"value":"v"}').digest("base64");
+    assert.strictEqual(request.headers.get("x-ms-date"), date);
+    assert.strictEqual(request.headers.get("x-ms-content-sha256"), contentHash);
+    assert.strictEqual(
+      request.headers.get("authorization"),
+      `HMAC-SHA256 Signature=${sign(
+        `PUT\n/kv/key?api-version=1.0\n${date};example.azconfig.io;${contentHash}`
+      )}`
+    );
+  });
+
+  it("canonicalizes headers with a prefix and the resource with its query parameters", async function () {
+    const request = createPipelineRequest({
+      url: "https://account.blob.core.windows.net/container/blob?comp=Metadata&Timeout=30&restype=x",
+      headers: createHttpHeaders({
+        "X-MS-Version": "2021-08-06",
+        "x-ms-meta-name": " value ",
+        "Content-Type": "text/plain",
+      }),
+    });
+    const policy = hmacSigningPolicy({
+      credential: { key },
+      dateHeaderName: "x-ms-date",
+      stringToSign: [
+        "method",
+        { headers: ["Content-Type", "Content-MD5"] },
+        { headerPrefix: "x-ms-" },
+        { resourcePrefix: "/account", queryParameters: ["comp", "timeout"] },
+      ],
+      formatAuthorization: (signature) => `SharedKey account:${signature}`,
+    });
+
+    await policy.sendRequest(request, next);
+
+    assert.strictEqual(
+      request.headers.get("authorization"),
+      `SharedKey account:${sign(
+        [
+          "GET",
+          "text/plain",
+          "",
+          "x-ms-date:Thu, 03 Nov 2022 10:20:30 GMT",
+          "x-ms-meta-name:value",
+          "x-ms-version:2021-08-06",
+          "/account/container/blob",
+          "comp:Metadata",
+          "timeout:30",
+        ].join("\n")
+      )}`
+    );
+  });
+
+  it("signs the lines returned by functions with the current key", async function () {
+    const credential = { key };
+    const policy = hmacSigningPolicy({
+      credential,
+      dateHeaderName: "date",
+      stringToSign: [{ headers: ["date"] }, (request) => new URL(request.url).pathname],
+      formatAuthorization: (signature) => signature,
+    });
+
+    const request = createPipelineRequest({ url: "https://example.com/path" });
+    await policy.sendRequest(request, next);
+    assert.strictEqual(
+      request.headers.get("authorization"),
+      sign("Thu, 03 Nov 2022 10:20:30 GMT\n/path")
+    );
+
+    credential.key = Buffer.from("rotated key").toString("base64");
+    const secondRequest = createPipelineRequest({ url: "https://example.com/path" });
+    await policy.sendRequest(secondRequest, next);
+    assert.strictEqual(
+      secondRequest.headers.get("authorization"),
+      sign("Thu, 03 Nov 2022 10:20:30 GMT\n/path", credential.key)
+    );
+  });
+
+  it("replaces an existing date header unless asked to keep it", async function () {
+    const existingDate = "Wed, 02 Nov 2022 08:00:00 GMT";
+    const createRequest = (): PipelineRequest =>
+      createPipelineRequest({
+        url: "https://example.com",
+        headers: createHttpHeaders({ "x-ms-date": existingDate }),
+      });
+    const createPolicy = (keepExistingDate?: boolean): PipelinePolicy =>
+      hmacSigningPolicy({
+        credential: { key },
+        keepExistingDate,
+        stringToSign: [{ headers: ["x-ms-date"] }],
+        formatAuthorization: (signature) => signature,
+      });
+
+    const replaced = createRequest();
+    await createPolicy().sendRequest(replaced, next);
+    assert.strictEqual(replaced.headers.get("x-ms-date"), "Thu, 03 Nov 2022 10:20:30 GMT");
+
+    const kept = createRequest();
+    await createPolicy(true).sendRequest(kept, next);
+    assert.strictEqual(kept.headers.get("x-ms-date"), existingDate);
+    assert.strictEqual(kept.headers.get("authorization"), sign(existingDate));
+  });
+
+  for (const { content, contentHash, signature } of [
+    {
+      content: "banana",
+      contentHash: "tJPUg2Sv5E0RwBZc9HCkFk0eJgmRHvmYvoaNRq3j3k4=",
+      signature: "88EC05aAS9iXnaimtNO78JLjiPtfWryQB/5QYEzEsu8=",
+    },
+    {
+      content: "😀",
+      contentHash: "8EQ6NCxe9UeDoRG1G6Vsk45HTDIyTZDDpgycjjo34tk=",
+      signature: "1rudJKjn2Zi+3hRrBG29wIF6pD6YyAeQR1ZcFtXoKAU=",
+    },
+  ]) {
+    it(`computes the known content hash and signature of "${content}"`, async function () {
+      const request = createPipelineRequest({ url: "https://example.com", body: content });
+      const policy = hmacSigningPolicy({
+        credential: { key: "pw==" },
+        contentHashHeaderName: "x-ms-content-sha256",
+        stringToSign: [() => content],
+        formatAuthorization: (computedSignature) => computedSignature,
+      });
+
+      await policy.sendRequest(request, next);
+
+      assert.strictEqual(request.headers.get("x-ms-content-sha256"), contentHash);
+      assert.strictEqual(request.headers.get("authorization"), signature);
+    });
+  }
+
+  it("hashes an empty content when there is no body", async function () {
+    const request = createPipelineRequest({ url: "https://example.com" });
+    const policy = hmacSigningPolicy({
+      credential: { key },
+      contentHashHeaderName: "x-ms-content-sha256",
+      stringToSign: ["method"],
+      formatAuthorization: (signature) => signature,
+    });
+
+    await policy.sendRequest(request, next);
+
+    assert.strictEqual(
+      request.headers.get("x-ms-content-sha256"),
+      "47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU="
+    );
+  });
+
+  it("rejects bodies whose content hash cannot be computed", async function () {
+    const request = createPipelineRequest({
+      url: "https://example.com",
+      body: new Uint8Array([1, 2, 3]),
+    });
+    const policy = hmacSigningPolicy({
+      credential: { key },
+      contentHashHeaderName: "x-ms-content-sha256",
+      stringToSign: ["method"],
+      formatAuthorization: (signature) => signature,
+    });
+
+    await assert.isRejected(
+      policy.sendRequest(request, next),
+      /can only compute the content hash of string bodies/
+    );
+    assert.isTrue(next.notCalled);
+  });
+});
@@ -0,0 +1,233 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert } from "chai";
+import * as sinon from "sinon";
+import {
+  PipelineRequest,
+  PipelineResponse,
+  RawHttpHeadersInput,
+  SendRequest,
+  createHttpHeaders,
+  createInMemoryHttpCache,
+  createPipelineRequest,
+  httpCachePolicy,
+} from "../src";
+
+describe("httpCachePolicy", function () {
+  afterEach(function () {
+    sinon.restore();
+  });
+
+  function createResponse(
+    request: PipelineRequest,
+    status: number,
+    headers: RawHttpHeadersInput = {},
+    bodyAsText?: string
+  ): PipelineResponse {
+    return { request, status, headers: createHttpHeaders(headers), bodyAsText };
+  }
+
+  it("should serve fresh responses from the cache", async () => {
+    const clock = sinon.useFakeTimers();
+    const policy = httpCachePolicy();
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.callsFake(async (request) =>
+      createResponse(request, 200, { "Cache-Control": "max-age=60" }, "cached")
+    );
+
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    const response = await policy.sendRequest(
+      createPipelineRequest({ url: "https://bing.com" }),
+      next
+    );
+    assert.strictEqual(next.callCount, 1);
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.bodyAsText, "cached");
+
+    await clock.tickAsync(60 * 1000);
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    assert.strictEqual(next.callCount, 2);
+  });
+
+  it("should revalidate with If-None-Match and serve the cached body on 304", async () => {
+    const policy = httpCachePolicy();
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next
+      .onFirstCall()
+      .callsFake(async (request) => createResponse(request, 200, { ETag: '"v1"' }, "body"));
+    next.onSecondCall().callsFake(async (request) => {
+      assert.strictEqual(request.headers.get("If-None-Match"), '"v1"');
+      return createResponse(request, 304, { ETag: '"v1"' });
+    });
+
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    const request = createPipelineRequest({ url: "https://bing.com" });
+    const response = await policy.sendRequest(request, next);
+
+    assert.strictEqual(next.callCount, 2);
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(response.bodyAsText, "body");
+    assert.isFalse(request.headers.has("If-None-Match"));
+  });
+
+  it("should revalidate with If-Modified-Since when there is no ETag", async () => {
+    const lastModified = "Wed, 21 Oct 2015 07:28:00 GMT";
+    const policy = httpCachePolicy();
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next
+      .onFirstCall()
+      .callsFake(async (request) =>
+        createResponse(request, 200, { "Last-Modified": lastModified }, "body")
+      );
+    next.onSecondCall().callsFake(async (request) => {
+      assert.strictEqual(request.headers.get("If-Modified-Since"), lastModified);
+      return createResponse(request, 200, { "Last-Modified": lastModified }, "new body");
+    });
+
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    const response = await policy.sendRequest(
+      createPipelineRequest({ url: "https://bing.com" }),
+      next
+    );
+
+    assert.strictEqual(response.bodyAsText, "new body");
+  });
+
+  it("should not cache responses with no-store", async () => {
+    const policy = httpCachePolicy();
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.callsFake(async (request) =>
+      createResponse(request, 200, { "Cache-Control": "no-store", ETag: '"v1"' }, "body")
+    );
+
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+
+    assert.strictEqual(next.callCount, 2);
+    assert.isFalse(next.secondCall.args[0].headers.has("If-None-Match"));
+  });
+
+  it("should not cache responses with private", async () => {
+    const policy = httpCachePolicy();
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.callsFake(async (request) =>
+      createResponse(request, 200, { "Cache-Control": "private, max-age=60" }, "body")
+    );
+
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+
+    assert.strictEqual(next.callCount, 2);
+  });
+
+  it("should only cache authorized responses marked public", async () => {
+    const policy = httpCachePolicy();
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.callsFake(async (request) => {
+      // Simulates a policy of the Sign phase, which runs after the cache policy.
+      request.headers.set("Authorization", "Bearer token");
+      const cacheControl = request.url.endsWith("public") ? "public, max-age=60" : "max-age=60";
+      return createResponse(request, 200, { "Cache-Control": cacheControl }, "body");
+    });
+
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com/private" }), next);
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com/private" }), next);
+    assert.strictEqual(next.callCount, 2);
+
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com/public" }), next);
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com/public" }), next);
+    assert.strictEqual(next.callCount, 3);
+  });
+
+  it("should cache authorized responses separately for each credential", async () => {
+    const cache = createInMemoryHttpCache();
+    const policy = httpCachePolicy({ cache });
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.callsFake(async (request) =>
+      createResponse(
+        request,
+        200,
+        { "Cache-Control": "private, max-age=60" },
+        `body for ${request.headers.get("Authorization")}`
+      )
+    );
+    const createAuthorizedRequest = (authorization: string): PipelineRequest => {
+      const request = createPipelineRequest({ url: "https://bing.com" });
+      request.headers.set("Authorization", authorization);
+      return request;
+    };
+
+    await policy.sendRequest(createAuthorizedRequest("Bearer first"), next);
+    const cached = await policy.sendRequest(createAuthorizedRequest("Bearer first"), next);
+    assert.strictEqual(next.callCount, 1);
+    assert.strictEqual(cached.bodyAsText, "body for Bearer first");
+
+    const other = await policy.sendRequest(createAuthorizedRequest("Bearer second"), next);
+    assert.strictEqual(next.callCount, 2);
+    assert.strictEqual(other.bodyAsText, "body for Bearer second");
+    assert.isUndefined(await cache.get("https://bing.com"));
+  });
+
+  it("should cache authorized responses under the credentialId", async () => {
+    const policy = httpCachePolicy({ credentialId: "client" });
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.callsFake(async (request) => {
+      // Simulates a policy of the Sign phase, which runs after the cache policy.
+      request.headers.set("Authorization", "Bearer token");
+      return createResponse(request, 200, { "Cache-Control": "max-age=60" }, "body");
+    });
+
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    await policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    assert.strictEqual(next.callCount, 1);
+  });
+
+  it("should not cache responses of other methods", async () => {
+    const policy = httpCachePolicy();
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.callsFake(async (request) =>
+      createResponse(request, 200, { "Cache-Control": "max-age=60" }, "body")
+    );
+
+    await policy.sendRequest(
+      createPipelineRequest({ url: "https://bing.com", method: "PUT" }),
+      next
+    );
+    await policy.sendRequest(
+      createPipelineRequest({ url: "https://bing.com", method: "PUT" }),
+      next
+    );
+
+    assert.strictEqual(next.callCount, 2);
+  });
+
+  it("should only serve entries matching the Vary request headers", async () => {
+    const policy = httpCachePolicy();
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.callsFake(async (request) =>
+      createResponse(request, 200, { "Cache-Control": "max-age=60", Vary: "Accept" }, "body")
+    );
+
+    const createRequest = (accept: string): PipelineRequest =>
+      createPipelineRequest({ url: "https://bing.com", headers: createHttpHeaders({ accept }) });
+    await policy.sendRequest(createRequest("application/json"), next);
+    await policy.sendRequest(createRequest("application/json"), next);
+    await policy.sendRequest(createRequest("application/xml"), next);
+
+    assert.strictEqual(next.callCount, 2);
+  });
+
+  it("should evict the least recently used entries from the in-memory cache", async () => {
+    const cache = createInMemoryHttpCache({ maxEntries: 2 });
+    const entry = { status: 200, headers: {}, storedOnTimestamp: 0 };
+    await cache.set("a", entry);
+    await cache.set("b", entry);
+    await cache.get("a");
+    await cache.set("c", entry);
+
+    assert.isDefined(await cache.get("a"));
+    assert.isUndefined(await cache.get("b"));
+    assert.isDefined(await cache.get("c"));
+  });
+});
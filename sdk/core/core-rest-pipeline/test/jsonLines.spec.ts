@@ -0,0 +1,120 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert, use as chaiUse } from "chai";
+import chaiPromises from "chai-as-promised";
+chaiUse(chaiPromises);
+import {
+  PipelineResponse,
+  createHttpHeaders,
+  createJsonLinesIterator,
+  createPipelineRequest,
+} from "../src";
+import { AbortController, AbortError } from "@azure/abort-controller";
+
+describe("createJsonLinesIterator", function () {
+  function createResponse(body: Partial<PipelineResponse>): PipelineResponse {
+    return {
+      request: createPipelineRequest({ url: "https://bing.com" }),
+      status: 200,
+      headers: createHttpHeaders(),
+      ...body,
+    };
+  }
+
+  interface TestStream {
+    stream: ReadableStream<Uint8Array>;
+    isCancelled: () => boolean;
+  }
+
+  /**
+   * Creates a stream of the given chunks, which is only closed if `close` is true.
+   */
+  function createBrowserStream(chunks: Array<string | Uint8Array>, close = true): TestStream {
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+        }
+        if (close) {
+          controller.close();
+        }
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    return { stream, isCancelled: () => cancelled };
+  }
+
+  async function collect<T>(iterator: AsyncIterableIterator<T>): Promise<T[]> {
+    const values: T[] = [];
+    for await (const value of iterator) {
+      values.push(value);
+    }
+    return values;
+  }
+
+  it("should parse NDJSON values split across chunks of a browser stream", async function () {
+    const encoded = new TextEncoder().encode('{"a":1}\r\n{"b":"é"}\n\n{"c":3}');
+    // Split in the middle of a value and of a multi-byte character.
+    const chunks = [encoded.subarray(0, 4), encoded.subarray(4, 16), encoded.subarray(16)];
+    const response = createResponse({ browserStreamBody: createBrowserStream(chunks).stream });
+
+    assert.deepEqual(await collect(createJsonLinesIterator(response)), [
+      { a: 1 },
+      { b: "é" },
+      { c: 3 },
+    ]);
+  });
+
+  it("should parse JSON text sequences from a browser stream", async function () {
+    const chunks = ['\x1e{"a":1}\n\x1e[1,', '2]\n\x1e"text"\n'];
+    const response = createResponse({ browserStreamBody: createBrowserStream(chunks).stream });
+
+    assert.deepEqual(await collect(createJsonLinesIterator(response, { format: "json-seq" })), [
+      { a: 1 },
+      [1, 2],
+      "text",
+    ]);
+  });
+
+  it("should parse a body that was already read as text", async function () {
+    const response = createResponse({ bodyAsText: "1\n2\n" });
+    assert.deepEqual(await collect(createJsonLinesIterator(response)), [1, 2]);
+  });
+
+  it("should cancel the browser stream when the iteration is stopped early", async function () {
+    const { stream, isCancelled } = createBrowserStream(['{"a":1}\n{"b":2}\n'], false);
+    const iterator = createJsonLinesIterator(createResponse({ browserStreamBody: stream }));
+
+    assert.deepEqual(await iterator.next(), { done: false, value: { a: 1 } });
+    await iterator.return!();
+    assert.isTrue(isCancelled());
+  });
+
+  it("should stop reading the browser stream when aborted", async function () {
+    const { stream, isCancelled } = createBrowserStream([], false);
+    const controller = new AbortController();
+    const iterator = createJsonLinesIterator(createResponse({ browserStreamBody: stream }), {
+      abortSignal: controller.signal,
+    });
+
+    const next = iterator.next();
+    controller.abort();
+    await assert.isRejected(next, AbortError);
+    assert.isTrue(isCancelled());
+  });
+
+  it("should throw a RestError for invalid values", async function () {
+    const response = createResponse({
+      browserStreamBody: createBrowserStream(['{"a":1}\n{oops}\n']).stream,
+    });
+    const iterator = createJsonLinesIterator(response);
+
+    assert.deepEqual(await iterator.next(), { done: false, value: { a: 1 } });
+    await assert.isRejected(iterator.next(), /Error parsing a value/);
+  });
+});
@@ -0,0 +1,158 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert, use as chaiUse } from "chai";
+import chaiPromises from "chai-as-promised";
+chaiUse(chaiPromises);
+import * as sinon from "sinon";
+import {
+  PipelineRequest,
+  PipelineResponse,
+  RestError,
+  SendRequest,
+  createHttpHeaders,
+  createPipelineFromOptions,
+  createPipelineRequest,
+  metricsPolicy,
+} from "../src";
+import {
+  MetricAttributes,
+  MetricCounter,
+  MetricHistogram,
+  MetricsInstrumenter,
+  createTracingClient,
+  useMetricsInstrumenter,
+} from "@azure/core-tracing";
+
+interface RecordedValue {
+  name: string;
+  value: number;
+  attributes?: MetricAttributes;
+}
+
+class MockMetricsInstrumenter implements MetricsInstrumenter {
+  values: RecordedValue[] = [];
+
+  createCounter(name: string): MetricCounter {
+    return {
+      add: (value, attributes) => this.values.push({ name, value, attributes }),
+    };
+  }
+
+  createHistogram(name: string): MetricHistogram {
+    return {
+      record: (value, attributes) => this.values.push({ name, value, attributes }),
+    };
+  }
+
+  getValues(name: string): RecordedValue[] {
+    return this.values.filter((recorded) => recorded.name === name);
+  }
+}
+
+describe("metricsPolicy", function () {
+  let instrumenter: MockMetricsInstrumenter;
+
+  beforeEach(function () {
+    instrumenter = new MockMetricsInstrumenter();
+    useMetricsInstrumenter(instrumenter);
+  });
+
+  afterEach(function () {
+    useMetricsInstrumenter(new MockMetricsInstrumenter());
+    sinon.restore();
+  });
+
+  function respondWith(status: number, bodyAsText?: string): SendRequest {
+    return async (request: PipelineRequest): Promise<PipelineResponse> => ({
+      headers: createHttpHeaders(),
+      request,
+      status,
+      bodyAsText,
+    });
+  }
+
+  it("should record the duration and body sizes of a request", async () => {
+    const clock = sinon.useFakeTimers();
+    const policy = metricsPolicy();
+    const request = createPipelineRequest({
+      url: "https://bing.com/path",
+      method: "PUT",
+      body: "payload",
+    });
+    await policy.sendRequest(request, async (req) => {
+      clock.tick(25);
+      return respondWith(201, "résumé")(req);
+    });
+
+    const [duration] = instrumenter.getValues("http.client.duration");
+    assert.strictEqual(duration.value, 25);
+    assert.deepEqual(duration.attributes, {
+      "http.method": "PUT",
+      "http.status_code": 201,
+      "net.peer.name": "bing.com",
+    });
+    assert.strictEqual(instrumenter.getValues("http.client.request.size")[0].value, 7);
+    assert.strictEqual(instrumenter.getValues("http.client.response.size")[0].value, 8);
+    assert.isEmpty(instrumenter.getValues("http.client.retries"));
+  });
+
+  it("should count the retries of a request", async () => {
+    const policy = metricsPolicy();
+    const request = createPipelineRequest({ url: "https://bing.com" });
+    await policy.sendRequest(request, respondWith(503));
+    await policy.sendRequest(request, respondWith(200));
+
+    const retries = instrumenter.getValues("http.client.retries");
+    assert.lengthOf(retries, 1);
+    assert.strictEqual(retries[0].value, 1);
+    assert.strictEqual(retries[0].attributes?.["http.resend_count"], 1);
+    assert.lengthOf(instrumenter.getValues("http.client.duration"), 2);
+  });
+
+  it("should record failed requests with the status of their response", async () => {
+    const policy = metricsPolicy();
+    const request = createPipelineRequest({ url: "https://bing.com" });
+    const error = new RestError("Bad request", {
+      statusCode: 400,
+      response: { headers: createHttpHeaders(), request, status: 400 },
+    });
+
+    await assert.isRejected(
+      policy.sendRequest(request, () => Promise.reject(error)),
+      /Bad request/
+    );
+    const [duration] = instrumenter.getValues("http.client.duration");
+    assert.strictEqual(duration.attributes?.["http.status_code"], 400);
+  });
+
+  it("should use the namespace of the operation", async () => {
+    const tracingClient = createTracingClient({
+      namespace: "Microsoft.Test",
+      packageName: "test",
+    });
+    const policy = metricsPolicy();
+    await tracingClient.withSpan("test", { tracingOptions: {} }, (updatedOptions) =>
+      policy.sendRequest(
+        createPipelineRequest({
+          url: "https://bing.com",
+          tracingOptions: updatedOptions.tracingOptions,
+        }),
+        respondWith(200)
+      )
+    );
+
+    const [duration] = instrumenter.getValues("http.client.duration");
+    assert.strictEqual(duration.attributes?.["az.namespace"], "Microsoft.Test");
+  });
+
+  it("should only be added to the pipeline when metrics are enabled", () => {
+    const getPolicyNames = (enableMetrics?: boolean): string[] =>
+      createPipelineFromOptions({ enableMetrics })
+        .getOrderedPolicies()
+        .map((policy) => policy.name);
+
+    assert.notInclude(getPolicyNames(), "metricsPolicy");
+    assert.include(getPolicyNames(true), "metricsPolicy");
+  });
+});
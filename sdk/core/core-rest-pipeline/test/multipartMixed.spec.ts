@@ -0,0 +1,229 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert } from "chai";
+import {
+  MultipartMixedBody,
+  MultipartMixedChangesetResponsePart,
+  MultipartMixedHttpResponsePart,
+  PipelineResponse,
+  RestError,
+  createHttpHeaders,
+  createPipelineRequest,
+  getMultipartMixedContentType,
+  parseMultipartMixedResponse,
+  serializeMultipartMixedBody,
+} from "../src";
+
+describe("multipart/mixed", function () {
+  function createBatchResponse(contentType: string, lines: string[]): PipelineResponse {
+    return {
+      request: createPipelineRequest({ url: "https://example.org/$batch", method: "POST" }),
+      status: 202,
+      headers: createHttpHeaders({ "Content-Type": contentType }),
+      bodyAsText: lines.join("\r\n"),
+    };
+  }
+
+  it("should serialize nested requests and changesets", function () {
+    const body: MultipartMixedBody = {
+      boundary: "batch_1",
+      parts: [
+        {
+          headers: { "Content-ID": "0" },
+          request: createPipelineRequest({
+            url: "https://example.org/container/blob?comp=tier",
+            method: "PUT",
+            headers: createHttpHeaders({ "x-ms-access-tier": "Cool" }),
+          }),
+        },
+        {
+          changeset: {
+            boundary: "changeset_2",
+            parts: [
+              {
+                request: createPipelineRequest({
+                  url: "https://example.org/Table",
+                  method: "POST",
+                  headers: createHttpHeaders({ "Content-Type": "application/json" }),
+                  body: '{"PartitionKey":"p"}',
+                }),
+              },
+            ],
+          },
+        },
+      ],
+    };
+
+    assert.strictEqual(getMultipartMixedContentType(body), "multipart/mixed; boundary=batch_1");
+    assert.strictEqual(
+      serializeMultipartMixedBody(body, { useRelativeUrls: true }),
+      [
+        "--batch_1",
+        "Content-Type: application/http",
+        "Content-Transfer-Encoding: binary",
+        "Content-ID: 0",
+        "",
+        "PUT /container/blob?comp=tier HTTP/1.1",
+        "x-ms-access-tier: Cool",
+        "",
+        "--batch_1",
+        "Content-Type: multipart/mixed; boundary=changeset_2",
+        "",
+        "--changeset_2",
+        "Content-Type: application/http",
+        "Content-Transfer-Encoding: binary",
+        "",
+        "POST /Table HTTP/1.1",
+        "Content-Type: application/json",
+        "",
+        '{"PartitionKey":"p"}',
+        "--changeset_2--",
+        "",
+        "--batch_1--",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("should serialize absolute URLs by default", function () {
+    const text = serializeMultipartMixedBody({
+      boundary: "b",
+      parts: [{ request: createPipelineRequest({ url: "https://example.org/a?b=c" }) }],
+    });
+    assert.include(text, "\r\nGET https://example.org/a?b=c HTTP/1.1\r\n");
+  });
+
+  it("should reject nested requests with a non-string body", function () {
+    assert.throws(
+      () =>
+        serializeMultipartMixedBody({
+          boundary: "b",
+          parts: [
+            {
+              request: createPipelineRequest({
+                url: "https://example.org",
+                body: new ArrayBuffer(1),
+              }),
+            },
+          ],
+        }),
+      /string body/
+    );
+  });
+
+  it("should parse nested responses and associate them with their requests", function () {
+    const first = createPipelineRequest({ url: "https://example.org/first", method: "DELETE" });
+    const second = createPipelineRequest({ url: "https://example.org/second", method: "DELETE" });
+    const body: MultipartMixedBody = {
+      boundary: "batch_1",
+      parts: [
+        { headers: { "Content-ID": "0" }, request: first },
+        { headers: { "Content-ID": "1" }, request: second },
+      ],
+    };
+    const response = createBatchResponse("multipart/mixed; boundary=batchresponse_1", [
+      "--batchresponse_1",
+      "Content-Type: application/http",
+      "Content-ID: 1",
+      "",
+      "HTTP/1.1 404 The specified blob does not exist.",
+      "x-ms-error-code: BlobNotFound",
+      "Content-Type: application/xml",
+      "",
+      "<Error><Code>BlobNotFound</Code></Error>",
+      "--batchresponse_1",
+      "Content-Type: application/http",
+      "Content-ID: 0",
+      "",
+      "HTTP/1.1 202 Accepted",
+      "x-ms-request-id: 42",
+      "",
+      "--batchresponse_1--",
+      "",
+    ]);
+
+    const parts = parseMultipartMixedResponse(response, body) as MultipartMixedHttpResponsePart[];
+    assert.lengthOf(parts, 2);
+
+    assert.strictEqual(parts[0].headers.get("content-id"), "1");
+    assert.strictEqual(parts[0].response.request, second);
+    assert.strictEqual(parts[0].response.status, 404);
+    assert.strictEqual(parts[0].response.headers.get("x-ms-error-code"), "BlobNotFound");
+    assert.strictEqual(parts[0].response.bodyAsText, "<Error><Code>BlobNotFound</Code></Error>");
+
+    assert.strictEqual(parts[1].response.request, first);
+    assert.strictEqual(parts[1].response.status, 202);
+    assert.strictEqual(parts[1].response.headers.get("x-ms-request-id"), "42");
+    assert.isUndefined(parts[1].response.bodyAsText);
+  });
+
+  it("should parse nested changesets", function () {
+    const response = createBatchResponse('multipart/mixed; boundary="batchresponse_1"', [
+      "--batchresponse_1",
+      "Content-Type: multipart/mixed; boundary=changesetresponse_2",
+      "",
+      "--changesetresponse_2",
+      "Content-Type: application/http",
+      "Content-Transfer-Encoding: binary",
+      "",
+      "HTTP/1.1 204 No Content",
+      "DataServiceVersion: 3.0;",
+      "",
+      "",
+      "--changesetresponse_2",
+      "Content-Type: application/http",
+      "Content-Transfer-Encoding: binary",
+      "",
+      "HTTP/1.1 201 Created",
+      "Content-Type: application/json",
+      "",
+      '{"PartitionKey":"p"}',
+      "--changesetresponse_2--",
+      "--batchresponse_1--",
+      "",
+    ]);
+
+    const parts = parseMultipartMixedResponse(response);
+    assert.lengthOf(parts, 1);
+    const changeset = (parts[0] as MultipartMixedChangesetResponsePart).changeset.map(
+      (part) => (part as MultipartMixedHttpResponsePart).response
+    );
+    assert.deepEqual(
+      changeset.map(({ status, bodyAsText }) => ({ status, bodyAsText })),
+      [
+        { status: 204, bodyAsText: undefined },
+        { status: 201, bodyAsText: '{"PartitionKey":"p"}' },
+      ]
+    );
+    assert.strictEqual(changeset[0].headers.get("DataServiceVersion"), "3.0;");
+    assert.strictEqual(changeset[1].request, response.request);
+  });
+
+  it("should throw a RestError when the response is not multipart/mixed", function () {
+    const response = createBatchResponse("application/json", ["{}"]);
+    assert.throws(
+      () => parseMultipartMixedResponse(response),
+      RestError,
+      /Expected a multipart\/mixed response/
+    );
+  });
+
+  it("should throw a RestError when a nested response is malformed", function () {
+    const response = createBatchResponse("multipart/mixed; boundary=b", [
+      "--b",
+      "Content-Type: application/http",
+      "",
+      "not a status line",
+      "--b--",
+    ]);
+    try {
+      parseMultipartMixedResponse(response);
+      assert.fail("Expected an error");
+    } catch (e: any) {
+      assert.instanceOf(e, RestError);
+      assert.strictEqual(e.code, RestError.PARSE_ERROR);
+      assert.match(e.message, /Invalid status line/);
+    }
+  });
+});
@@ -0,0 +1,81 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert, use as chaiUse } from "chai";
+import chaiPromises from "chai-as-promised";
+chaiUse(chaiPromises);
+import { PassThrough, Readable } from "stream";
+import {
+  PipelineResponse,
+  createHttpHeaders,
+  createJsonLinesIterator,
+  createPipelineRequest,
+} from "../../src";
+import { AbortController, AbortError } from "@azure/abort-controller";
+
+describe("createJsonLinesIterator with Node.js streams", function () {
+  function createResponse(body: Partial<PipelineResponse>): PipelineResponse {
+    return {
+      request: createPipelineRequest({ url: "https://bing.com" }),
+      status: 200,
+      headers: createHttpHeaders(),
+      ...body,
+    };
+  }
+
+  async function collect<T>(iterator: AsyncIterableIterator<T>): Promise<T[]> {
+    const values: T[] = [];
+    for await (const value of iterator) {
+      values.push(value);
+    }
+    return values;
+  }
+
+  it("should parse NDJSON values split across chunks of a Node.js stream", async function () {
+    const encoded = Buffer.from('{"a":1}\r\n{"b":"é"}\n\n{"c":3}');
+    // Split in the middle of a value and of a multi-byte character.
+    const chunks = [encoded.subarray(0, 4), encoded.subarray(4, 16), encoded.subarray(16)];
+    const response = createResponse({ readableStreamBody: Readable.from(chunks) });
+
+    assert.deepEqual(await collect(createJsonLinesIterator(response)), [
+      { a: 1 },
+      { b: "é" },
+      { c: 3 },
+    ]);
+  });
+
+  it("should only read the stream as values are requested", async function () {
+    const stream = new PassThrough();
+    const iterator = createJsonLinesIterator(createResponse({ readableStreamBody: stream }));
+
+    stream.write('{"a":1}\n{"b"');
+    assert.deepEqual(await iterator.next(), { done: false, value: { a: 1 } });
+    const next = iterator.next();
+    stream.write(":2}\n");
+    assert.deepEqual(await next, { done: false, value: { b: 2 } });
+
+    await iterator.return!();
+    assert.isTrue(stream.destroyed);
+  });
+
+  it("should stop reading when aborted", async function () {
+    const stream = new PassThrough();
+    const controller = new AbortController();
+    const iterator = createJsonLinesIterator(createResponse({ readableStreamBody: stream }), {
+      abortSignal: controller.signal,
+    });
+
+    const next = iterator.next();
+    controller.abort();
+    await assert.isRejected(next, AbortError);
+    assert.isTrue(stream.destroyed);
+  });
+
+  it("should throw a RestError for invalid values", async function () {
+    const response = createResponse({ readableStreamBody: Readable.from(['{"a":1}\n{oops}\n']) });
+    const iterator = createJsonLinesIterator(response);
+
+    assert.deepEqual(await iterator.next(), { done: false, value: { a: 1 } });
+    await assert.isRejected(iterator.next(), /Error parsing a value/);
+  });
+});
@@ -2,7 +2,13 @@
 // Licensed under the MIT license.
 
 import { assert } from "chai";
-import { PipelineResponse, RestError, createHttpHeaders, createPipelineRequest } from "../../src";
+import {
+  PipelineResponse,
+  RestError,
+  createHttpHeaders,
+  createPipelineRequest,
+  setRedactionRules,
+} from "../../src";
 import { inspect } from "util";
 
 describe("RestError", function () {
@@ -28,4 +34,52 @@ describe("RestError", function () {
     assert.notInclude(result, "SUPER DUPER SECRET");
     assert.include(result, "REDACTED");
   });
+
+  describe("with redaction rules", function () {
+    afterEach(function () {
+      setRedactionRules({});
+    });
+
+    it("redacts the same values when inspected and serialized to JSON", function () {
+      setRedactionRules({ jsonPaths: ["keys.value"] });
+      const request = createPipelineRequest({
+        url: "https://account.blob.core.windows.net/container?restype=container&sig=SASSIGNATURE",
+      });
+      const bodyAsText = JSON.stringify({ keys: [{ keyName: "key1", value: "ACCOUNTKEY" }] });
+      const response: PipelineResponse = {
+        headers: createHttpHeaders({ "x-ms-request-id": "request-id" }),
+        request,
+        status: 400,
+        bodyAsText,
+      };
+      const error = new RestError("Request to ?sig=SASSIGNATURE failed", {
+        request,
+        response,
+        statusCode: response.status,
+      });
+      error.details = JSON.parse(bodyAsText);
+
+      const json = JSON.stringify(error);
+      const inspected = inspect(error, false, 8);
+      for (const result of [json, inspected]) {
+        assert.notInclude(result, "SASSIGNATURE");
+        assert.notInclude(result, "ACCOUNTKEY");
+        assert.include(result, "request-id");
+      }
+
+      const parsed = JSON.parse(json);
+      assert.strictEqual(parsed.name, "RestError");
+      assert.strictEqual(parsed.message, "Request to ?sig=REDACTED failed");
+      assert.strictEqual(parsed.statusCode, 400);
+      assert.strictEqual(
+        parsed.request.url,
+        "https://account.blob.core.windows.net/container?restype=REDACTED&sig=REDACTED"
+      );
+      assert.deepEqual(parsed.details, { keys: [{ keyName: "key1", value: "REDACTED" }] });
+      assert.deepEqual(parsed.response, {
+        status: 400,
+        headers: { "x-ms-request-id": "request-id" },
+      });
+    });
+  });
 });
@@ -0,0 +1,144 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { assert, use as chaiUse } from "chai";
+import chaiPromises from "chai-as-promised";
+chaiUse(chaiPromises);
+import * as sinon from "sinon";
+import {
+  PipelineRequest,
+  PipelineResponse,
+  SendRequest,
+  createHttpHeaders,
+  createPipelineRequest,
+  rateLimitPolicy,
+} from "../src";
+import { AbortController, AbortError } from "@azure/abort-controller";
+
+describe("rateLimitPolicy", function () {
+  afterEach(function () {
+    sinon.restore();
+  });
+
+  function respondAfter(delayInMs: number): SendRequest {
+    return (request: PipelineRequest) =>
+      new Promise<PipelineResponse>((resolve) =>
+        setTimeout(() => resolve({ headers: createHttpHeaders(), request, status: 200 }), delayInMs)
+      );
+  }
+
+  it("should queue requests exceeding the rate until tokens are available", async () => {
+    const policy = rateLimitPolicy({ requestsPerSecond: 2 });
+    const next = sinon.spy(respondAfter(0));
+
+    const clock = sinon.useFakeTimers();
+    const promises = [1, 2, 3, 4].map(() =>
+      policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next)
+    );
+    await clock.tickAsync(0);
+    assert.strictEqual(next.callCount, 2);
+
+    await clock.tickAsync(500);
+    assert.strictEqual(next.callCount, 3);
+    await clock.tickAsync(500);
+    assert.strictEqual(next.callCount, 4);
+    await clock.runAllAsync();
+    await Promise.all(promises);
+  });
+
+  it("should limit the number of requests in flight", async () => {
+    const policy = rateLimitPolicy({ maxConcurrentRequests: 1 });
+    const next = sinon.spy(respondAfter(100));
+
+    const clock = sinon.useFakeTimers();
+    const promises = [1, 2].map(() =>
+      policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next)
+    );
+    await clock.tickAsync(0);
+    assert.strictEqual(next.callCount, 1);
+
+    await clock.tickAsync(100);
+    assert.strictEqual(next.callCount, 2);
+    await clock.tickAsync(100);
+    await Promise.all(promises);
+  });
+
+  it("should limit each host separately when perHost is set", async () => {
+    const policy = rateLimitPolicy({ requestsPerSecond: 1, perHost: true });
+    const next = sinon.spy(respondAfter(0));
+
+    const clock = sinon.useFakeTimers();
+    const promises = ["https://a.bing.com", "https://b.bing.com", "https://a.bing.com"].map((url) =>
+      policy.sendRequest(createPipelineRequest({ url }), next)
+    );
+    await clock.tickAsync(0);
+    assert.strictEqual(next.callCount, 2);
+
+    await clock.tickAsync(1000);
+    assert.strictEqual(next.callCount, 3);
+    await clock.runAllAsync();
+    await Promise.all(promises);
+  });
+
+  it("should keep the limits of hosts whose bucket isn't full when removing idle hosts", async () => {
+    const policy = rateLimitPolicy({ requestsPerSecond: 1, perHost: true });
+    const next = sinon.spy(respondAfter(0));
+
+    const clock = sinon.useFakeTimers();
+    const first = policy.sendRequest(createPipelineRequest({ url: "https://a.bing.com" }), next);
+    await clock.tickAsync(500);
+    await first;
+    const second = policy.sendRequest(createPipelineRequest({ url: "https://b.bing.com" }), next);
+    const third = policy.sendRequest(createPipelineRequest({ url: "https://a.bing.com" }), next);
+    await clock.tickAsync(0);
+    assert.strictEqual(next.callCount, 2);
+
+    await clock.tickAsync(500);
+    assert.strictEqual(next.callCount, 3);
+    await clock.runAllAsync();
+    await Promise.all([second, third]);
+  });
+
+  it("should allow at least one request at a time with less than one request per second", async () => {
+    const policy = rateLimitPolicy({ requestsPerSecond: 0.5 });
+    const next = sinon.spy(respondAfter(0));
+
+    const clock = sinon.useFakeTimers();
+    const promises = [1, 2].map(() =>
+      policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next)
+    );
+    await clock.tickAsync(0);
+    assert.strictEqual(next.callCount, 1);
+    await clock.tickAsync(2000);
+    assert.strictEqual(next.callCount, 2);
+    await clock.runAllAsync();
+    await Promise.all(promises);
+  });
+
+  it("should reject invalid limits", function () {
+    assert.throws(() => rateLimitPolicy({ requestsPerSecond: 0 }), /requestsPerSecond/);
+    assert.throws(() => rateLimitPolicy({ requestsPerSecond: 10, burstSize: 0.5 }), /burstSize/);
+    assert.throws(() => rateLimitPolicy({ maxConcurrentRequests: 0 }), /maxConcurrentRequests/);
+  });
+
+  it("should reject queued requests when they are aborted", async () => {
+    const policy = rateLimitPolicy({ maxConcurrentRequests: 1 });
+    const next = sinon.spy(respondAfter(100));
+    const controller = new AbortController();
+
+    const clock = sinon.useFakeTimers();
+    const first = policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    const second = policy.sendRequest(
+      createPipelineRequest({ url: "https://bing.com", abortSignal: controller.signal }),
+      next
+    );
+    const third = policy.sendRequest(createPipelineRequest({ url: "https://bing.com" }), next);
+    controller.abort();
+
+    await assert.isRejected(second, AbortError);
+    await clock.tickAsync(100);
+    assert.strictEqual(next.callCount, 2);
+    await clock.tickAsync(100);
+    await Promise.all([first, third]);
+  });
+});
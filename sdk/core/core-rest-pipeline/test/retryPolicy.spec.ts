@@ -9,7 +9,7 @@ import {
   createPipelineRequest,
   retryPolicy,
 } from "../src";
-import { AbortController } from "@azure/abort-controller";
+import { AbortController, OperationBudget } from "@azure/abort-controller";
 import { DEFAULT_RETRY_POLICY_COUNT } from "../src/constants";
 import { assert } from "chai";
 import { makeTestLogger } from "./util";
@@ -140,6 +140,45 @@ describe("retryPolicy", function () {
     assert.isTrue(catchCalled);
   });
 
+  it("It should give up when the deadline of the request would be exceeded", async () => {
+    const clock = sinon.useFakeTimers();
+    const request = createPipelineRequest({
+      url: "https://bing.com",
+      abortSignal: new OperationBudget({ timeoutInMs: 250 }).signal,
+    });
+    const testError = new RestError("Test Error!", { code: "ENOENT" });
+
+    const policy = retryPolicy(
+      [
+        {
+          name: "testRetryStrategy",
+          retry() {
+            return {
+              retryAfterInMs: 100,
+            };
+          },
+        },
+      ],
+      {
+        maxRetries: 10,
+      }
+    );
+
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.rejects(testError);
+
+    let catchCalled = false;
+    const promise = policy.sendRequest(request, next);
+    promise.catch((e) => {
+      catchCalled = true;
+      assert.strictEqual(e, testError);
+    });
+    await clock.runAllAsync();
+    // the third retry would have been sent after the deadline
+    assert.strictEqual(next.callCount, 3);
+    assert.isTrue(catchCalled);
+  });
+
   it("It should allow redirecting on the next retry", async () => {
     const request = createPipelineRequest({
       url: "https://bing.com",
@@ -13,7 +13,7 @@ import {
   createPipelineRequest,
   throttlingRetryPolicy,
 } from "../src";
-import { AbortController } from "@azure/abort-controller";
+import { AbortController, OperationBudget } from "@azure/abort-controller";
 import { DEFAULT_RETRY_POLICY_COUNT } from "../src/constants";
 
 describe("throttlingRetryPolicy", function () {
@@ -273,9 +273,11 @@ describe("throttlingRetryPolicy", function () {
   });
 
   it("throttlingRetryPolicy should honor abort signal", async () => {
+    const abortController = new AbortController();
+    setTimeout(() => abortController.abort(), 100); // test should end at 100ms
     const request = createPipelineRequest({
       url: "https://bing.com",
-      abortSignal: AbortController.timeout(100), // test should end at 100ms
+      abortSignal: abortController.signal,
     });
     const retryResponse: PipelineResponse = {
       headers: createHttpHeaders({
@@ -304,4 +306,25 @@ describe("throttlingRetryPolicy", function () {
     assert.isTrue(next.calledOnce);
     assert.isFalse(next.calledTwice);
   });
+
+  it("throttlingRetryPolicy should return the response when the deadline would be exceeded", async () => {
+    const request = createPipelineRequest({
+      url: "https://bing.com",
+      abortSignal: new OperationBudget({ timeoutInMs: 100 }).signal,
+    });
+    const retryResponse: PipelineResponse = {
+      headers: createHttpHeaders({
+        "Retry-After": "10000", // 10000 seconds - a large duration
+      }),
+      request,
+      status: 429,
+    };
+
+    const policy = throttlingRetryPolicy();
+    const next = sinon.stub<Parameters<SendRequest>, ReturnType<SendRequest>>();
+    next.resolves(retryResponse);
+
+    assert.strictEqual(await policy.sendRequest(request, next), retryResponse);
+    assert.isTrue(next.calledOnce);
+  });
 });
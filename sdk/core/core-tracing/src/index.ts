@@ -4,6 +4,14 @@
 export {
   Instrumenter,
   InstrumenterSpanOptions,
+  MetricAttributes,
+  MetricCounter,
+  MetricHistogram,
+  MetricOptions,
+  MetricsClient,
+  MetricsClientOptions,
+  MetricsInstrumenter,
+  MetricsInstrumenterOptions,
   OperationTracingOptions,
   OptionsWithTracingContext,
   Resolved,
@@ -20,3 +28,5 @@ export {
 } from "./interfaces";
 export { useInstrumenter } from "./instrumenter";
 export { createTracingClient } from "./tracingClient";
+export { useMetricsInstrumenter } from "./metricsInstrumenter";
+export { createMetricsClient } from "./metricsClient";
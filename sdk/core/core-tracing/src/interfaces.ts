@@ -293,3 +293,104 @@ export type OptionsWithTracingContext<
     tracingContext: TracingContext;
   };
 };
+
+/**
+ * A set of attributes attached to a value recorded by a metric instrument.
+ */
+export type MetricAttributes = { [key: string]: string | number | boolean | undefined };
+
+/**
+ * A metric instrument that records values that are added up, such as a number of retries.
+ */
+export interface MetricCounter {
+  /**
+   * Adds a value to the counter.
+   * @param value - The value to add. Must not be negative.
+   * @param attributes - The attributes of the recorded value.
+   */
+  add(value: number, attributes?: MetricAttributes): void;
+}
+
+/**
+ * A metric instrument that records the distribution of values, such as request durations.
+ */
+export interface MetricHistogram {
+  /**
+   * Records a value in the histogram.
+   * @param value - The value to record.
+   * @param attributes - The attributes of the recorded value.
+   */
+  record(value: number, attributes?: MetricAttributes): void;
+}
+
+/**
+ * Options used to describe a newly created metric instrument.
+ */
+export interface MetricOptions {
+  /** A description of the values recorded by the instrument. */
+  description?: string;
+  /** The unit of the values recorded by the instrument, such as "ms" or "By". */
+  unit?: string;
+}
+
+/**
+ * Options passed to {@link MetricsInstrumenter} as a superset of {@link MetricOptions}.
+ */
+export interface MetricsInstrumenterOptions extends MetricOptions {
+  /** The name of the package recording the metric. */
+  packageName: string;
+  /** The version of the package recording the metric. */
+  packageVersion?: string;
+}
+
+/**
+ * Represents an implementation agnostic metrics instrumenter.
+ */
+export interface MetricsInstrumenter {
+  /**
+   * Creates a new {@link MetricCounter} with the given name and options.
+   * @param name - The name of the metric.
+   * @param options - The options describing the metric.
+   */
+  createCounter(name: string, options: MetricsInstrumenterOptions): MetricCounter;
+  /**
+   * Creates a new {@link MetricHistogram} with the given name and options.
+   * @param name - The name of the metric.
+   * @param options - The options describing the metric.
+   */
+  createHistogram(name: string, options: MetricsInstrumenterOptions): MetricHistogram;
+}
+
+/**
+ * Represents a client that can record metrics through the currently configured {@link MetricsInstrumenter}.
+ *
+ * Create an instance using {@link createMetricsClient}.
+ */
+export interface MetricsClient {
+  /**
+   * Creates a counter whose values are recorded by the currently configured {@link MetricsInstrumenter}.
+   * Recorded values have the az.namespace attribute of the client unless it is set explicitly.
+   * @param name - The name of the metric.
+   * @param options - The options describing the metric.
+   */
+  createCounter(name: string, options?: MetricOptions): MetricCounter;
+  /**
+   * Creates a histogram whose values are recorded by the currently configured {@link MetricsInstrumenter}.
+   * Recorded values have the az.namespace attribute of the client unless it is set explicitly.
+   * @param name - The name of the metric.
+   * @param options - The options describing the metric.
+   */
+  createHistogram(name: string, options?: MetricOptions): MetricHistogram;
+}
+
+/**
+ * Options that can be passed to {@link createMetricsClient}
+ */
+export interface MetricsClientOptions {
+  /** The default value of the az.namespace attribute on recorded values. */
+  namespace: string;
+  /** The name of the package recording metrics. */
+  packageName: string;
+  /** An optional version of the package recording metrics. */
+  packageVersion?: string;
+}
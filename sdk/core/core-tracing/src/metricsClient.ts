@@ -0,0 +1,77 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+  MetricAttributes,
+  MetricCounter,
+  MetricHistogram,
+  MetricOptions,
+  MetricsClient,
+  MetricsClientOptions,
+  MetricsInstrumenter,
+} from "./interfaces";
+import { getMetricsInstrumenter } from "./metricsInstrumenter";
+
+/**
+ * Creates a new metrics client.
+ *
+ * @param options - Options used to configure the metrics client.
+ * @returns - An instance of {@link MetricsClient}.
+ */
+export function createMetricsClient(options: MetricsClientOptions): MetricsClient {
+  const { namespace, packageName, packageVersion } = options;
+
+  function withNamespace(attributes?: MetricAttributes): MetricAttributes {
+    const { "az.namespace": explicitNamespace, ...otherAttributes } = attributes ?? {};
+    const resolvedNamespace = explicitNamespace || namespace;
+    return resolvedNamespace
+      ? { ...otherAttributes, "az.namespace": resolvedNamespace }
+      : otherAttributes;
+  }
+
+  /**
+   * Instruments are created lazily so that a metrics instrumenter set after
+   * the client was created is still used.
+   */
+  function lazyInstrument<Instrument>(
+    create: (instrumenter: MetricsInstrumenter) => Instrument
+  ): () => Instrument {
+    let instrumenter: MetricsInstrumenter | undefined;
+    let instrument: Instrument | undefined;
+    return () => {
+      const currentInstrumenter = getMetricsInstrumenter();
+      if (!instrument || instrumenter !== currentInstrumenter) {
+        instrumenter = currentInstrumenter;
+        instrument = create(currentInstrumenter);
+      }
+      return instrument;
+    };
+  }
+
+  function createCounter(name: string, metricOptions?: MetricOptions): MetricCounter {
+    const getCounter = lazyInstrument((instrumenter) =>
+      instrumenter.createCounter(name, { ...metricOptions, packageName, packageVersion })
+    );
+    return {
+      add(value: number, attributes?: MetricAttributes): void {
+        getCounter().add(value, withNamespace(attributes));
+      },
+    };
+  }
+
+  function createHistogram(name: string, metricOptions?: MetricOptions): MetricHistogram {
+    const getHistogram = lazyInstrument((instrumenter) =>
+      instrumenter.createHistogram(name, { ...metricOptions, packageName, packageVersion })
+    );
+    return {
+      record(value: number, attributes?: MetricAttributes): void {
+        getHistogram().record(value, withNamespace(attributes));
+      },
+    };
+  }
+
+  return {
+    createCounter,
+    createHistogram,
+  };
+}
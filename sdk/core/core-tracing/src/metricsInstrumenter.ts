@@ -0,0 +1,55 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { MetricCounter, MetricHistogram, MetricsInstrumenter } from "./interfaces";
+
+export function createDefaultMetricCounter(): MetricCounter {
+  return {
+    add: () => {
+      // noop
+    },
+  };
+}
+
+export function createDefaultMetricHistogram(): MetricHistogram {
+  return {
+    record: () => {
+      // noop
+    },
+  };
+}
+
+export function createDefaultMetricsInstrumenter(): MetricsInstrumenter {
+  return {
+    createCounter: (): MetricCounter => {
+      return createDefaultMetricCounter();
+    },
+    createHistogram: (): MetricHistogram => {
+      return createDefaultMetricHistogram();
+    },
+  };
+}
+
+/** @internal */
+let metricsInstrumenterImplementation: MetricsInstrumenter | undefined;
+
+/**
+ * Extends the Azure SDK with support for a given metrics instrumenter implementation.
+ *
+ * @param metricsInstrumenter - The metrics instrumenter implementation to use.
+ */
+export function useMetricsInstrumenter(metricsInstrumenter: MetricsInstrumenter): void {
+  metricsInstrumenterImplementation = metricsInstrumenter;
+}
+
+/**
+ * Gets the currently set metrics instrumenter, a No-Op metrics instrumenter by default.
+ *
+ * @returns The currently set metrics instrumenter
+ */
+export function getMetricsInstrumenter(): MetricsInstrumenter {
+  if (!metricsInstrumenterImplementation) {
+    metricsInstrumenterImplementation = createDefaultMetricsInstrumenter();
+  }
+  return metricsInstrumenterImplementation;
+}
@@ -0,0 +1,112 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { MetricsClient, MetricsInstrumenter } from "../src/interfaces";
+import {
+  createDefaultMetricCounter,
+  createDefaultMetricHistogram,
+  createDefaultMetricsInstrumenter,
+  getMetricsInstrumenter,
+  useMetricsInstrumenter,
+} from "../src/metricsInstrumenter";
+import { assert } from "chai";
+import { createMetricsClient } from "../src/metricsClient";
+import sinon from "sinon";
+
+describe("MetricsClient", () => {
+  let instrumenter: MetricsInstrumenter;
+  let client: MetricsClient;
+  const expectedNamespace = "Microsoft.Test";
+
+  beforeEach(() => {
+    instrumenter = createDefaultMetricsInstrumenter();
+    useMetricsInstrumenter(instrumenter);
+    client = createMetricsClient({
+      namespace: expectedNamespace,
+      packageName: "test-package",
+      packageVersion: "1.0.0",
+    });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe("#createCounter", () => {
+    it("creates the counter through the instrumenter with the package information", () => {
+      const createCounterSpy = sinon.spy(instrumenter, "createCounter");
+      client.createCounter("test.counter", { unit: "1" }).add(1);
+
+      assert.isTrue(
+        createCounterSpy.calledWith("test.counter", {
+          unit: "1",
+          packageName: "test-package",
+          packageVersion: "1.0.0",
+        })
+      );
+    });
+
+    it("sets the namespace attribute on added values", () => {
+      const counter = createDefaultMetricCounter();
+      sinon.stub(instrumenter, "createCounter").returns(counter);
+      const addSpy = sinon.spy(counter, "add");
+
+      client.createCounter("test.counter").add(2, { key: "value" });
+
+      assert.isTrue(addSpy.calledWith(2, { key: "value", "az.namespace": expectedNamespace }));
+    });
+
+    it("keeps an explicitly set namespace attribute", () => {
+      const counter = createDefaultMetricCounter();
+      sinon.stub(instrumenter, "createCounter").returns(counter);
+      const addSpy = sinon.spy(counter, "add");
+
+      client.createCounter("test.counter").add(1, { "az.namespace": "Microsoft.Other" });
+
+      assert.isTrue(addSpy.calledWith(1, { "az.namespace": "Microsoft.Other" }));
+    });
+
+    it("omits the namespace attribute when no namespace is set", () => {
+      const counter = createDefaultMetricCounter();
+      sinon.stub(instrumenter, "createCounter").returns(counter);
+      const addSpy = sinon.spy(counter, "add");
+
+      createMetricsClient({ namespace: "", packageName: "test-package" })
+        .createCounter("test.counter")
+        .add(1, { key: "value", "az.namespace": undefined });
+
+      assert.deepEqual(addSpy.firstCall.args, [1, { key: "value" }]);
+    });
+  });
+
+  describe("#createHistogram", () => {
+    it("records values through the instrumenter", () => {
+      const histogram = createDefaultMetricHistogram();
+      const createHistogramStub = sinon.stub(instrumenter, "createHistogram").returns(histogram);
+      const recordSpy = sinon.spy(histogram, "record");
+
+      const clientHistogram = client.createHistogram("test.histogram", { unit: "ms" });
+      clientHistogram.record(10);
+      clientHistogram.record(20);
+
+      assert.isTrue(createHistogramStub.calledOnce);
+      assert.isTrue(recordSpy.calledWith(10, { "az.namespace": expectedNamespace }));
+      assert.isTrue(recordSpy.calledWith(20, { "az.namespace": expectedNamespace }));
+    });
+
+    it("uses an instrumenter set after the instrument was created", () => {
+      const clientHistogram = client.createHistogram("test.histogram");
+
+      const newInstrumenter = createDefaultMetricsInstrumenter();
+      const histogram = createDefaultMetricHistogram();
+      sinon.stub(newInstrumenter, "createHistogram").returns(histogram);
+      const recordSpy = sinon.spy(histogram, "record");
+      useMetricsInstrumenter(newInstrumenter);
+
+      clientHistogram.record(5);
+
+      assert.strictEqual(getMetricsInstrumenter(), newInstrumenter);
+      assert.isTrue(recordSpy.calledOnce);
+    });
+  });
+});
@@ -3,3 +3,10 @@
 
 export { stringifyXML, parseXML } from "./xml";
 export { XML_ATTRKEY, XML_CHARKEY, XmlOptions } from "./xml.common";
+export {
+  parseXMLEvents,
+  parseXMLItems,
+  XmlEvent,
+  XmlStreamOptions,
+  XmlStreamSource,
+} from "./xmlStream";
@@ -0,0 +1,357 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+/// <reference lib="dom"/>
+import { XML_ATTRKEY, XML_CHARKEY } from "./xml.common";
+
+/**
+ * A stream of XML content, such as a Node.js `Readable` (which is an async iterable)
+ * or a web `ReadableStream`.
+ */
+export type XmlStreamSource = AsyncIterable<string | Uint8Array> | ReadableStream<Uint8Array>;
+
+/**
+ * An event emitted while parsing an XML document incrementally.
+ * - "startElement": an element was opened, with its attributes.
+ * - "endElement": an element was closed. Empty elements such as `<a/>` are opened and closed right away.
+ * - "text": the text content of an element, with entities decoded, including the content of CDATA sections.
+ *   Text made only of whitespace is skipped.
+ */
+export type XmlEvent =
+  | { type: "startElement"; name: string; attributes: Record<string, string> }
+  | { type: "endElement"; name: string }
+  | { type: "text"; text: string };
+
+/**
+ * Options to govern the parsing of the items of an XML stream.
+ */
+export interface XmlStreamOptions {
+  /**
+   * key used to access the XML value content when parsing XML.
+   */
+  xmlCharKey?: string;
+}
+
+const entities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match: string, entity: string) => {
+    if (entity[0] === "#") {
+      return String.fromCodePoint(
+        entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      );
+    }
+    return entities[entity] ?? match;
+  });
+}
+
+/**
+ * Returns the index of the `>` that ends the tag starting at `start`, skipping quoted attribute values,
+ * or -1 if the tag wasn't fully received yet.
+ */
+function findTagEnd(buffer: string, start: number): number {
+  let quote: string | undefined;
+  for (let i = start; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Splits XML text received in chunks of any size into events.
+ */
+function createTokenizer(): { write(text: string): XmlEvent[]; end(): void } {
+  const openElements: string[] = [];
+  let buffer = "";
+  let hasRoot = false;
+
+  function onStartTag(content: string, events: XmlEvent[]): void {
+    const isEmpty = content.endsWith("/");
+    const tag = isEmpty ? content.slice(0, -1) : content;
+    const name = /^[^\s/>]+/.exec(tag)?.[0];
+    if (!name) {
+      throw new Error(`Invalid XML tag: <${content}>`);
+    }
+    if (openElements.length === 0 && hasRoot) {
+      throw new Error(`Unexpected element after the root element: <${name}>`);
+    }
+    const attributes: Record<string, string> = {};
+    const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = attributePattern.exec(tag.slice(name.length)))) {
+      attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+    }
+    hasRoot = true;
+    events.push({ type: "startElement", name, attributes });
+    if (isEmpty) {
+      events.push({ type: "endElement", name });
+    } else {
+      openElements.push(name);
+    }
+  }
+
+  function onEndTag(content: string, events: XmlEvent[]): void {
+    const name = content.slice(1).trim();
+    const expected = openElements.pop();
+    if (name !== expected) {
+      throw new Error(
+        expected
+          ? `Unexpected closing tag </${name}>, expected </${expected}>`
+          : `Unexpected closing tag </${name}>`
+      );
+    }
+    events.push({ type: "endElement", name });
+  }
+
+  function onText(text: string, events: XmlEvent[]): void {
+    if (!text.trim()) {
+      return;
+    }
+    if (openElements.length === 0) {
+      throw new Error("Unexpected text outside of the root element");
+    }
+    events.push({ type: "text", text: decodeEntities(text) });
+  }
+
+  return {
+    write(text: string): XmlEvent[] {
+      const events: XmlEvent[] = [];
+      buffer += text;
+      let position = 0;
+      while (position < buffer.length) {
+        const tagStart = buffer.indexOf("<", position);
+        if (tagStart === -1) {
+          // The text may continue in the next chunk.
+          break;
+        }
+        if (tagStart > position) {
+          onText(buffer.slice(position, tagStart), events);
+          position = tagStart;
+        }
+        let end: number;
+        if (buffer.startsWith("<!--", position)) {
+          end = buffer.indexOf("-->", position);
+          if (end === -1) break;
+          position = end + 3;
+        } else if (buffer.startsWith("<![CDATA[", position)) {
+          end = buffer.indexOf("]]>", position);
+          if (end === -1) break;
+          if (openElements.length === 0) {
+            throw new Error("Unexpected CDATA section outside of the root element");
+          }
+          events.push({ type: "text", text: buffer.slice(position + 9, end) });
+          position = end + 3;
+        } else if (buffer.startsWith("<?", position)) {
+          end = buffer.indexOf("?>", position);
+          if (end === -1) break;
+          position = end + 2;
+        } else if (buffer.startsWith("<!", position)) {
+          if (buffer.length < position + 9) break;
+          if (!buffer.startsWith("<!DOCTYPE", position)) {
+            throw new Error(`Invalid XML declaration: ${buffer.slice(position, position + 9)}`);
+          }
+          // Skip the document type declaration, including its internal subset if any.
+          end = findTagEnd(buffer, position);
+          const subsetStart = buffer.indexOf("[", position);
+          if (subsetStart !== -1 && (end === -1 || subsetStart < end)) {
+            const subsetEnd = buffer.indexOf("]", subsetStart);
+            end = subsetEnd === -1 ? -1 : findTagEnd(buffer, subsetEnd);
+          }
+          if (end === -1) break;
+          position = end + 1;
+        } else {
+          end = findTagEnd(buffer, position);
+          if (end === -1) break;
+          const content = buffer.slice(position + 1, end);
+          if (content.startsWith("/")) {
+            onEndTag(content, events);
+          } else {
+            onStartTag(content, events);
+          }
+          position = end + 1;
+        }
+      }
+      buffer = buffer.slice(position);
+      return events;
+    },
+    end(): void {
+      const rest = buffer.trim();
+      if (openElements.length > 0 || rest.startsWith("<")) {
+        throw new Error("Unexpected end of the XML document");
+      }
+      if (rest) {
+        throw new Error("Unexpected text outside of the root element");
+      }
+      if (!hasRoot) {
+        throw new Error("Document is empty");
+      }
+    },
+  };
+}
+
+/**
+ * Reads the source as text, one chunk at a time, and releases it if the iteration is stopped early.
+ */
+async function* readText(source: XmlStreamSource): AsyncIterableIterator<string> {
+  const decoder = new TextDecoder();
+  const decode = (chunk: string | Uint8Array): string =>
+    typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+  if ("getReader" in source) {
+    const reader = source.getReader();
+    let done = false;
+    try {
+      while (!done) {
+        const result = await reader.read();
+        done = result.done;
+        if (result.value) {
+          yield decode(result.value);
+        }
+      }
+    } finally {
+      if (done) {
+        reader.releaseLock();
+      } else {
+        reader.cancel().catch(() => {
+          // The rest of the stream is not needed anymore.
+        });
+      }
+    }
+  } else {
+    try {
+      for await (const chunk of source) {
+        yield decode(chunk);
+      }
+    } finally {
+      (source as { destroy?: () => void }).destroy?.();
+    }
+  }
+  yield decoder.decode();
+}
+
+/**
+ * Parses the XML content of the given stream incrementally, emitting events as the elements
+ * are received instead of buffering the whole document.
+ * Only the part of the content that doesn't form a complete tag or text yet is kept in memory.
+ * @param source - The stream of XML content.
+ */
+export async function* parseXMLEvents(source: XmlStreamSource): AsyncIterableIterator<XmlEvent> {
+  const tokenizer = createTokenizer();
+  for await (const text of readText(source)) {
+    yield* tokenizer.write(text);
+  }
+  tokenizer.end();
+}
+
+interface ItemNode {
+  attributes: Record<string, string>;
+  children: Record<string, unknown>;
+  hasChildren: boolean;
+  text: string;
+}
+
+function toValue(node: ItemNode, xmlCharKey: string): unknown {
+  const hasAttributes = Object.keys(node.attributes).length > 0;
+  if (!hasAttributes && !node.hasChildren) {
+    return node.text;
+  }
+  const value: Record<string, unknown> = { ...node.children };
+  if (hasAttributes) {
+    value[XML_ATTRKEY] = node.attributes;
+  }
+  if (node.text) {
+    value[xmlCharKey] = node.text;
+  }
+  return value;
+}
+
+/**
+ * Parses the XML content of the given stream incrementally and yields the elements found at
+ * the given path as soon as each of them is received, so that long lists can be processed item
+ * by item. Each item is converted into an object the same way `parseXML` does, and the content
+ * outside of the items is skipped.
+ *
+ * ### Example:
+ *
+ * ```javascript
+ * for await (const blob of parseXMLItems(response.readableStreamBody, "EnumerationResults.Blobs.Blob")) {
+ *   console.log(blob.Name);
+ * }
+ * ```
+ *
+ * @param source - The stream of XML content.
+ * @param itemPath - The names of the elements from the root element to the items, separated by dots.
+ * @param options - Options that govern the parsing of the items.
+ */
+export async function* parseXMLItems(
+  source: XmlStreamSource,
+  itemPath: string,
+  options: XmlStreamOptions = {}
+): AsyncIterableIterator<any> {
+  const xmlCharKey = options.xmlCharKey ?? XML_CHARKEY;
+  const itemPathNames = itemPath.split(".");
+  // The names of the open elements from the root, and the nodes of the open elements within an item.
+  const path: string[] = [];
+  const nodes: ItemNode[] = [];
+
+  const isItemPath = (): boolean =>
+    path.length === itemPathNames.length && path.every((name, i) => name === itemPathNames[i]);
+
+  for await (const event of parseXMLEvents(source)) {
+    switch (event.type) {
+      case "startElement": {
+        path.push(event.name);
+        if (nodes.length > 0 || isItemPath()) {
+          nodes.push({ attributes: event.attributes, children: {}, hasChildren: false, text: "" });
+        }
+        break;
+      }
+      case "text": {
+        const node = nodes[nodes.length - 1];
+        if (node) {
+          node.text += event.text.trim();
+        }
+        break;
+      }
+      case "endElement": {
+        const node = nodes.pop();
+        path.pop();
+        if (!node) {
+          break;
+        }
+        const value = toValue(node, xmlCharKey);
+        const parent = nodes[nodes.length - 1];
+        if (!parent) {
+          yield value;
+        } else {
+          // Items are strings or objects, so an array is a list of elements with the same name.
+          const existing = parent.children[event.name];
+          if (existing === undefined) {
+            parent.children[event.name] = value;
+          } else if (Array.isArray(existing)) {
+            existing.push(value);
+          } else {
+            parent.children[event.name] = [existing, value];
+          }
+          parent.hasChildren = true;
+        }
+        break;
+      }
+    }
+  }
+}
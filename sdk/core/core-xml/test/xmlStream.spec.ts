@@ -0,0 +1,133 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { XmlEvent, parseXML, parseXMLEvents, parseXMLItems } from "../src";
+import { assert } from "chai";
+
+const listBlobsXml = `<?xml version="1.0" encoding="utf-8"?>
+<EnumerationResults ServiceEndpoint="https://account.blob.core.windows.net/" ContainerName="container">
+  <Blobs>
+    <Blob>
+      <Name>a&amp;b.txt</Name>
+      <Properties><Content-Length>10</Content-Length><BlobType>BlockBlob</BlobType></Properties>
+      <Metadata />
+    </Blob>
+    <Blob>
+      <Name><![CDATA[<c>.txt]]></Name>
+      <Properties><Content-Length>20</Content-Length><BlobType>BlockBlob</BlobType></Properties>
+      <Metadata><Owner>me</Owner><Tag>x</Tag><Tag>y</Tag></Metadata>
+    </Blob>
+    <Blob Deleted="true"><Name>d.txt</Name></Blob>
+  </Blobs>
+  <NextMarker />
+</EnumerationResults>`;
+
+async function* chunks(text: string, size: number): AsyncIterableIterator<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.subarray(i, i + size);
+  }
+}
+
+async function collect<T>(iterator: AsyncIterableIterator<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of iterator) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe("XML stream parser", function () {
+  describe("parseXMLItems", function () {
+    it("yields the items like parseXML, whatever the size of the chunks", async function () {
+      const expected = (await parseXML(listBlobsXml)).Blobs.Blob;
+      for (const size of [1, 7, 64, listBlobsXml.length]) {
+        const items = await collect(
+          parseXMLItems(chunks(listBlobsXml, size), "EnumerationResults.Blobs.Blob")
+        );
+        assert.deepEqual(
+          items,
+          expected.map((item: any, i: number) => (i === 1 ? { ...item, Name: "<c>.txt" } : item)),
+          `chunks of ${size} bytes`
+        );
+      }
+    });
+
+    it("yields each item as soon as it is received", async function () {
+      const received: string[] = [];
+      async function* source(): AsyncIterableIterator<string> {
+        yield "<feed><entry><title>1</title></entry>";
+        received.push("first");
+        yield "<entry><title>2</title></entry></feed>";
+      }
+      for await (const entry of parseXMLItems(source(), "feed.entry")) {
+        received.push(entry.title);
+      }
+      assert.deepEqual(received, ["1", "first", "2"]);
+    });
+
+    it("uses the given xmlCharKey", async function () {
+      const items = await collect(
+        parseXMLItems(chunks(`<a><b c="d">e</b></a>`, 3), "a.b", { xmlCharKey: "#" })
+      );
+      assert.deepEqual(items, [{ $: { c: "d" }, "#": "e" }]);
+    });
+
+    it("reads web streams and cancels them when the iteration stops early", async function () {
+      let canceled = false;
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode("<list><item>1</item><item>2</item>"));
+        },
+        cancel() {
+          canceled = true;
+        },
+      });
+      for await (const item of parseXMLItems(stream, "list.item")) {
+        assert.equal(item, "1");
+        break;
+      }
+      assert.isTrue(canceled);
+    });
+  });
+
+  describe("parseXMLEvents", function () {
+    it("emits the elements and their text", async function () {
+      const events = await collect(
+        parseXMLEvents(
+          chunks(
+            `<!DOCTYPE a [<!ENTITY x "y">]><!-- comment --><a k='&lt;v&gt;'>x &#65;&#x42;<b/></a>`,
+            5
+          )
+        )
+      );
+      const expected: XmlEvent[] = [
+        { type: "startElement", name: "a", attributes: { k: "<v>" } },
+        { type: "text", text: "x AB" },
+        { type: "startElement", name: "b", attributes: {} },
+        { type: "endElement", name: "b" },
+        { type: "endElement", name: "a" },
+      ];
+      assert.deepEqual(events, expected);
+    });
+
+    it("rejects malformed documents", async function () {
+      const cases: Array<[string, RegExp]> = [
+        ["", /Document is empty/],
+        ["<a><b></a>", /Unexpected closing tag <\/a>, expected <\/b>/],
+        ["<a>", /Unexpected end of the XML document/],
+        ["<a/><b/>", /Unexpected element after the root element/],
+        ["text", /Unexpected text outside of the root element/],
+        ["<a>b</a", /Unexpected end of the XML document/],
+      ];
+      for (const [xml, message] of cases) {
+        try {
+          await collect(parseXMLEvents(chunks(xml, 2)));
+          assert.fail(`"${xml}" should have been rejected`);
+        } catch (e: any) {
+          assert.match(e.message, message);
+        }
+      }
+    });
+  });
+});
@@ -2,13 +2,32 @@
 // Licensed under the MIT license.
 
 import debug, { Debugger } from "./debug";
+import { processLogArgs } from "./logRecord";
 export { Debugger } from "./debug";
+export {
+  addLogSink,
+  AzureLogCorrelationIds,
+  AzureLogRecord,
+  AzureLogSink,
+  createLogCorrelationIds,
+} from "./logRecord";
+export {
+  createJsonLinesLogSink,
+  createMemoryLogSink,
+  createPinoLogSink,
+  createWinstonLogSink,
+  MemoryLogSink,
+  MemoryLogSinkOptions,
+  PinoLikeLogger,
+  WinstonLikeLogger,
+} from "./logSinks";
 
 const registeredLoggers = new Set<AzureDebugger>();
 const logLevelFromEnv =
   (typeof process !== "undefined" && process.env && process.env.AZURE_LOG_LEVEL) || undefined;
 
 let azureLogLevel: AzureLogLevel | undefined;
+const namespaceLogLevels = new Map<string, AzureLogLevel>();
 
 /**
  * The AzureLogger provides a mechanism for overriding where logs are output to.
@@ -59,14 +78,25 @@ if (logLevelFromEnv) {
  * - info
  * - warning
  * - error
+ * @param namespace - If set, the log level only applies to the loggers of this namespace and its children,
+ * e.g. "azure:service-bus", and overrides the log level set without a namespace.
+ * Setting an undefined log level for a namespace removes its override.
  */
-export function setLogLevel(level?: AzureLogLevel): void {
+export function setLogLevel(level?: AzureLogLevel, namespace?: string): void {
   if (level && !isAzureLogLevel(level)) {
     throw new Error(
       `Unknown log level '${level}'. Acceptable values: ${AZURE_LOG_LEVELS.join(",")}`
     );
   }
-  azureLogLevel = level;
+  if (namespace) {
+    if (level) {
+      namespaceLogLevels.set(namespace, level);
+    } else {
+      namespaceLogLevels.delete(namespace);
+    }
+  } else {
+    azureLogLevel = level;
+  }
 
   const enabledNamespaces = [];
   for (const logger of registeredLoggers) {
@@ -80,9 +110,23 @@ export function setLogLevel(level?: AzureLogLevel): void {
 
 /**
  * Retrieves the currently specified log level.
+ * @param namespace - If set, retrieves the log level that applies to the loggers of this namespace,
+ * taking the overrides of its own and parent namespaces into account.
  */
-export function getLogLevel(): AzureLogLevel | undefined {
-  return azureLogLevel;
+export function getLogLevel(namespace?: string): AzureLogLevel | undefined {
+  if (!namespace) {
+    return azureLogLevel;
+  }
+  let closestNamespace: string | undefined;
+  for (const overridden of namespaceLogLevels.keys()) {
+    if (
+      (namespace === overridden || namespace.startsWith(`${overridden}:`)) &&
+      (!closestNamespace || overridden.length > closestNamespace.length)
+    ) {
+      closestNamespace = overridden;
+    }
+  }
+  return closestNamespace ? namespaceLogLevels.get(closestNamespace) : azureLogLevel;
 }
 
 const levelMap = {
@@ -147,7 +191,10 @@ function createLogger(parent: AzureClientLogger, level: AzureLogLevel): AzureDeb
     level,
   });
 
-  patchLogMethod(parent, logger);
+  const prefix = `${logger.namespace} `;
+  logger.log = (...args) => {
+    parent.log(...processLogArgs(level, parent.namespace, prefix, args));
+  };
 
   if (shouldEnable(logger)) {
     const enabledNamespaces = debug.disable();
@@ -160,7 +207,8 @@ function createLogger(parent: AzureClientLogger, level: AzureLogLevel): AzureDeb
 }
 
 function shouldEnable(logger: AzureDebugger): boolean {
-  if (azureLogLevel && levelMap[logger.level] <= levelMap[azureLogLevel]) {
+  const level = getLogLevel(logger.namespace);
+  if (level && levelMap[logger.level] <= levelMap[level]) {
     return true;
   } else {
     return false;
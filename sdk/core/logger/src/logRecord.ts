@@ -0,0 +1,141 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import type { AzureLogLevel } from "./index";
+
+/**
+ * A log entry emitted by the Azure SDKs, passed to the registered {@link AzureLogSink}s.
+ */
+export interface AzureLogRecord {
+  /**
+   * The level of the entry.
+   */
+  level: AzureLogLevel;
+  /**
+   * The namespace of the logger that emitted the entry, e.g. "azure:service-bus".
+   */
+  namespace: string;
+  /**
+   * The text of the entry.
+   */
+  message: string;
+  /**
+   * The time at which the entry was emitted.
+   */
+  timestamp: Date;
+  /**
+   * The identifiers that correlate the entry with an operation, such as a client request ID,
+   * passed to the logger with {@link createLogCorrelationIds}.
+   */
+  correlationIds: Record<string, string>;
+}
+
+/**
+ * A destination of structured log entries.
+ */
+export type AzureLogSink = (record: AzureLogRecord) => void;
+
+const correlationIdsBrand = Symbol.for("@azure/logger correlation ids");
+
+/**
+ * Identifiers that correlate a log entry with an operation. Create them with {@link createLogCorrelationIds}.
+ */
+export interface AzureLogCorrelationIds {
+  /**
+   * The identifiers, by name.
+   */
+  readonly ids: Record<string, string>;
+}
+
+/**
+ * Creates identifiers to pass as an argument to a logger to correlate the entry with an operation.
+ * They are added to the `correlationIds` of the {@link AzureLogRecord}, and written as `name=value`
+ * pairs in the text output.
+ * @param ids - The identifiers, by name, e.g. `{ clientRequestId: "..." }`.
+ */
+export function createLogCorrelationIds(ids: Record<string, string>): AzureLogCorrelationIds {
+  return Object.defineProperty({ ids: { ...ids } }, correlationIdsBrand, { value: true });
+}
+
+function isCorrelationIds(arg: unknown): arg is AzureLogCorrelationIds {
+  return typeof arg === "object" && arg !== null && correlationIdsBrand in arg;
+}
+
+const sinks = new Set<AzureLogSink>();
+
+/**
+ * Registers a sink that receives the entries of all the enabled loggers as {@link AzureLogRecord}s,
+ * in addition to the text output of `AzureLogger.log`.
+ * @param sink - The sink to add.
+ * @returns A function that removes the sink.
+ */
+export function addLogSink(sink: AzureLogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === "string") {
+    return arg;
+  }
+  if (arg instanceof Error) {
+    return arg.stack ?? arg.message;
+  }
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+/**
+ * Extracts the correlation IDs from the arguments of a log call, replacing them with
+ * their text representation, and emits a record to the registered sinks.
+ * @internal
+ * @param level - The level of the logger.
+ * @param namespace - The namespace of the client logger.
+ * @param prefix - The prefix added to the first argument by the logger.
+ * @param args - The arguments of the log call.
+ * @returns The arguments to pass to the text output.
+ */
+export function processLogArgs(
+  level: AzureLogLevel,
+  namespace: string,
+  prefix: string,
+  args: any[]
+): any[] {
+  const correlationIds: Record<string, string> = {};
+  const outputArgs = args.map((arg) => {
+    if (!isCorrelationIds(arg)) {
+      return arg;
+    }
+    Object.assign(correlationIds, arg.ids);
+    return Object.keys(arg.ids)
+      .map((name) => `${name}=${arg.ids[name]}`)
+      .join(" ");
+  });
+
+  if (sinks.size > 0) {
+    const messageArgs = outputArgs.filter((_, index) => !isCorrelationIds(args[index]));
+    if (typeof messageArgs[0] === "string" && messageArgs[0].startsWith(prefix)) {
+      messageArgs[0] = messageArgs[0].slice(prefix.length);
+    }
+    const record: AzureLogRecord = {
+      level,
+      namespace,
+      message: messageArgs.map(formatArg).join(" "),
+      timestamp: new Date(),
+      correlationIds,
+    };
+    for (const sink of sinks) {
+      try {
+        sink(record);
+      } catch {
+        // A failing sink must not break the caller nor the other sinks.
+      }
+    }
+  }
+  return outputArgs;
+}
@@ -0,0 +1,152 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AzureLogRecord, AzureLogSink } from "./logRecord";
+
+/**
+ * Creates a sink that writes each entry as a line of JSON, e.g.
+ * `{"timestamp":"2022-11-03T10:00:00.000Z","level":"info","namespace":"azure:service-bus","message":"...","correlationIds":{}}`.
+ * @param write - The function that writes a line. Defaults to `console.log`, i.e. stdout in Node.js.
+ */
+export function createJsonLinesLogSink(
+  write: (line: string) => void = (line) => console.log(line)
+): AzureLogSink {
+  return (record: AzureLogRecord) => {
+    write(
+      JSON.stringify({
+        timestamp: record.timestamp.toISOString(),
+        level: record.level,
+        namespace: record.namespace,
+        message: record.message,
+        correlationIds: record.correlationIds,
+      })
+    );
+  };
+}
+
+/**
+ * Options to configure the in-memory log sink.
+ */
+export interface MemoryLogSinkOptions {
+  /**
+   * The maximum number of entries kept. The oldest entries are dropped first. Defaults to 1000.
+   */
+  capacity?: number;
+}
+
+/**
+ * A sink that keeps the most recent entries in memory.
+ */
+export interface MemoryLogSink {
+  /**
+   * Receives an entry.
+   */
+  (record: AzureLogRecord): void;
+  /**
+   * Returns the kept entries, from the oldest to the most recent.
+   */
+  getRecords(): AzureLogRecord[];
+  /**
+   * Drops all the kept entries.
+   */
+  clear(): void;
+}
+
+/**
+ * Creates a sink that keeps the most recent entries in a ring buffer,
+ * e.g. to attach them to a crash report.
+ * @param options - Options to configure the sink.
+ */
+export function createMemoryLogSink(options: MemoryLogSinkOptions = {}): MemoryLogSink {
+  const { capacity = 1000 } = options;
+  const buffer: AzureLogRecord[] = new Array(capacity);
+  let start = 0;
+  let size = 0;
+
+  return Object.assign(
+    (record: AzureLogRecord) => {
+      if (capacity <= 0) {
+        return;
+      }
+      buffer[(start + size) % capacity] = record;
+      if (size < capacity) {
+        size++;
+      } else {
+        start = (start + 1) % capacity;
+      }
+    },
+    {
+      getRecords(): AzureLogRecord[] {
+        const records: AzureLogRecord[] = [];
+        for (let i = 0; i < size; i++) {
+          records.push(buffer[(start + i) % capacity]);
+        }
+        return records;
+      },
+      clear(): void {
+        buffer.fill(undefined as unknown as AzureLogRecord);
+        start = 0;
+        size = 0;
+      },
+    }
+  );
+}
+
+/**
+ * The methods of a pino logger used by {@link createPinoLogSink}.
+ */
+export interface PinoLikeLogger {
+  /** Logs at the error level. */
+  error(obj: object, msg: string): void;
+  /** Logs at the warn level. */
+  warn(obj: object, msg: string): void;
+  /** Logs at the info level. */
+  info(obj: object, msg: string): void;
+  /** Logs at the debug level. */
+  debug(obj: object, msg: string): void;
+}
+
+/**
+ * Creates a sink that forwards the entries to a pino logger, logging verbose entries at the debug level
+ * and warning entries at the warn level. The namespace and correlation IDs are logged as properties.
+ * @param logger - The pino logger, or a child logger.
+ */
+export function createPinoLogSink(logger: PinoLikeLogger): AzureLogSink {
+  const methods = {
+    error: "error",
+    warning: "warn",
+    info: "info",
+    verbose: "debug",
+  } as const;
+  return (record: AzureLogRecord) => {
+    logger[methods[record.level]](
+      { namespace: record.namespace, ...record.correlationIds },
+      record.message
+    );
+  };
+}
+
+/**
+ * The method of a winston logger used by {@link createWinstonLogSink}.
+ */
+export interface WinstonLikeLogger {
+  /** Logs an entry at the level it specifies. */
+  log(entry: { level: string; message: string; [key: string]: unknown }): void;
+}
+
+/**
+ * Creates a sink that forwards the entries to a winston logger, logging warning entries at the warn level.
+ * The namespace, timestamp and correlation IDs are logged as metadata.
+ * @param logger - The winston logger.
+ */
+export function createWinstonLogSink(logger: WinstonLikeLogger): AzureLogSink {
+  return (record: AzureLogRecord) => {
+    logger.log({
+      ...record.correlationIds,
+      level: record.level === "warning" ? "warn" : record.level,
+      message: record.message,
+      namespace: record.namespace,
+      timestamp: record.timestamp.toISOString(),
+    });
+  };
+}
@@ -0,0 +1,116 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import * as Logger from "../src";
+import { assert } from "chai";
+
+describe("log sinks", () => {
+  const logger = Logger.createClientLogger("sinks");
+  const oldLog = Logger.AzureLogger.log;
+  let output: any[][];
+  let removeSink: (() => void) | undefined;
+
+  beforeEach(() => {
+    output = [];
+    Logger.AzureLogger.log = (...args) => {
+      output.push(args);
+    };
+    Logger.setLogLevel("info");
+  });
+
+  afterEach(() => {
+    removeSink?.();
+    removeSink = undefined;
+    Logger.setLogLevel(undefined);
+    Logger.AzureLogger.log = oldLog;
+  });
+
+  it("receives structured records of enabled loggers", () => {
+    const sink = Logger.createMemoryLogSink();
+    removeSink = Logger.addLogSink(sink);
+
+    logger.info("sent request", Logger.createLogCorrelationIds({ clientRequestId: "123" }));
+    logger.verbose("not enabled");
+    logger.error(new Error("failed"));
+
+    const records = sink.getRecords();
+    assert.lengthOf(records, 2);
+    assert.include(records[0], {
+      level: "info",
+      namespace: "azure:sinks",
+      message: "sent request",
+    });
+    assert.deepEqual(records[0].correlationIds, { clientRequestId: "123" });
+    assert.instanceOf(records[0].timestamp, Date);
+    assert.strictEqual(records[1].level, "error");
+    assert.match(records[1].message, /failed/);
+
+    assert.deepEqual(output[0], ["azure:sinks:info sent request", "clientRequestId=123"]);
+  });
+
+  it("stops receiving records once removed", () => {
+    const sink = Logger.createMemoryLogSink();
+    Logger.addLogSink(sink)();
+    logger.info("hello");
+    assert.isEmpty(sink.getRecords());
+    assert.lengthOf(output, 1);
+  });
+
+  it("keeps the most recent records in the memory sink", () => {
+    const sink = Logger.createMemoryLogSink({ capacity: 2 });
+    removeSink = Logger.addLogSink(sink);
+    logger.info("1");
+    logger.info("2");
+    logger.info("3");
+    assert.deepEqual(
+      sink.getRecords().map((record) => record.message),
+      ["2", "3"]
+    );
+    sink.clear();
+    assert.isEmpty(sink.getRecords());
+  });
+
+  it("writes JSON lines", () => {
+    const lines: string[] = [];
+    removeSink = Logger.addLogSink(Logger.createJsonLinesLogSink((line) => lines.push(line)));
+    logger.warning("careful", { retry: 1 });
+
+    assert.lengthOf(lines, 1);
+    const parsed = JSON.parse(lines[0]);
+    assert.deepInclude(parsed, {
+      level: "warning",
+      namespace: "azure:sinks",
+      message: 'careful {"retry":1}',
+      correlationIds: {},
+    });
+    assert.strictEqual(new Date(parsed.timestamp).toISOString(), parsed.timestamp);
+  });
+
+  it("forwards records to pino and winston loggers", () => {
+    const pinoCalls: Array<[string, object, string]> = [];
+    const pino = {
+      error: (obj: object, msg: string) => pinoCalls.push(["error", obj, msg]),
+      warn: (obj: object, msg: string) => pinoCalls.push(["warn", obj, msg]),
+      info: (obj: object, msg: string) => pinoCalls.push(["info", obj, msg]),
+      debug: (obj: object, msg: string) => pinoCalls.push(["debug", obj, msg]),
+    };
+    const winstonEntries: any[] = [];
+    const winston = { log: (entry: any) => winstonEntries.push(entry) };
+    const removePino = Logger.addLogSink(Logger.createPinoLogSink(pino));
+    removeSink = Logger.addLogSink(Logger.createWinstonLogSink(winston));
+
+    logger.warning("careful", Logger.createLogCorrelationIds({ requestId: "42" }));
+    removePino();
+
+    assert.deepEqual(pinoCalls, [
+      ["warn", { namespace: "azure:sinks", requestId: "42" }, "careful"],
+    ]);
+    assert.lengthOf(winstonEntries, 1);
+    assert.deepInclude(winstonEntries[0], {
+      level: "warn",
+      message: "careful",
+      namespace: "azure:sinks",
+      requestId: "42",
+    });
+  });
+});
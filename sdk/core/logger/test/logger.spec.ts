@@ -63,6 +63,28 @@ describe("setLogLevel", () => {
     assert.ok(!testLogger.error.enabled);
   });
 
+  it("overrides the log level of a namespace and its children", () => {
+    const childLogger = Logger.createClientLogger("test:child");
+    const otherLogger = Logger.createClientLogger("other");
+    Logger.setLogLevel("warning");
+    Logger.setLogLevel("verbose", "azure:test");
+    Logger.setLogLevel("error", "azure:test:child");
+
+    assert.ok(testLogger.verbose.enabled);
+    assert.ok(!childLogger.warning.enabled);
+    assert.ok(childLogger.error.enabled);
+    assert.ok(!otherLogger.info.enabled);
+    assert.ok(otherLogger.warning.enabled);
+    assert.strictEqual(Logger.getLogLevel("azure:test"), "verbose");
+    assert.strictEqual(Logger.getLogLevel("azure:other"), "warning");
+
+    Logger.setLogLevel(undefined, "azure:test");
+    Logger.setLogLevel(undefined, "azure:test:child");
+    assert.ok(!testLogger.info.enabled);
+    assert.ok(childLogger.warning.enabled);
+    Logger.setLogLevel(undefined);
+  });
+
   it("throws when setting to an unknown log level", () => {
     assert.throws(() => {
       Logger.setLogLevel("debug" as any);
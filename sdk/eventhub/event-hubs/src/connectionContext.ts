@@ -8,6 +8,7 @@ import { Connection, ConnectionEvents, Dictionary, EventContext, OnAmqpEvent } f
 import {
   ConnectionConfig,
   ConnectionContextBase,
+  ConnectionStatistics,
   Constants,
   CreateConnectionContextBaseParameters,
   SasTokenProvider,
@@ -45,6 +46,10 @@ export interface ConnectionContext extends ConnectionContextBase {
    * parsing the connection string.
    */
   readonly config: EventHubConnectionConfig;
+  /**
+   * Returns statistics about the underlying AMQP connection.
+   */
+  getConnectionStatistics: () => ConnectionStatistics;
   /**
    * The credential to be used for Authentication.
    * Default value: SasTokenProvider.
@@ -18,7 +18,7 @@ import {
   SubscriptionEventHandlers,
 } from "./eventHubConsumerClientModels";
 import { BalancedLoadBalancingStrategy } from "./loadBalancerStrategies/balancedStrategy";
-import { Constants } from "@azure/core-amqp";
+import { ConnectionStatistics, Constants } from "@azure/core-amqp";
 import { GreedyLoadBalancingStrategy } from "./loadBalancerStrategies/greedyStrategy";
 import { InMemoryCheckpointStore } from "./inMemoryCheckpointStore";
 import { LoadBalancingStrategy } from "./loadBalancerStrategies/loadBalancingStrategy";
@@ -355,6 +355,15 @@ export class EventHubConsumerClient {
     return this._context.close();
   }
 
+  /**
+   * Returns statistics about the underlying AMQP connection, such as whether it is open,
+   * the number of open links and the number of messages sent and received,
+   * e.g. to implement a health probe.
+   */
+  getConnectionStatistics(): ConnectionStatistics {
+    return this._context.getConnectionStatistics();
+  }
+
   /**
    * Provides the id for each partition associated with the Event Hub.
    * @param options - The set of options to apply to the operation call.
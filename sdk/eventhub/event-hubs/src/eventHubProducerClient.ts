@@ -25,7 +25,7 @@ import {
   throwTypeErrorIfParameterMissing,
   validateProducerPartitionSettings,
 } from "./util/error";
-import { AmqpAnnotatedMessage } from "@azure/core-amqp";
+import { AmqpAnnotatedMessage, ConnectionStatistics } from "@azure/core-amqp";
 import { EventData, EventDataInternal } from "./eventData";
 import { EventHubSender } from "./eventHubSender";
 import { OperationOptions } from "./util/operationOptions";
@@ -475,6 +475,15 @@ export class EventHubProducerClient {
     this._sendersMap.clear();
   }
 
+  /**
+   * Returns statistics about the underlying AMQP connection, such as whether it is open,
+   * the number of open links and the number of messages sent and received,
+   * e.g. to implement a health probe.
+   */
+  getConnectionStatistics(): ConnectionStatistics {
+    return this._context.getConnectionStatistics();
+  }
+
   /**
    * Provides the Event Hub runtime information.
    * @param options - The set of options to apply to the operation call.
@@ -44,7 +44,13 @@ export { EventDataBatch, TryAddOptions } from "./eventDataBatch";
 export { Checkpoint } from "./partitionProcessor";
 export { CheckpointStore, PartitionOwnership } from "./eventProcessor";
 export { CloseReason } from "./models/public";
-export { MessagingError, RetryOptions, RetryMode, WebSocketOptions } from "@azure/core-amqp";
+export {
+  ConnectionStatistics,
+  MessagingError,
+  RetryOptions,
+  RetryMode,
+  WebSocketOptions,
+} from "@azure/core-amqp";
 export { TokenCredential } from "@azure/core-auth";
 export { logger } from "./log";
 export {
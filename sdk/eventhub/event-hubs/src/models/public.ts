@@ -97,8 +97,11 @@ export enum CloseReason {
  * over a WebSocket.
  * - `retryOptions`     : The retry options for all the operations on the client/producer/consumer.
  *    - `maxRetries` : The number of times the operation can be retried in case of a retryable error.
- *    - `maxRetryDelayInMs`: The maximum delay between retries. Applicable only when performing exponential retries.
- *    - `mode`: Which retry mode to apply, specified by the `RetryMode` enum. Options are `Exponential` and `Fixed`. Defaults to `Fixed`.
+ *    - `maxRetryDelayInMs`: The maximum delay between retries. Applicable only when performing exponential or jittered retries.
+ *    - `mode`: Which retry mode to apply, specified by the `RetryMode` enum. Options are `Exponential`, `Fixed`,
+ *       `DecorrelatedJitter` and `FullJitter`. Defaults to `Fixed`.
+ *    - `calculateRetryDelay`: A function that decides whether to retry after a failed attempt, returning the delay in milliseconds
+ *       before the next attempt or undefined to stop retrying. When provided, it is used instead of `mode`.
  *    - `retryDelayInMs`: Amount of time to wait in milliseconds before making the next attempt. When `mode` is set to `Exponential`,
  *       this is used to compute the exponentially increasing delays between retries. Default: 30000 milliseconds.
  *    - `timeoutInMs`: Amount of time in milliseconds to wait before the operation times out. This will trigger a retry if there are any
@@ -153,8 +156,11 @@ export interface EventHubClientOptions {
  * over a WebSocket.
  * - `retryOptions`     : The retry options for all the operations on the client/producer/consumer.
  *    - `maxRetries` : The number of times the operation can be retried in case of a retryable error.
- *    - `maxRetryDelayInMs`: The maximum delay between retries. Applicable only when performing exponential retries.
- *    - `mode`: Which retry mode to apply, specified by the `RetryMode` enum. Options are `Exponential` and `Fixed`. Defaults to `Fixed`.
+ *    - `maxRetryDelayInMs`: The maximum delay between retries. Applicable only when performing exponential or jittered retries.
+ *    - `mode`: Which retry mode to apply, specified by the `RetryMode` enum. Options are `Exponential`, `Fixed`,
+ *       `DecorrelatedJitter` and `FullJitter`. Defaults to `Fixed`.
+ *    - `calculateRetryDelay`: A function that decides whether to retry after a failed attempt, returning the delay in milliseconds
+ *       before the next attempt or undefined to stop retrying. When provided, it is used instead of `mode`.
  *    - `retryDelayInMs`: Amount of time to wait in milliseconds before making the next attempt. When `mode` is set to `Exponential`,
  *       this is used to compute the exponentially increasing delays between retries. Default: 30000 milliseconds.
  *    - `timeoutInMs`: Amount of time in milliseconds to wait before the operation times out. This will trigger a retry if there are any
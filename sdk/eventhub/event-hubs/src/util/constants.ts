@@ -6,7 +6,7 @@
  */
 export const packageJsonInfo = {
   name: "@azure/event-hubs",
-  version: "5.8.1",
+  version: "5.9.0",
 };
 
 /**
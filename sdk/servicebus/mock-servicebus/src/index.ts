@@ -0,0 +1,14 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+export {
+  MockServiceBus,
+  MockServiceBusOptions,
+  IMockServiceBus,
+  MockEntityOptions,
+  MockQueueOptions,
+  MockSubscriptionOptions,
+  MockTopicOptions,
+} from "./services/serviceBus";
+export { MockCorrelationRuleFilter, MockRuleOptions, MockSqlRuleFilter } from "./storage/rule";
+export { MockServerOptions } from "./server/mockServer";
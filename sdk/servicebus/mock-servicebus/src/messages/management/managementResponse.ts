@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AmqpError, Message, types } from "rhea";
+
+/**
+ * The status codes Service Bus responds to failed management requests with,
+ * based on the error condition.
+ */
+const errorStatusCodes: Record<string, number> = {
+  "com.microsoft:argument-error": 400,
+  "com.microsoft:argument-out-of-range": 400,
+  "amqp:not-allowed": 400,
+  "amqp:unauthorized-access": 401,
+  "amqp:not-found": 404,
+  "com.microsoft:message-not-found": 404,
+  "com.microsoft:entity-already-exists": 409,
+  "com.microsoft:message-lock-lost": 410,
+  "com.microsoft:session-lock-lost": 410,
+  "com.microsoft:session-cannot-be-locked": 410,
+  "amqp:not-implemented": 501,
+};
+
+export interface GenerateManagementResponseOptions {
+  /**
+   * The management request the response is for.
+   */
+  request: Message;
+  /**
+   * The status code of the response. Defaults to 200.
+   */
+  statusCode?: number;
+  body?: unknown;
+}
+
+/**
+ * Generates the response to a successful `$management` request.
+ */
+export function generateManagementResponse({
+  request,
+  statusCode = 200,
+  body,
+}: GenerateManagementResponseOptions): Message {
+  return {
+    to: request.reply_to,
+    correlation_id: request.message_id,
+    application_properties: {
+      statusCode: types.wrap_int(statusCode),
+      statusDescription: statusCode === 204 ? "No Content" : "OK",
+    },
+    body,
+  };
+}
+
+export interface GenerateManagementErrorResponseOptions {
+  /**
+   * The management request the response is for.
+   */
+  request: Message;
+  error: AmqpError;
+}
+
+/**
+ * Generates the response to a failed `$management` request.
+ */
+export function generateManagementErrorResponse({
+  request,
+  error,
+}: GenerateManagementErrorResponseOptions): Message {
+  return {
+    to: request.reply_to,
+    correlation_id: request.message_id,
+    application_properties: {
+      statusCode: types.wrap_int((error.condition && errorStatusCodes[error.condition]) || 500),
+      statusDescription: error.description,
+      "error-condition": error.condition,
+    },
+    body: undefined,
+  };
+}
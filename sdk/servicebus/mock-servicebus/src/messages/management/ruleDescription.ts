@@ -0,0 +1,118 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { types } from "rhea";
+import { OperationError } from "../../storage/operationError";
+import {
+  MockCorrelationRuleFilter,
+  MockRuleOptions,
+  Rule,
+  isSqlRuleFilter,
+} from "../../storage/rule";
+
+/**
+ * The codes of the described types Service Bus uses to encode rule descriptions.
+ */
+const descriptorCodes = {
+  ruleDescriptionList: 1335734829060,
+  sqlFilterList: 83483426822,
+  trueFilterList: 83483426823,
+  falseFilterList: 83483426824,
+  correlationFilterList: 83483426825,
+  sqlRuleActionList: 1335734829062,
+  emptyRuleActionList: 1335734829061,
+};
+
+/**
+ * The compatibility level Service Bus reports for SQL filters.
+ */
+const sqlCompatibilityLevel = 20;
+
+function described(code: number, values: unknown[]): unknown {
+  return types.described(types.wrap_ulong(code), types.wrap_list(values));
+}
+
+function encodeFilter(rule: Rule): unknown {
+  const filter = rule.filter;
+  if (isSqlRuleFilter(filter)) {
+    const expression = filter.sqlExpression.replace(/\s/g, "");
+    if (expression === "1=1") {
+      return described(descriptorCodes.trueFilterList, []);
+    }
+    if (expression === "1=0") {
+      return described(descriptorCodes.falseFilterList, []);
+    }
+    return described(descriptorCodes.sqlFilterList, [
+      filter.sqlExpression,
+      types.wrap_int(sqlCompatibilityLevel),
+    ]);
+  }
+  return described(descriptorCodes.correlationFilterList, [
+    filter.correlationId ?? null,
+    filter.messageId ?? null,
+    filter.to ?? null,
+    filter.replyTo ?? null,
+    filter.subject ?? null,
+    filter.sessionId ?? null,
+    filter.replyToSessionId ?? null,
+    filter.contentType ?? null,
+    types.wrap_map(filter.applicationProperties ?? {}),
+  ]);
+}
+
+/**
+ * Encodes a rule the way the `com.microsoft:enumerate-rules` management operation returns it.
+ * @param rule - The rule to encode.
+ */
+export function encodeRuleDescription(rule: Rule): unknown {
+  const action =
+    rule.sqlAction !== undefined
+      ? described(descriptorCodes.sqlRuleActionList, [
+          rule.sqlAction,
+          types.wrap_int(sqlCompatibilityLevel),
+        ])
+      : described(descriptorCodes.emptyRuleActionList, []);
+  return described(descriptorCodes.ruleDescriptionList, [
+    encodeFilter(rule),
+    action,
+    rule.name,
+    rule.createdOn,
+  ]);
+}
+
+/**
+ * Decodes the rule sent with a `com.microsoft:add-rule` management request.
+ * @param ruleName - The `rule-name` of the request.
+ * @param ruleDescription - The `rule-description` of the request.
+ */
+export function decodeRuleDescription(
+  ruleName: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ruleDescription: Record<string, any> | undefined
+): MockRuleOptions {
+  const sqlFilter = ruleDescription?.["sql-filter"];
+  const correlationFilter = ruleDescription?.["correlation-filter"];
+  const sqlAction: string | undefined = ruleDescription?.["sql-rule-action"]?.expression;
+
+  if (sqlFilter) {
+    return { name: ruleName, filter: { sqlExpression: String(sqlFilter.expression) }, sqlAction };
+  }
+  if (correlationFilter) {
+    const filter: MockCorrelationRuleFilter = {
+      correlationId: correlationFilter["correlation-id"] ?? undefined,
+      messageId: correlationFilter["message-id"] ?? undefined,
+      to: correlationFilter.to ?? undefined,
+      replyTo: correlationFilter["reply-to"] ?? undefined,
+      subject: correlationFilter.label ?? undefined,
+      sessionId: correlationFilter["session-id"] ?? undefined,
+      replyToSessionId: correlationFilter["reply-to-session-id"] ?? undefined,
+      contentType: correlationFilter["content-type"] ?? undefined,
+      applicationProperties: correlationFilter.properties ?? undefined,
+    };
+    return { name: ruleName, filter, sqlAction };
+  }
+  throw new OperationError(
+    "com.microsoft:argument-error",
+    "The rule description must contain a 'sql-filter' or a 'correlation-filter'."
+  );
+}
@@ -0,0 +1,95 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Delivery, Sender, SenderEvents } from "rhea";
+import { DeliveredMessage, MessageEntity } from "../storage/messageEntity";
+import { lockTokenToDeliveryTag } from "../utils/lockToken";
+
+/**
+ * The StreamingEntitySender is responsible for sending the messages of a queue or subscription
+ * to a client receiving messages, as long as the client's link has credit.
+ */
+export class StreamingEntitySender {
+  private _entity: MessageEntity;
+  private _sender: Sender;
+  private _sessionId?: string;
+  private _receiveAndDelete: boolean;
+  private _isStopped = false;
+  /**
+   * The lock tokens of the messages sent in `peekLock` mode.
+   */
+  private _lockTokens = new WeakMap<Delivery, string>();
+
+  /**
+   * Instantiates a `StreamingEntitySender`.
+   * @param entity - The `MessageEntity` the messages are received from.
+   * @param sender - The sender link that should be used to send messages to.
+   * @param sessionId - The session the messages are received from, if the entity requires sessions.
+   */
+  constructor(entity: MessageEntity, sender: Sender, sessionId?: string) {
+    this._entity = entity;
+    this._sender = sender;
+    this._sessionId = sessionId;
+    // Clients receive in `receiveAndDelete` mode by asking for settled deliveries.
+    this._receiveAndDelete = sender.snd_settle_mode === 1;
+  }
+
+  /**
+   * Starts sending messages.
+   */
+  start(): void {
+    this._entity.addListener(this._pump);
+    this._sender.on(SenderEvents.sendable, this._pump);
+    this._sender.on(SenderEvents.senderDraining, this._onDraining);
+    this._pump();
+  }
+
+  /**
+   * Stops sending messages.
+   */
+  stop(): void {
+    this._isStopped = true;
+    this._entity.removeListener(this._pump);
+    this._sender.removeListener(SenderEvents.sendable, this._pump);
+    this._sender.removeListener(SenderEvents.senderDraining, this._onDraining);
+  }
+
+  /**
+   * Returns the lock token of a message sent by this sender, or `undefined` if the message
+   * was sent in `receiveAndDelete` mode.
+   * @param delivery - The delivery of the message.
+   */
+  getLockToken(delivery: Delivery): string | undefined {
+    return this._lockTokens.get(delivery);
+  }
+
+  private _pump = (): void => {
+    const sender = this._sender;
+    while (!this._isStopped && sender.is_open() && sender.sendable()) {
+      const next = this._receiveNext();
+      if (!next) {
+        break;
+      }
+      if (next.lockToken) {
+        const delivery = sender.send(next.message, lockTokenToDeliveryTag(next.lockToken));
+        this._lockTokens.set(delivery, next.lockToken);
+      } else {
+        sender.send(next.message);
+      }
+    }
+  };
+
+  private _onDraining = (): void => {
+    this._pump();
+    // Let the client that drains the link know there are no more messages to send.
+    if (this._sender.is_open()) {
+      this._sender.set_drained(true);
+    }
+  };
+
+  private _receiveNext(): DeliveredMessage | undefined {
+    return this._receiveAndDelete
+      ? this._entity.receiveAndDeleteNextMessage(this._sessionId)
+      : this._entity.lockNextMessage(this._sessionId);
+  }
+}
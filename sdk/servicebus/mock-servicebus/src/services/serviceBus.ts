@@ -0,0 +1,944 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+  AmqpError,
+  Connection,
+  ConnectionEvents,
+  Message,
+  ReceiverEvents,
+  Sender,
+  SenderEvents,
+  generate_uuid,
+  message as RheaMessageUtil,
+  string_to_uuid,
+  types,
+  uuid_to_string,
+} from "rhea";
+import {
+  ConnectionCloseEvent,
+  MockServer,
+  MockServerOptions,
+  OnDispositionEvent,
+  OnMessagesEvent,
+  ReceiverOpenEvent,
+  SenderCloseEvent,
+  SenderOpenEvent,
+} from "../server/mockServer";
+import { DispositionStatus, MessageEntity, MessageState } from "../storage/messageEntity";
+import { MockRuleOptions, Rule } from "../storage/rule";
+import { OperationError, toAmqpError } from "../storage/operationError";
+import { SqlFilterError } from "../storage/sqlFilter";
+import {
+  decodeRuleDescription,
+  encodeRuleDescription,
+} from "../messages/management/ruleDescription";
+import {
+  generateManagementErrorResponse,
+  generateManagementResponse,
+} from "../messages/management/managementResponse";
+import { StreamingEntitySender } from "../sender/streamingEntitySender";
+import { URL } from "url";
+import { convertDateToTicks } from "../utils/dotnetTicks";
+import { createCbsAccepted } from "../messages/cbs/cbsAccepted";
+
+export interface IMockServiceBus {
+  readonly port: number;
+
+  start: () => Promise<void>;
+  stop: () => Promise<void>;
+}
+
+/**
+ * The options shared by queues and subscriptions.
+ */
+export interface MockEntityOptions {
+  /**
+   * Whether the messages can only be received through sessions.
+   * Defaults to `false`.
+   */
+  requiresSession?: boolean;
+  /**
+   * The duration of message and session locks.
+   * Defaults to 60000.
+   */
+  lockDurationInMs?: number;
+  /**
+   * The number of deliveries after which a message is moved to the dead-letter queue.
+   * Defaults to 10.
+   */
+  maxDeliveryCount?: number;
+}
+
+export interface MockQueueOptions extends MockEntityOptions {
+  /**
+   * The name of the queue.
+   */
+  name: string;
+}
+
+export interface MockSubscriptionOptions extends MockEntityOptions {
+  /**
+   * The name of the subscription.
+   */
+  name: string;
+  /**
+   * The rules of the subscription.
+   * Defaults to the `$Default` rule, which matches all messages.
+   */
+  rules?: MockRuleOptions[];
+}
+
+export interface MockTopicOptions {
+  /**
+   * The name of the topic.
+   */
+  name: string;
+  /**
+   * The subscriptions of the topic.
+   */
+  subscriptions?: MockSubscriptionOptions[];
+}
+
+export interface MockServiceBusOptions extends MockServerOptions {
+  /**
+   * The queues of the namespace.
+   */
+  queues?: MockQueueOptions[];
+  /**
+   * The topics of the namespace, along with their subscriptions.
+   */
+  topics?: MockTopicOptions[];
+
+  /**
+   * The amount of time in ms to wait while the connection is
+   * inactive before force closing the connection.
+   */
+  connectionInactivityTimeoutInMs?: number;
+}
+
+interface Subscription {
+  entity: MessageEntity;
+  /**
+   * Key: rule name
+   */
+  rules: Map<string, Rule>;
+}
+
+interface EntitySenderState {
+  entity: MessageEntity;
+  streamingSender: StreamingEntitySender;
+  sessionId?: string;
+}
+
+const sessionFilterName = "com.microsoft:session-filter";
+const managementSuffix = "/$management";
+const deadLetterQueueSuffix = "/$deadletterqueue";
+const defaultRule: MockRuleOptions = { name: "$Default", filter: { sqlExpression: "1=1" } };
+
+/**
+ * The maximum number of messages a `com.microsoft:batch-delete-messages` request can delete.
+ */
+const maxDeleteMessageCount = 4000;
+
+/**
+ * Converts a sequence number sent by a client, which is decoded as a number,
+ * or as a buffer when it doesn't fit in a number, to a number.
+ */
+function toSequenceNumber(value: number | Buffer): number {
+  if (typeof value === "number") {
+    return value;
+  }
+  return value.readInt32BE(0) * 0x100000000 + value.readUInt32BE(4);
+}
+
+/**
+ * Returns the attach frame the service sends in response to a client's attach,
+ * which rhea doesn't expose in its typings.
+ */
+function getLocalAttach(sender: Sender): {
+  snd_settle_mode: number;
+  properties?: { [key: string]: unknown };
+} {
+  return (sender as unknown as { local: { attach: ReturnType<typeof getLocalAttach> } }).local
+    .attach;
+}
+
+/**
+ * `MockServiceBus` represents a mock Service Bus namespace.
+ *
+ * It stores messages in memory and does not perform any auth verification.
+ */
+export class MockServiceBus implements IMockServiceBus {
+  /**
+   * The underlying AMQP server used to communicate to clients.
+   */
+  private _mockServer: MockServer;
+  /**
+   * The queues, subscriptions and their dead-letter queues messages are received from.
+   *
+   * Key: lower-cased entity path, e.g. `queue` or `topic/subscriptions/subscription/$deadletterqueue`
+   */
+  private _entities = new Map<string, MessageEntity>();
+  /**
+   * Key: lower-cased queue name
+   */
+  private _queues = new Map<string, MessageEntity>();
+  /**
+   * Key: lower-cased topic name, then lower-cased subscription name
+   */
+  private _topics = new Map<string, Map<string, Subscription>>();
+  /**
+   * The sequence number of the last message sent to the namespace.
+   */
+  private _lastSequenceNumber = 0;
+  /**
+   * This provides convenient access to a `Sender`'s `StreamingEntitySender`
+   * so that we can stop it when a `Sender` is closed.
+   */
+  private _entitySenderMap = new Map<Sender, EntitySenderState>();
+
+  private _connectionInactivityTimeoutInMs: number;
+
+  private _connections: Set<Connection> = new Set();
+
+  private _clearableTimeouts = new Set<ReturnType<typeof setTimeout>>();
+
+  /**
+   * The port number the service is listening on.
+   * Returns `-1` if the service is not currently listening.
+   */
+  public get port(): number {
+    return this._mockServer.port;
+  }
+
+  /**
+   * Instantiates a `MockServiceBus` using the provided options.
+   * @param options - The options to instantiate the MockServiceBus with.
+   */
+  constructor(options: MockServiceBusOptions = {}) {
+    this._connectionInactivityTimeoutInMs = options.connectionInactivityTimeoutInMs ?? 0;
+    for (const queue of options.queues ?? []) {
+      this._queues.set(queue.name.toLowerCase(), this._createEntity(queue.name, queue));
+    }
+    for (const topic of options.topics ?? []) {
+      const subscriptions = new Map<string, Subscription>();
+      for (const subscription of topic.subscriptions ?? []) {
+        const entity = this._createEntity(
+          `${topic.name}/Subscriptions/${subscription.name}`,
+          subscription
+        );
+        const rules = new Map<string, Rule>();
+        for (const ruleOptions of subscription.rules ?? [defaultRule]) {
+          rules.set(ruleOptions.name.toLowerCase(), new Rule(ruleOptions));
+        }
+        subscriptions.set(subscription.name.toLowerCase(), { entity, rules });
+      }
+      this._topics.set(topic.name.toLowerCase(), subscriptions);
+    }
+
+    this._mockServer = new MockServer(options);
+    this._mockServer.on("receiverOpen", this._handleReceiverOpen);
+    this._mockServer.on("senderOpen", this._handleSenderOpen);
+    this._mockServer.on("senderClose", this._handleSenderClose);
+    this._mockServer.on("connectionClose", this._handleConnectionClose);
+    this._mockServer.on("onMessages", this._handleOnMessages);
+    this._mockServer.on("onDisposition", this._handleOnDisposition);
+    this._mockServer.on("connectionOpen", (event) => {
+      this._connections.add(event.context.connection);
+      this._handleConnectionInactivity(event.context.connection);
+    });
+    this._mockServer.on("connectionClose", (event) => {
+      this._connections.delete(event.context.connection);
+    });
+  }
+
+  /**
+   * Returns the number of active, deferred and scheduled messages of a queue, a subscription
+   * or a dead-letter queue, e.g. `queue/$DeadLetterQueue`.
+   * Returns `undefined` if the entity doesn't exist.
+   * @param entityPath - The path of the entity.
+   */
+  getMessageCounts(entityPath: string): Record<MessageState, number> | undefined {
+    return this._entities.get(entityPath.toLowerCase())?.getMessageCounts();
+  }
+
+  private _createEntity(path: string, options: MockEntityOptions): MessageEntity {
+    const entityOptions = {
+      requiresSession: options.requiresSession ?? false,
+      lockDurationInMs: options.lockDurationInMs ?? 60000,
+      maxDeliveryCount: options.maxDeliveryCount ?? 10,
+    };
+    const deadLetterEntity = new MessageEntity(`${path}/$DeadLetterQueue`, {
+      ...entityOptions,
+      requiresSession: false,
+    });
+    const entity = new MessageEntity(path, entityOptions, deadLetterEntity);
+    this._entities.set(path.toLowerCase(), entity);
+    this._entities.set(deadLetterEntity.path.toLowerCase(), deadLetterEntity);
+    return entity;
+  }
+
+  private _handleConnectionInactivity = (connection: Connection): void => {
+    if (!this._connectionInactivityTimeoutInMs) {
+      return;
+    }
+
+    const forceCloseConnection = (): void => {
+      connection.close({
+        condition: "amqp:connection:forced",
+        description: `The connection was inactive for more than the allowed ${this._connectionInactivityTimeoutInMs} milliseconds and is closed by the service.`,
+      });
+    };
+
+    let tid = setTimeout(forceCloseConnection, this._connectionInactivityTimeoutInMs);
+    this._clearableTimeouts.add(tid);
+
+    const bounceTimeout = (): void => {
+      clearTimeout(tid);
+      this._clearableTimeouts.delete(tid);
+      tid = setTimeout(forceCloseConnection, this._connectionInactivityTimeoutInMs);
+      this._clearableTimeouts.add(tid);
+    };
+
+    connection.addListener(ConnectionEvents.settled, bounceTimeout);
+    connection.addListener(SenderEvents.senderFlow, bounceTimeout);
+    connection.addListener(SenderEvents.settled, bounceTimeout);
+    connection.addListener(ReceiverEvents.receiverFlow, bounceTimeout);
+    connection.addListener(ReceiverEvents.settled, bounceTimeout);
+  };
+
+  /**
+   * The event handler for when the service creates a `Receiver` link.
+   *
+   * This is done in response to the client opening a `Sender` link.
+   * @param event -
+   */
+  private _handleReceiverOpen = (event: ReceiverOpenEvent): void => {
+    event.receiver.set_source(event.receiver.source);
+    event.receiver.set_target(event.receiver.target);
+    const entityPath = (event.entityPath ?? "").toLowerCase();
+    if (entityPath === "$cbs" || entityPath.endsWith(managementSuffix)) {
+      // We don't need to do anything special when opening a $cbs or $management receiver.
+      return;
+    }
+    // Messages can only be sent to queues and topics.
+    if (!this._queues.has(entityPath) && !this._topics.has(entityPath)) {
+      event.receiver.close(this._createEntityNotFoundError(event.entityPath));
+    }
+  };
+
+  /**
+   * The event handler for when the service creates a `Sender` link.
+   *
+   * This is done in response to the client opening a `Receiver` link.
+   * @param event -
+   */
+  private _handleSenderOpen = (event: SenderOpenEvent): void => {
+    const sender = event.sender;
+    sender.set_source(sender.source);
+    sender.set_target(sender.target);
+    const entityPath = (event.entityPath ?? "").toLowerCase();
+    if (entityPath === "$cbs" || entityPath.endsWith(managementSuffix)) {
+      // We don't need to do anything special when opening a $cbs or $management sender.
+      return;
+    }
+
+    const entity = this._entities.get(entityPath);
+    if (!entity) {
+      sender.close(this._createEntityNotFoundError(event.entityPath));
+      return;
+    }
+
+    // Settle the messages when they are sent if the client receives in `receiveAndDelete` mode.
+    getLocalAttach(sender).snd_settle_mode = sender.snd_settle_mode;
+
+    const filter = sender.source?.filter ?? {};
+    const isSessionReceiver = sessionFilterName in filter;
+    if (isSessionReceiver !== entity.requiresSession) {
+      sender.close({
+        condition: "amqp:not-allowed",
+        description: entity.requiresSession
+          ? `It is not possible for an entity that requires sessions to create a non-sessionful message receiver.`
+          : `It is not possible for an entity that doesn't require sessions to create a sessionful message receiver.`,
+      });
+      return;
+    }
+
+    let sessionId: string | undefined;
+    if (isSessionReceiver) {
+      try {
+        const session = entity.acceptSession(sender, filter[sessionFilterName] ?? undefined);
+        if (!session) {
+          sender.close({
+            condition: "com.microsoft:timeout",
+            description: `No unlocked sessions were available in '${event.entityPath}'.`,
+          });
+          return;
+        }
+        sessionId = session.sessionId;
+        sender.set_source({
+          ...sender.source,
+          filter: { ...filter, [sessionFilterName]: sessionId },
+        });
+        getLocalAttach(sender).properties = {
+          ...sender.properties,
+          "com.microsoft:locked-until-utc": types.wrap_long(
+            convertDateToTicks(session.lock!.lockedUntil)
+          ),
+        };
+      } catch (err: any) {
+        sender.close(toAmqpError(err));
+        return;
+      }
+    }
+
+    const streamingSender = new StreamingEntitySender(entity, sender, sessionId);
+    this._entitySenderMap.set(sender, { entity, streamingSender, sessionId });
+    streamingSender.start();
+  };
+
+  /**
+   * The event handler for when the service closes a `Sender` link.
+   *
+   * This is done in response to the client closing a `Receiver` link,
+   * or the service closing the `Sender` link.
+   * @param event -
+   */
+  private _handleSenderClose = (event: SenderCloseEvent): void => {
+    this._stopEntitySender(event.sender);
+  };
+
+  /**
+   * The event handler for when the service closes a connection.
+   *
+   * This is done when a client explicitly closes or is disconnected.
+   * @param event -
+   */
+  private _handleConnectionClose = (event: ConnectionCloseEvent): void => {
+    // Ensure any `StreamingEntitySender`s associated with the connection are stopped,
+    // and the sessions they locked are released.
+    for (const sender of this._entitySenderMap.keys()) {
+      if (sender.connection === event.context.connection) {
+        this._stopEntitySender(sender);
+      }
+    }
+  };
+
+  private _stopEntitySender(sender: Sender): void {
+    const state = this._entitySenderMap.get(sender);
+    this._entitySenderMap.delete(sender);
+    if (state) {
+      state.streamingSender.stop();
+      state.entity.releaseSessions(sender);
+    }
+  }
+
+  /**
+   * The event handler for when a client settles a message it received over a `Receiver` link.
+   * @param event -
+   */
+  private _handleOnDisposition = (event: OnDispositionEvent): void => {
+    const state = this._entitySenderMap.get(event.sender);
+    const lockToken = state?.streamingSender.getLockToken(event.delivery);
+    if (!state || !lockToken) {
+      // Messages sent in `receiveAndDelete` mode are already settled.
+      return;
+    }
+
+    const remoteState = event.delivery.remote_state ?? {};
+    let status: DispositionStatus;
+    let propertiesToModify: { [key: string]: unknown } | undefined;
+    let deadLetterReason: string | undefined;
+    let deadLetterDescription: string | undefined;
+    switch (event.outcome) {
+      case "accepted":
+        status = "completed";
+        break;
+      case "rejected": {
+        status = "suspended";
+        const { DeadLetterReason, DeadLetterErrorDescription, ...properties } =
+          remoteState.error?.info ?? {};
+        deadLetterReason = DeadLetterReason;
+        deadLetterDescription = DeadLetterErrorDescription;
+        propertiesToModify = properties;
+        break;
+      }
+      case "modified":
+        status = remoteState.undeliverable_here ? "defered" : "abandoned";
+        propertiesToModify = remoteState.message_annotations;
+        break;
+      default:
+        status = "abandoned";
+    }
+
+    try {
+      if (
+        state.sessionId !== undefined &&
+        !state.entity.isSessionLockedBy(state.sessionId, event.sender)
+      ) {
+        throw new OperationError(
+          "com.microsoft:session-lock-lost",
+          `The session lock has expired on the session '${state.sessionId}'. Accept the session again.`
+        );
+      }
+      state.entity.settleMessage(lockToken, status, {
+        propertiesToModify,
+        deadLetterReason,
+        deadLetterDescription,
+      });
+      // Settle with the outcome the client chose, as clients expect the settlement to have a state.
+      // Dead-lettered messages are settled without the error the client sent along with the
+      // reason, which clients would report as a failure.
+      event.delivery.update(
+        true,
+        event.outcome === "rejected"
+          ? // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (RheaMessageUtil as any).rejected().described()
+          : remoteState.described?.()
+      );
+    } catch (err: any) {
+      event.delivery.update(
+        true,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (RheaMessageUtil as any).rejected({ error: toAmqpError(err) }).described()
+      );
+    }
+  };
+
+  /**
+   * The event handler for when the service receives a message.
+   *
+   * Messages are not automatically accepted/rejected.
+   * @param event -
+   */
+  private _handleOnMessages = (event: OnMessagesEvent): void => {
+    const entityPath = (event.entityPath ?? "").toLowerCase();
+    if (this._queues.has(entityPath) || this._topics.has(entityPath)) {
+      return this._handleReceivedMessage(event, entityPath);
+    }
+
+    for (const message of event.messages) {
+      if (entityPath === "$cbs") {
+        this._handleCbsMessage(event, message);
+      } else if (entityPath.endsWith(managementSuffix)) {
+        this._handleManagementMessage(
+          event,
+          message,
+          entityPath.substring(0, entityPath.length - managementSuffix.length)
+        );
+      } else {
+        // Accept other messages my default.
+        event.context.delivery?.accept();
+      }
+    }
+  };
+
+  /**
+   * Handles responding to CBS messages.
+   * @param event -
+   */
+  private _handleCbsMessage(event: OnMessagesEvent, message: Message): void {
+    let outgoingMessage: Message;
+    if (!this.isValidCbsAuth(message)) {
+      outgoingMessage = {
+        correlation_id: message.message_id?.toString(),
+        to: message.reply_to,
+        application_properties: {
+          "status-code": 404,
+          "status-description": `The messaging entity '${message.application_properties?.name}' could not be found.`,
+          "error-condition": "amqp:not-found",
+        },
+        body: undefined,
+      };
+    } else {
+      outgoingMessage = createCbsAccepted({
+        correlationId: message.message_id as string,
+        toLinkName: message.reply_to,
+      });
+    }
+    event.context.delivery?.accept();
+    event.sendMessage(outgoingMessage);
+  }
+
+  /**
+   * Handles storing and accepting/rejecting messages sent from a client to a queue or topic.
+   * @param event -
+   * @param entityPath - The lower-cased name of the queue or topic.
+   */
+  private _handleReceivedMessage(event: OnMessagesEvent, entityPath: string): void {
+    const delivery = event.context.delivery;
+
+    if (!delivery) {
+      throw new Error("event.context.delivery must be defined");
+    }
+
+    const deliverySize = (delivery as { data?: unknown[] })["data"]?.length ?? 0;
+    const maxMessageSize =
+      event.context.receiver?.get_option("max_message_size", 1024 * 1024) ?? 1024 * 1024;
+    if (deliverySize >= maxMessageSize) {
+      delivery.reject({
+        condition: "amqp:link:message-size-exceeded",
+        description: `The received message (delivery-id:${
+          delivery.id
+        }, size:${deliverySize} bytes) exceeds the limit (${
+          maxMessageSize ?? 1024 * 1024
+        } bytes) currently allowed on the link.`,
+      });
+      return;
+    }
+
+    const queue = this._queues.get(entityPath);
+    if (queue?.requiresSession && event.messages.some((message) => message.group_id == null)) {
+      delivery.reject({
+        condition: "amqp:not-allowed",
+        description: `The SessionId was not set on a message, and it cannot be sent to the entity. Entities that have session support enabled can only receive messages that have the SessionId set to a valid value.`,
+      });
+      return;
+    }
+    delivery.accept();
+    for (const message of event.messages) {
+      this._storeMessage(entityPath, message);
+    }
+  }
+
+  /**
+   * Stores a message sent to a queue, or to the subscriptions of a topic whose rules it matches.
+   * @param entityPath - The lower-cased name of the queue or topic.
+   * @param message - The message sent by the client.
+   * @returns The sequence number of the message.
+   */
+  private _storeMessage(entityPath: string, message: Message): number {
+    const sequenceNumber = ++this._lastSequenceNumber;
+    if (message.message_id == null) {
+      // Service Bus assigns an ID to the messages sent without one.
+      message.message_id = generate_uuid();
+    }
+    const queue = this._queues.get(entityPath);
+    if (queue) {
+      queue.enqueue(message, sequenceNumber);
+    }
+    for (const subscription of this._topics.get(entityPath)?.values() ?? []) {
+      const rules = Array.from(subscription.rules.values());
+      if (rules.some((rule) => rule.matches(message))) {
+        subscription.entity.enqueue(message, sequenceNumber);
+      }
+    }
+    return sequenceNumber;
+  }
+
+  /**
+   * Handles responding to `$management` requests.
+   * @param event -
+   * @param message - The request.
+   * @param entityPath - The lower-cased path of the entity the request is for.
+   */
+  private _handleManagementMessage(
+    event: OnMessagesEvent,
+    message: Message,
+    entityPath: string
+  ): void {
+    let outgoingMessage: Message;
+    try {
+      outgoingMessage = this._handleManagementOperation(message, entityPath);
+    } catch (err: any) {
+      outgoingMessage = generateManagementErrorResponse({
+        request: message,
+        error: toAmqpError(err),
+      });
+    }
+    event.context.delivery?.accept();
+    event.sendMessage(outgoingMessage);
+  }
+
+  private _handleManagementOperation(request: Message, entityPath: string): Message {
+    const operation: string | undefined = request.application_properties?.operation;
+    const body = request.body ?? {};
+
+    // Scheduling messages is done through the management link of a queue or topic.
+    switch (operation) {
+      case "com.microsoft:schedule-message": {
+        this._getSendableEntity(entityPath);
+        const sequenceNumbers = (body.messages as Array<{ message: Buffer }>).map((entry) =>
+          this._storeMessage(
+            entityPath,
+            RheaMessageUtil.decode(entry.message) as unknown as Message
+          )
+        );
+        return generateManagementResponse({
+          request,
+          body: { "sequence-numbers": types.wrap_array(sequenceNumbers, 0x81, undefined) },
+        });
+      }
+      case "com.microsoft:cancel-scheduled-message": {
+        this._getSendableEntity(entityPath);
+        const sequenceNumbers = (body["sequence-numbers"] as Array<number | Buffer>).map(
+          toSequenceNumber
+        );
+        const queue = this._queues.get(entityPath);
+        const subscriptions = this._topics.get(entityPath)?.values() ?? [];
+        for (const entity of [queue, ...Array.from(subscriptions, (s) => s.entity)]) {
+          entity?.cancelScheduledMessages(sequenceNumbers);
+        }
+        return generateManagementResponse({ request });
+      }
+    }
+
+    const entity = this._entities.get(entityPath);
+    if (!entity) {
+      throw new OperationError(
+        "amqp:not-found",
+        this._createEntityNotFoundError(entityPath).description!
+      );
+    }
+    const sessionId: string | undefined = body["session-id"] ?? undefined;
+
+    switch (operation) {
+      case "com.microsoft:peek-message": {
+        const messages = entity.peekMessages(
+          toSequenceNumber(body["from-sequence-number"]),
+          body["message-count"],
+          sessionId
+        );
+        if (!messages.length) {
+          return generateManagementResponse({ request, statusCode: 204 });
+        }
+        return generateManagementResponse({
+          request,
+          body: {
+            messages: messages.map((message) => ({ message: RheaMessageUtil.encode(message) })),
+          },
+        });
+      }
+      case "com.microsoft:renew-lock": {
+        const expirations = this._getLockTokens(body).map((lockToken) =>
+          entity.renewMessageLock(lockToken)
+        );
+        return generateManagementResponse({
+          request,
+          body: { expirations: types.wrap_array(expirations, 0x83, undefined) },
+        });
+      }
+      case "com.microsoft:receive-by-sequence-number": {
+        const messages = entity.receiveDeferredMessages(
+          (body["sequence-numbers"] as Array<number | Buffer>).map(toSequenceNumber),
+          body["receiver-settle-mode"] === 0,
+          sessionId
+        );
+        return generateManagementResponse({
+          request,
+          body: {
+            messages: messages.map(({ message, lockToken }) =>
+              lockToken
+                ? {
+                    message: RheaMessageUtil.encode(message),
+                    "lock-token": types.wrap_uuid(string_to_uuid(lockToken)),
+                  }
+                : { message: RheaMessageUtil.encode(message) }
+            ),
+          },
+        });
+      }
+      case "com.microsoft:batch-delete-messages": {
+        const messageCount = body["message-count"];
+        if (
+          typeof messageCount !== "number" ||
+          messageCount < 1 ||
+          messageCount > maxDeleteMessageCount
+        ) {
+          throw new OperationError(
+            "com.microsoft:argument-out-of-range",
+            `The message count must be between 1 and ${maxDeleteMessageCount}.`
+          );
+        }
+        const deletedMessageCount = entity.deleteMessages(
+          messageCount,
+          new Date(body["enqueued-time-utc"] ?? Date.now()),
+          sessionId
+        );
+        return generateManagementResponse({
+          request,
+          body: { "message-count": types.wrap_int(deletedMessageCount) },
+        });
+      }
+      case "com.microsoft:update-disposition": {
+        for (const lockToken of this._getLockTokens(body)) {
+          entity.settleMessage(lockToken, body["disposition-status"], {
+            propertiesToModify: body["properties-to-modify"],
+            deadLetterReason: body["deadletter-reason"],
+            deadLetterDescription: body["deadletter-description"],
+          });
+        }
+        return generateManagementResponse({ request });
+      }
+      case "com.microsoft:renew-session-lock":
+        return generateManagementResponse({
+          request,
+          body: { expiration: entity.renewSessionLock(this._getSessionId(sessionId)) },
+        });
+      case "com.microsoft:set-session-state":
+        entity.setSessionState(this._getSessionId(sessionId), body["session-state"] ?? undefined);
+        return generateManagementResponse({ request });
+      case "com.microsoft:get-session-state":
+        return generateManagementResponse({
+          request,
+          body: {
+            "session-state": entity.getSessionState(this._getSessionId(sessionId)) ?? null,
+          },
+        });
+      case "com.microsoft:get-message-sessions":
+        return generateManagementResponse({
+          request,
+          body: {
+            "sessions-ids": entity.listSessions(
+              new Date(body["last-updated-time"] ?? 0),
+              body.skip ?? 0,
+              body.top ?? Number.MAX_SAFE_INTEGER
+            ),
+          },
+        });
+      case "com.microsoft:add-rule":
+      case "com.microsoft:remove-rule":
+      case "com.microsoft:enumerate-rules":
+        return this._handleRuleOperation(request, entityPath);
+      default:
+        throw new OperationError(
+          "amqp:not-implemented",
+          `The management operation '${operation}' is not supported by the mock service.`
+        );
+    }
+  }
+
+  private _handleRuleOperation(request: Message, entityPath: string): Message {
+    const operation: string | undefined = request.application_properties?.operation;
+    const body = request.body ?? {};
+    const [topicName, , subscriptionName] = entityPath.split("/");
+    const subscription = this._topics.get(topicName)?.get(subscriptionName ?? "");
+    if (!subscription) {
+      throw new OperationError(
+        "amqp:not-allowed",
+        `Rules can only be managed on subscriptions, not on '${entityPath}'.`
+      );
+    }
+
+    switch (operation) {
+      case "com.microsoft:add-rule": {
+        const ruleName = String(body["rule-name"]);
+        if (subscription.rules.has(ruleName.toLowerCase())) {
+          throw new OperationError(
+            "com.microsoft:entity-already-exists",
+            `The messaging entity '${entityPath}/Rules/${ruleName}' already exists.`
+          );
+        }
+        try {
+          const rule = new Rule(decodeRuleDescription(ruleName, body["rule-description"]));
+          subscription.rules.set(ruleName.toLowerCase(), rule);
+        } catch (err: any) {
+          if (err instanceof SqlFilterError) {
+            throw new OperationError("com.microsoft:argument-error", err.message);
+          }
+          throw err;
+        }
+        return generateManagementResponse({ request });
+      }
+      case "com.microsoft:remove-rule": {
+        const ruleName = String(body["rule-name"]);
+        if (!subscription.rules.delete(ruleName.toLowerCase())) {
+          throw new OperationError(
+            "amqp:not-found",
+            `The messaging entity '${entityPath}/Rules/${ruleName}' could not be found.`
+          );
+        }
+        return generateManagementResponse({ request });
+      }
+      default: {
+        const skip: number = body.skip ?? 0;
+        const top: number = body.top ?? Number.MAX_SAFE_INTEGER;
+        const rules = Array.from(subscription.rules.values()).slice(skip, skip + top);
+        if (!rules.length) {
+          return generateManagementResponse({ request, statusCode: 204 });
+        }
+        return generateManagementResponse({
+          request,
+          body: {
+            rules: rules.map((rule) => ({ "rule-description": encodeRuleDescription(rule) })),
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Ensures messages can be sent to the entity, which must be a queue or a topic.
+   */
+  private _getSendableEntity(entityPath: string): void {
+    if (!this._queues.has(entityPath) && !this._topics.has(entityPath)) {
+      throw new OperationError(
+        "amqp:not-found",
+        this._createEntityNotFoundError(entityPath).description!
+      );
+    }
+  }
+
+  private _getLockTokens(body: { "lock-tokens": Buffer[] }): string[] {
+    return body["lock-tokens"].map((lockToken) => uuid_to_string(lockToken));
+  }
+
+  private _getSessionId(sessionId: string | undefined): string {
+    if (sessionId === undefined) {
+      throw new OperationError(
+        "com.microsoft:argument-error",
+        "The session-id of the request must be set."
+      );
+    }
+    return sessionId;
+  }
+
+  private _createEntityNotFoundError(entityPath: string | undefined): AmqpError {
+    return {
+      condition: "amqp:not-found",
+      description: `The messaging entity '${entityPath}' could not be found.`,
+    };
+  }
+
+  /**
+   * Starts the service.
+   */
+  start(): Promise<void> {
+    return this._mockServer.start();
+  }
+
+  /**
+   * Stops the service.
+   */
+  stop(): Promise<void> {
+    for (const tid of this._clearableTimeouts.values()) {
+      clearTimeout(tid);
+    }
+    this._clearableTimeouts.clear();
+    for (const entity of this._entities.values()) {
+      entity.dispose();
+    }
+    return this._mockServer.stop();
+  }
+
+  private isValidCbsAuth(message: Message): boolean | undefined {
+    const name = message.application_properties?.name as string | undefined;
+    if (!name) {
+      return;
+    }
+
+    const url = new URL(name);
+
+    let searchPath = url.pathname.startsWith("/") ? url.pathname.substring(1) : url.pathname;
+    searchPath = searchPath.toLowerCase();
+    if (searchPath.endsWith(managementSuffix)) {
+      searchPath = searchPath.substring(0, searchPath.length - managementSuffix.length);
+    }
+    if (searchPath.endsWith(deadLetterQueueSuffix)) {
+      searchPath = searchPath.substring(0, searchPath.length - deadLetterQueueSuffix.length);
+    }
+
+    return this._entities.has(searchPath) || this._topics.has(searchPath);
+  }
+}
@@ -0,0 +1,660 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Message, generate_uuid, types } from "rhea";
+import { OperationError } from "./operationError";
+
+/**
+ * The state of a stored message, which is also sent to clients as the
+ * `x-opt-message-state` annotation.
+ */
+export type MessageState = "active" | "deferred" | "scheduled";
+
+const messageStateCodes: Record<MessageState, number> = {
+  active: 0,
+  deferred: 1,
+  scheduled: 2,
+};
+
+export interface MessageRecord {
+  /**
+   * The message as it was sent by the client.
+   */
+  message: Message;
+  sequenceNumber: number;
+  enqueuedTime: Date;
+  scheduledEnqueueTime?: Date;
+  sessionId?: string;
+  /**
+   * The number of times the message was delivered to a receiver.
+   */
+  deliveryCount: number;
+  state: MessageState;
+  deadLetterSource?: string;
+  lock?: {
+    token: string;
+    lockedUntil: Date;
+  };
+}
+
+export interface SessionRecord {
+  sessionId: string;
+  state?: Buffer;
+  updatedOn: Date;
+  lock?: {
+    /**
+     * The link that accepted the session.
+     */
+    owner: unknown;
+    lockedUntil: Date;
+  };
+}
+
+/**
+ * A message delivered to a receiver.
+ */
+export interface DeliveredMessage {
+  message: Message;
+  /**
+   * The lock token of the message, unless it was received in `receiveAndDelete` mode.
+   */
+  lockToken?: string;
+}
+
+/**
+ * The disposition of a message settled with a lock token, as named
+ * by the `com.microsoft:update-disposition` management operation.
+ */
+export type DispositionStatus = "completed" | "abandoned" | "defered" | "suspended";
+
+export interface SettleOptions {
+  /**
+   * Application properties to set on the message when it is abandoned, deferred or dead-lettered.
+   */
+  propertiesToModify?: { [key: string]: unknown };
+  deadLetterReason?: string;
+  deadLetterDescription?: string;
+}
+
+export interface MessageEntityOptions {
+  /**
+   * Whether the messages of the entity can only be received through sessions.
+   */
+  requiresSession: boolean;
+  /**
+   * The duration of message and session locks.
+   */
+  lockDurationInMs: number;
+  /**
+   * The number of deliveries after which a message is dead-lettered.
+   */
+  maxDeliveryCount: number;
+}
+
+/**
+ * A `MessageEntity` stores the messages of a queue, a subscription or a dead-letter queue,
+ * and implements the locking, settlement, deferral, scheduling and session semantics of Service Bus.
+ */
+export class MessageEntity {
+  /**
+   * All the messages of the entity, ordered by sequence number.
+   */
+  private _records: MessageRecord[] = [];
+  /**
+   * The sessions of the entity.
+   *
+   * Key: session id
+   */
+  private _sessions = new Map<string, SessionRecord>();
+  /**
+   * Listeners notified whenever messages may have become available.
+   */
+  private _listeners = new Set<() => void>();
+  private _timers = new Set<ReturnType<typeof setTimeout>>();
+
+  /**
+   * Instantiates a `MessageEntity`.
+   * @param path - The entity path, e.g. `queue` or `topic/Subscriptions/subscription`.
+   * @param options - The options of the entity.
+   * @param deadLetterEntity - The entity messages are moved to when they are dead-lettered.
+   * It is `undefined` for the dead-letter queue itself.
+   */
+  constructor(
+    public readonly path: string,
+    private readonly _options: MessageEntityOptions,
+    public readonly deadLetterEntity?: MessageEntity
+  ) {}
+
+  public get requiresSession(): boolean {
+    return this._options.requiresSession;
+  }
+
+  /**
+   * The number of messages in each state.
+   */
+  public getMessageCounts(): Record<MessageState, number> {
+    const counts: Record<MessageState, number> = { active: 0, deferred: 0, scheduled: 0 };
+    for (const record of this._records) {
+      counts[record.state]++;
+    }
+    return counts;
+  }
+
+  /**
+   * Adds a listener that is called whenever messages may have become available.
+   * @param listener -
+   */
+  public addListener(listener: () => void): void {
+    this._listeners.add(listener);
+  }
+
+  public removeListener(listener: () => void): void {
+    this._listeners.delete(listener);
+  }
+
+  /**
+   * Stores a message. A message with a `x-opt-scheduled-enqueue-time` annotation in the future
+   * is scheduled, and becomes active at that time.
+   * @param message - The message sent by a client.
+   * @param sequenceNumber - The sequence number assigned to the message.
+   */
+  public enqueue(message: Message, sequenceNumber: number): MessageRecord {
+    const scheduledEnqueueTime = message.message_annotations?.["x-opt-scheduled-enqueue-time"];
+    const record: MessageRecord = {
+      message,
+      sequenceNumber,
+      enqueuedTime: new Date(),
+      deliveryCount: 0,
+      state: "active",
+    };
+    if (message.group_id != null) {
+      record.sessionId = String(message.group_id);
+    }
+    if (scheduledEnqueueTime != null) {
+      record.scheduledEnqueueTime = new Date(scheduledEnqueueTime);
+      const delayInMs = record.scheduledEnqueueTime.getTime() - Date.now();
+      if (delayInMs > 0) {
+        record.state = "scheduled";
+        this._setTimer(() => {
+          if (record.state === "scheduled") {
+            record.state = "active";
+            record.enqueuedTime = new Date();
+            this._notify();
+          }
+        }, delayInMs);
+      }
+    }
+    this._addRecord(record);
+    return record;
+  }
+
+  /**
+   * Removes scheduled messages before they become active.
+   * @param sequenceNumbers - The sequence numbers of the scheduled messages.
+   */
+  public cancelScheduledMessages(sequenceNumbers: number[]): void {
+    for (const sequenceNumber of sequenceNumbers) {
+      const record = this._findBySequenceNumber(sequenceNumber);
+      if (record?.state === "scheduled") {
+        this._removeRecord(record);
+      }
+    }
+  }
+
+  /**
+   * Locks the next available message and returns it, or returns `undefined` if none is available.
+   * @param sessionId - The session the message must belong to, if the entity requires sessions.
+   */
+  public lockNextMessage(sessionId?: string): DeliveredMessage | undefined {
+    const record = this._nextAvailableRecord(sessionId);
+    if (!record) {
+      return;
+    }
+    return this._lock(record);
+  }
+
+  /**
+   * Removes the next available message and returns it, or returns `undefined` if none is available.
+   * @param sessionId - The session the message must belong to, if the entity requires sessions.
+   */
+  public receiveAndDeleteNextMessage(sessionId?: string): DeliveredMessage | undefined {
+    const record = this._nextAvailableRecord(sessionId);
+    if (!record) {
+      return;
+    }
+    this._removeRecord(record);
+    return { message: this._deliver(record) };
+  }
+
+  /**
+   * Receives deferred messages by sequence number.
+   * @param sequenceNumbers - The sequence numbers of the deferred messages.
+   * @param receiveAndDelete - Whether the messages are removed rather than locked.
+   * @param sessionId - The session the messages belong to.
+   */
+  public receiveDeferredMessages(
+    sequenceNumbers: number[],
+    receiveAndDelete: boolean,
+    sessionId?: string
+  ): DeliveredMessage[] {
+    const records = sequenceNumbers.map((sequenceNumber) => {
+      const record = this._findBySequenceNumber(sequenceNumber);
+      if (!record || record.state !== "deferred" || record.sessionId !== sessionId) {
+        throw new OperationError(
+          "com.microsoft:message-not-found",
+          `Failed to retrieve the deferred message with sequence number ${sequenceNumber}.`
+        );
+      }
+      return record;
+    });
+
+    return records.map((record) => {
+      if (receiveAndDelete) {
+        this._removeRecord(record);
+        return { message: this._deliver(record) };
+      }
+      return this._lock(record);
+    });
+  }
+
+  /**
+   * Returns the messages from the given sequence number on, without locking them.
+   * @param fromSequenceNumber - The sequence number of the first message to return.
+   * @param maxMessageCount - The maximum number of messages to return.
+   * @param sessionId - Restricts the messages to the ones of the session.
+   */
+  public peekMessages(
+    fromSequenceNumber: number,
+    maxMessageCount: number,
+    sessionId?: string
+  ): Message[] {
+    return this._records
+      .filter(
+        (record) =>
+          record.sequenceNumber >= fromSequenceNumber &&
+          (sessionId === undefined || record.sessionId === sessionId)
+      )
+      .slice(0, maxMessageCount)
+      .map((record) => this._toOutgoingMessage(record));
+  }
+
+  /**
+   * Deletes the oldest messages that were enqueued before the given time, whether they are locked,
+   * deferred or neither. Scheduled messages are not deleted.
+   * @param maxMessageCount - The maximum number of messages to delete.
+   * @param beforeEnqueuedTime - Only messages enqueued before this time are deleted.
+   * @param sessionId - Restricts the messages to the ones of the session.
+   * @returns The number of messages that were deleted.
+   */
+  public deleteMessages(
+    maxMessageCount: number,
+    beforeEnqueuedTime: Date,
+    sessionId?: string
+  ): number {
+    const records = this._records
+      .filter(
+        (record) =>
+          record.state !== "scheduled" &&
+          record.enqueuedTime < beforeEnqueuedTime &&
+          (sessionId === undefined || record.sessionId === sessionId)
+      )
+      .slice(0, maxMessageCount);
+    for (const record of records) {
+      this._removeRecord(record);
+    }
+    return records.length;
+  }
+
+  /**
+   * Settles a locked message.
+   * @param lockToken - The lock token of the message.
+   * @param status - How the message is settled.
+   * @param options - The properties to modify and the dead-letter reason and description.
+   */
+  public settleMessage(
+    lockToken: string,
+    status: DispositionStatus,
+    options: SettleOptions = {}
+  ): void {
+    const record = this._findLockedRecord(lockToken);
+    record.lock = undefined;
+    switch (status) {
+      case "completed":
+        this._removeRecord(record);
+        break;
+      case "abandoned":
+        this._modifyProperties(record, options.propertiesToModify);
+        break;
+      case "defered":
+        this._modifyProperties(record, options.propertiesToModify);
+        record.state = "deferred";
+        break;
+      case "suspended":
+        this._deadLetter(record, options);
+        break;
+    }
+    this._notify();
+  }
+
+  /**
+   * Renews the lock of a message.
+   * @param lockToken - The lock token of the message.
+   * @returns The time the lock expires.
+   */
+  public renewMessageLock(lockToken: string): Date {
+    const record = this._findLockedRecord(lockToken);
+    if (this.requiresSession) {
+      throw new OperationError(
+        "amqp:not-allowed",
+        "The lock of a message received from a session can't be renewed. Renew the session lock instead."
+      );
+    }
+    record.lock!.lockedUntil = new Date(Date.now() + this._options.lockDurationInMs);
+    this._setTimer(() => this._notify(), this._options.lockDurationInMs);
+    return record.lock!.lockedUntil;
+  }
+
+  /**
+   * Locks a session for a receiver.
+   * @param owner - The link the session is locked for.
+   * @param sessionId - The session to lock. When it isn't provided, the next session
+   * with available messages is locked.
+   * @returns The locked session, or `undefined` if no session is available.
+   */
+  public acceptSession(owner: unknown, sessionId?: string): SessionRecord | undefined {
+    if (sessionId === undefined) {
+      const record = this._records.find(
+        (r) =>
+          r.sessionId !== undefined &&
+          this._isAvailable(r) &&
+          !this._isSessionLocked(this._sessions.get(r.sessionId))
+      );
+      if (!record) {
+        return;
+      }
+      sessionId = record.sessionId!;
+    }
+
+    const session = this._getSession(sessionId);
+    if (this._isSessionLocked(session)) {
+      throw new OperationError(
+        "com.microsoft:session-cannot-be-locked",
+        `The requested session '${sessionId}' cannot be accepted. It may be locked by another receiver.`
+      );
+    }
+    session.lock = {
+      owner,
+      lockedUntil: new Date(Date.now() + this._options.lockDurationInMs),
+    };
+    return session;
+  }
+
+  /**
+   * Returns `true` if the session is locked by the owner.
+   * @param sessionId - The session id.
+   * @param owner - The link the session may be locked for.
+   */
+  public isSessionLockedBy(sessionId: string, owner: unknown): boolean {
+    const session = this._sessions.get(sessionId);
+    return this._isSessionLocked(session) && session!.lock!.owner === owner;
+  }
+
+  /**
+   * Releases the sessions locked by the owner, along with the locks on their messages.
+   * @param owner - The link the sessions are locked for.
+   */
+  public releaseSessions(owner: unknown): void {
+    for (const session of this._sessions.values()) {
+      if (session.lock?.owner === owner) {
+        session.lock = undefined;
+        for (const record of this._records) {
+          if (record.sessionId === session.sessionId) {
+            record.lock = undefined;
+          }
+        }
+      }
+    }
+    this._notify();
+  }
+
+  /**
+   * Renews the lock of a session, and of the messages received from it.
+   * @param sessionId - The session id.
+   * @returns The time the lock expires.
+   */
+  public renewSessionLock(sessionId: string): Date {
+    const session = this._getLockedSession(sessionId);
+    session.lock!.lockedUntil = new Date(Date.now() + this._options.lockDurationInMs);
+    for (const record of this._records) {
+      if (record.sessionId === sessionId && record.lock) {
+        record.lock.lockedUntil = session.lock!.lockedUntil;
+      }
+    }
+    return session.lock!.lockedUntil;
+  }
+
+  public getSessionState(sessionId: string): Buffer | undefined {
+    return this._getLockedSession(sessionId).state;
+  }
+
+  public setSessionState(sessionId: string, state: Buffer | undefined): void {
+    const session = this._getLockedSession(sessionId);
+    session.state = state;
+    session.updatedOn = new Date();
+  }
+
+  /**
+   * Lists the sessions that have messages or a state.
+   * @param lastUpdatedTime - Only sessions updated after this time are listed.
+   * @param skip - The number of sessions to skip.
+   * @param top - The maximum number of sessions to list.
+   */
+  public listSessions(lastUpdatedTime: Date, skip: number, top: number): string[] {
+    return Array.from(this._sessions.values())
+      .filter(
+        (session) =>
+          session.updatedOn >= lastUpdatedTime &&
+          (session.state !== undefined ||
+            this._records.some((record) => record.sessionId === session.sessionId))
+      )
+      .slice(skip, skip + top)
+      .map((session) => session.sessionId);
+  }
+
+  /**
+   * Stops the timers of scheduled messages and lock expirations.
+   */
+  public dispose(): void {
+    for (const timer of this._timers) {
+      clearTimeout(timer);
+    }
+    this._timers.clear();
+    this._listeners.clear();
+  }
+
+  private _notify(): void {
+    for (const listener of this._listeners) {
+      listener();
+    }
+  }
+
+  private _setTimer(callback: () => void, delayInMs: number): void {
+    const timer = setTimeout(() => {
+      this._timers.delete(timer);
+      callback();
+    }, delayInMs);
+    this._timers.add(timer);
+  }
+
+  private _addRecord(record: MessageRecord): void {
+    // Messages usually arrive in order, so search for the insertion point from the end.
+    let index = this._records.length;
+    while (index > 0 && this._records[index - 1].sequenceNumber > record.sequenceNumber) {
+      index--;
+    }
+    this._records.splice(index, 0, record);
+    if (record.sessionId !== undefined) {
+      this._getSession(record.sessionId).updatedOn = new Date();
+    }
+    this._notify();
+  }
+
+  private _removeRecord(record: MessageRecord): void {
+    const index = this._records.indexOf(record);
+    if (index !== -1) {
+      this._records.splice(index, 1);
+    }
+  }
+
+  private _findBySequenceNumber(sequenceNumber: number): MessageRecord | undefined {
+    return this._records.find((record) => record.sequenceNumber === sequenceNumber);
+  }
+
+  private _getSession(sessionId: string): SessionRecord {
+    let session = this._sessions.get(sessionId);
+    if (!session) {
+      session = { sessionId, updatedOn: new Date() };
+      this._sessions.set(sessionId, session);
+    }
+    return session;
+  }
+
+  private _isSessionLocked(session: SessionRecord | undefined): boolean {
+    return Boolean(session?.lock && session.lock.lockedUntil.getTime() > Date.now());
+  }
+
+  private _getLockedSession(sessionId: string): SessionRecord {
+    const session = this._sessions.get(sessionId);
+    if (!session || !this._isSessionLocked(session)) {
+      throw new OperationError(
+        "com.microsoft:session-lock-lost",
+        `The session lock has expired on the session '${sessionId}'. Accept the session again.`
+      );
+    }
+    return session;
+  }
+
+  private _isAvailable(record: MessageRecord): boolean {
+    return (
+      record.state === "active" && (!record.lock || record.lock.lockedUntil.getTime() <= Date.now())
+    );
+  }
+
+  private _nextAvailableRecord(sessionId?: string): MessageRecord | undefined {
+    for (const record of this._records.slice()) {
+      if (!this._isAvailable(record) || (this.requiresSession && record.sessionId !== sessionId)) {
+        continue;
+      }
+      // Messages in the dead-letter queue can be received any number of times.
+      if (this.deadLetterEntity && record.deliveryCount >= this._options.maxDeliveryCount) {
+        record.lock = undefined;
+        this._deadLetter(record, {
+          deadLetterReason: "MaxDeliveryCountExceeded",
+          deadLetterDescription: `Message could not be consumed after ${this._options.maxDeliveryCount} delivery attempts.`,
+        });
+        continue;
+      }
+      return record;
+    }
+    return undefined;
+  }
+
+  private _findLockedRecord(lockToken: string): MessageRecord {
+    const token = lockToken.toLowerCase();
+    const record = this._records.find((r) => r.lock?.token === token);
+    if (!record || record.lock!.lockedUntil.getTime() <= Date.now()) {
+      if (this.requiresSession) {
+        throw new OperationError(
+          "com.microsoft:session-lock-lost",
+          "The session lock has expired on the session. Accept the session again."
+        );
+      }
+      throw new OperationError(
+        "com.microsoft:message-lock-lost",
+        "The lock supplied is invalid. Either the lock expired, or the message has already been removed from the queue."
+      );
+    }
+    return record;
+  }
+
+  private _lock(record: MessageRecord): DeliveredMessage {
+    const session =
+      record.sessionId !== undefined ? this._sessions.get(record.sessionId) : undefined;
+    const lockedUntil =
+      this.requiresSession && session?.lock
+        ? session.lock.lockedUntil
+        : new Date(Date.now() + this._options.lockDurationInMs);
+    record.lock = { token: generate_uuid(), lockedUntil };
+    if (!this.requiresSession) {
+      // Let receivers know the message is available again once its lock expires.
+      this._setTimer(() => this._notify(), this._options.lockDurationInMs);
+    }
+    return { message: this._deliver(record), lockToken: record.lock.token };
+  }
+
+  /**
+   * Returns the message to send to a receiver, and counts the delivery.
+   */
+  private _deliver(record: MessageRecord): Message {
+    const message = this._toOutgoingMessage(record);
+    record.deliveryCount++;
+    return message;
+  }
+
+  private _toOutgoingMessage(record: MessageRecord): Message {
+    const messageAnnotations: { [key: string]: unknown } = {
+      ...record.message.message_annotations,
+      "x-opt-sequence-number": types.wrap_long(record.sequenceNumber),
+      "x-opt-enqueued-time": record.enqueuedTime,
+      "x-opt-message-state": types.wrap_int(messageStateCodes[record.state]),
+    };
+    if (record.lock) {
+      messageAnnotations["x-opt-locked-until"] = record.lock.lockedUntil;
+    }
+    if (record.scheduledEnqueueTime) {
+      messageAnnotations["x-opt-scheduled-enqueue-time"] = record.scheduledEnqueueTime;
+    }
+    if (record.deadLetterSource) {
+      messageAnnotations["x-opt-deadletter-source"] = record.deadLetterSource;
+    }
+    return {
+      ...record.message,
+      delivery_count: record.deliveryCount,
+      message_annotations: messageAnnotations,
+    };
+  }
+
+  private _modifyProperties(
+    record: MessageRecord,
+    propertiesToModify: { [key: string]: unknown } | undefined
+  ): void {
+    if (propertiesToModify) {
+      record.message = {
+        ...record.message,
+        application_properties: {
+          ...record.message.application_properties,
+          ...propertiesToModify,
+        },
+      };
+    }
+  }
+
+  private _deadLetter(record: MessageRecord, options: SettleOptions): void {
+    this._removeRecord(record);
+    if (!this.deadLetterEntity) {
+      // Messages can't be dead-lettered from the dead-letter queue, so they are just removed.
+      return;
+    }
+    this._modifyProperties(record, {
+      ...options.propertiesToModify,
+      DeadLetterReason: options.deadLetterReason,
+      DeadLetterErrorDescription: options.deadLetterDescription,
+    });
+    this.deadLetterEntity._addRecord({
+      ...record,
+      state: "active",
+      lock: undefined,
+      deadLetterSource: this.path,
+    });
+  }
+}
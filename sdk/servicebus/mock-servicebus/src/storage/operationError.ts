@@ -0,0 +1,45 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AmqpError } from "rhea";
+
+/**
+ * The error thrown when an operation on an entity fails.
+ * It is sent back to the client as an AMQP error with the same condition.
+ */
+export class OperationError extends Error {
+  /**
+   * The AMQP error condition, e.g. `com.microsoft:message-lock-lost`.
+   */
+  public condition: string;
+
+  constructor(condition: string, description: string) {
+    super(description);
+    this.name = "OperationError";
+    this.condition = condition;
+  }
+
+  /**
+   * Converts the error to the AMQP error sent to clients.
+   */
+  toAmqpError(): AmqpError {
+    return {
+      condition: this.condition,
+      description: this.message,
+    };
+  }
+}
+
+/**
+ * Converts any error thrown while handling a request to the AMQP error sent to clients.
+ * @param err - The error to convert.
+ */
+export function toAmqpError(err: unknown): AmqpError {
+  if (err instanceof OperationError) {
+    return err.toAmqpError();
+  }
+  return {
+    condition: "amqp:internal-error",
+    description: (err as Error)?.message ?? String(err),
+  };
+}
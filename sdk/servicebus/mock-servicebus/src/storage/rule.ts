@@ -0,0 +1,133 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Message } from "rhea";
+import { parseSqlFilter } from "./sqlFilter";
+
+/**
+ * A filter that matches messages with a SQL expression.
+ */
+export interface MockSqlRuleFilter {
+  /**
+   * The SQL expression, e.g. `color = 'blue' AND sys.Label = 'order'`.
+   */
+  sqlExpression: string;
+}
+
+/**
+ * A filter that matches messages whose properties equal all of the given values.
+ */
+export interface MockCorrelationRuleFilter {
+  correlationId?: string;
+  messageId?: string;
+  to?: string;
+  replyTo?: string;
+  subject?: string;
+  sessionId?: string;
+  replyToSessionId?: string;
+  contentType?: string;
+  applicationProperties?: { [key: string]: string | number | boolean | Date };
+}
+
+/**
+ * The description of a subscription rule.
+ */
+export interface MockRuleOptions {
+  /**
+   * The name of the rule.
+   */
+  name: string;
+  /**
+   * The filter messages must match to be copied to the subscription.
+   */
+  filter: MockSqlRuleFilter | MockCorrelationRuleFilter;
+  /**
+   * The SQL action of the rule. It is stored and returned when rules are listed,
+   * but it isn't applied to the messages.
+   */
+  sqlAction?: string;
+}
+
+/**
+ * The system properties a correlation filter can match, mapped to the AMQP properties of the message.
+ */
+const correlationProperties: Array<[keyof MockCorrelationRuleFilter, keyof Message]> = [
+  ["correlationId", "correlation_id"],
+  ["messageId", "message_id"],
+  ["to", "to"],
+  ["replyTo", "reply_to"],
+  ["subject", "subject"],
+  ["sessionId", "group_id"],
+  ["replyToSessionId", "reply_to_group_id"],
+  ["contentType", "content_type"],
+];
+
+function isSameValue(expected: unknown, actual: unknown): boolean {
+  if (expected instanceof Date || actual instanceof Date) {
+    return new Date(expected as Date).getTime() === new Date(actual as Date).getTime();
+  }
+  return expected === actual;
+}
+
+function createCorrelationMatcher(
+  filter: MockCorrelationRuleFilter
+): (message: Message) => boolean {
+  return (message) => {
+    for (const [filterProperty, messageProperty] of correlationProperties) {
+      const expected = filter[filterProperty];
+      if (expected != null && !isSameValue(expected, message[messageProperty])) {
+        return false;
+      }
+    }
+    for (const [name, expected] of Object.entries(filter.applicationProperties ?? {})) {
+      if (!isSameValue(expected, message.application_properties?.[name])) {
+        return false;
+      }
+    }
+    return true;
+  };
+}
+
+/**
+ * Returns `true` if the filter is a SQL filter.
+ * @param filter - The filter of a rule.
+ */
+export function isSqlRuleFilter(
+  filter: MockSqlRuleFilter | MockCorrelationRuleFilter
+): filter is MockSqlRuleFilter {
+  return typeof (filter as MockSqlRuleFilter).sqlExpression === "string";
+}
+
+/**
+ * A subscription rule, which decides which of the messages sent to the topic
+ * are copied to the subscription.
+ */
+export class Rule {
+  public readonly name: string;
+  public readonly filter: MockSqlRuleFilter | MockCorrelationRuleFilter;
+  public readonly sqlAction?: string;
+  public readonly createdOn = new Date();
+  private _matches: (message: Message) => boolean;
+
+  /**
+   * Instantiates a `Rule`.
+   * Throws a `SqlFilterError` if the filter is a SQL filter that can't be parsed.
+   * @param options - The name, filter and action of the rule.
+   */
+  constructor(options: MockRuleOptions) {
+    this.name = options.name;
+    this.filter = options.filter;
+    this.sqlAction = options.sqlAction;
+    this._matches = isSqlRuleFilter(options.filter)
+      ? parseSqlFilter(options.filter.sqlExpression)
+      : createCorrelationMatcher(options.filter);
+  }
+
+  /**
+   * Returns `true` if the message matches the filter of the rule.
+   * @param message - A message sent to the topic.
+   */
+  matches(message: Message): boolean {
+    return this._matches(message);
+  }
+}
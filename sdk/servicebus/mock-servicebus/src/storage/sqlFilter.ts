@@ -0,0 +1,409 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Message } from "rhea";
+
+/**
+ * Evaluates an expression against a message. `undefined` stands for SQL's `NULL`/unknown.
+ */
+type Evaluator = (message: Message) => unknown;
+
+interface Token {
+  type: "number" | "string" | "identifier" | "keyword" | "operator" | "end";
+  value: string;
+}
+
+const keywords = new Set([
+  "AND",
+  "OR",
+  "NOT",
+  "IS",
+  "NULL",
+  "IN",
+  "LIKE",
+  "ESCAPE",
+  "EXISTS",
+  "TRUE",
+  "FALSE",
+]);
+
+/**
+ * The system properties that can be referenced with the `sys.` prefix,
+ * mapped to the AMQP properties of the message.
+ */
+const systemProperties: Record<string, keyof Message> = {
+  messageid: "message_id",
+  correlationid: "correlation_id",
+  to: "to",
+  replyto: "reply_to",
+  label: "subject",
+  sessionid: "group_id",
+  replytosessionid: "reply_to_group_id",
+  contenttype: "content_type",
+};
+
+/**
+ * The error thrown when a SQL filter or action can't be parsed.
+ */
+export class SqlFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SqlFilterError";
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "'") {
+      let value = "";
+      i++;
+      for (;;) {
+        if (i >= expression.length) {
+          throw new SqlFilterError(`Unterminated string literal in "${expression}".`);
+        }
+        if (expression[i] === "'") {
+          if (expression[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += expression[i++];
+      }
+      tokens.push({ type: "string", value });
+    } else if (char === "[") {
+      const end = expression.indexOf("]", i);
+      if (end === -1) {
+        throw new SqlFilterError(`Unterminated identifier in "${expression}".`);
+      }
+      tokens.push({ type: "identifier", value: expression.substring(i + 1, end) });
+      i = end + 1;
+    } else if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(expression[i + 1] ?? ""))) {
+      const match = /^[0-9]*\.?[0-9]+(?:[eE][-+]?[0-9]+)?/.exec(expression.substring(i))!;
+      tokens.push({ type: "number", value: match[0] });
+      i += match[0].length;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)?/.exec(expression.substring(i))!;
+      const upper = match[0].toUpperCase();
+      tokens.push(
+        keywords.has(upper)
+          ? { type: "keyword", value: upper }
+          : { type: "identifier", value: match[0] }
+      );
+      i += match[0].length;
+    } else {
+      const operator = [
+        "<>",
+        "!=",
+        "<=",
+        ">=",
+        "=",
+        "<",
+        ">",
+        "(",
+        ")",
+        ",",
+        "+",
+        "-",
+        "*",
+        "/",
+        "%",
+      ].find((op) => expression.startsWith(op, i));
+      if (!operator) {
+        throw new SqlFilterError(`Unexpected character '${char}' in "${expression}".`);
+      }
+      tokens.push({ type: "operator", value: operator });
+      i += operator.length;
+    }
+  }
+  tokens.push({ type: "end", value: "" });
+  return tokens;
+}
+
+function getProperty(message: Message, name: string): unknown {
+  const dot = name.indexOf(".");
+  const scope = dot === -1 ? "user" : name.substring(0, dot).toLowerCase();
+  const propertyName = dot === -1 ? name : name.substring(dot + 1);
+  if (scope === "sys") {
+    const key = systemProperties[propertyName.toLowerCase()];
+    return key ? message[key] ?? undefined : undefined;
+  }
+  if (scope !== "user") {
+    return message.application_properties?.[name] ?? undefined;
+  }
+  return message.application_properties?.[propertyName] ?? undefined;
+}
+
+function compare(left: unknown, operator: string, right: unknown): boolean | undefined {
+  if (left === undefined || right === undefined) {
+    return undefined;
+  }
+  const [a, b] =
+    left instanceof Date || right instanceof Date
+      ? [new Date(left as Date).getTime(), new Date(right as Date).getTime()]
+      : [left, right];
+  switch (operator) {
+    case "=":
+      return a === b;
+    case "<>":
+    case "!=":
+      return a !== b;
+    case "<":
+      return (a as number) < (b as number);
+    case "<=":
+      return (a as number) <= (b as number);
+    case ">":
+      return (a as number) > (b as number);
+    default:
+      return (a as number) >= (b as number);
+  }
+}
+
+function toLikeRegExp(pattern: string, escape?: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (escape && char === escape && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    } else if (char === "%") {
+      source += ".*";
+    } else if (char === "_") {
+      source += ".";
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+/**
+ * A recursive descent parser for the subset of the Service Bus SQL filter grammar
+ * the mock service supports: comparisons, `AND`/`OR`/`NOT`, `IS [NOT] NULL`,
+ * `[NOT] IN`, `[NOT] LIKE`, `EXISTS`, arithmetic and `sys.`/`user.` properties.
+ */
+class SqlFilterParser {
+  private _tokens: Token[];
+  private _position = 0;
+
+  constructor(private _expression: string) {
+    this._tokens = tokenize(_expression);
+  }
+
+  parse(): Evaluator {
+    const evaluator = this._parseOr();
+    this._expect("end");
+    return evaluator;
+  }
+
+  private _peek(): Token {
+    return this._tokens[this._position];
+  }
+
+  private _accept(type: Token["type"], value?: string): Token | undefined {
+    const token = this._peek();
+    if (token.type === type && (value === undefined || token.value === value)) {
+      this._position++;
+      return token;
+    }
+    return undefined;
+  }
+
+  private _expect(type: Token["type"], value?: string): Token {
+    const token = this._accept(type, value);
+    if (!token) {
+      const found = this._peek();
+      throw new SqlFilterError(
+        `Expected ${value ?? type} but found '${found.value || "end of expression"}' in "${
+          this._expression
+        }".`
+      );
+    }
+    return token;
+  }
+
+  private _parseOr(): Evaluator {
+    let left = this._parseAnd();
+    while (this._accept("keyword", "OR")) {
+      const [l, r] = [left, this._parseAnd()];
+      left = (message) => {
+        const a = l(message);
+        const b = r(message);
+        if (a === true || b === true) return true;
+        return a === undefined || b === undefined ? undefined : false;
+      };
+    }
+    return left;
+  }
+
+  private _parseAnd(): Evaluator {
+    let left = this._parseNot();
+    while (this._accept("keyword", "AND")) {
+      const [l, r] = [left, this._parseNot()];
+      left = (message) => {
+        const a = l(message);
+        const b = r(message);
+        if (a === false || b === false) return false;
+        return a === undefined || b === undefined ? undefined : true;
+      };
+    }
+    return left;
+  }
+
+  private _parseNot(): Evaluator {
+    if (this._accept("keyword", "NOT")) {
+      const operand = this._parseNot();
+      return (message) => {
+        const value = operand(message);
+        return value === undefined ? undefined : !value;
+      };
+    }
+    return this._parsePredicate();
+  }
+
+  private _parsePredicate(): Evaluator {
+    if (this._accept("keyword", "EXISTS")) {
+      this._expect("operator", "(");
+      const name = this._expect("identifier").value;
+      this._expect("operator", ")");
+      return (message) => getProperty(message, name) !== undefined;
+    }
+
+    const left = this._parseAdditive();
+    const token = this._peek();
+    if (
+      token.type === "operator" &&
+      ["=", "<>", "!=", "<", "<=", ">", ">="].includes(token.value)
+    ) {
+      this._position++;
+      const right = this._parseAdditive();
+      return (message) => compare(left(message), token.value, right(message));
+    }
+    if (this._accept("keyword", "IS")) {
+      const negate = Boolean(this._accept("keyword", "NOT"));
+      this._expect("keyword", "NULL");
+      return (message) => (left(message) === undefined) !== negate;
+    }
+
+    const negate = Boolean(this._accept("keyword", "NOT"));
+    if (this._accept("keyword", "IN")) {
+      this._expect("operator", "(");
+      const values = [this._parseAdditive()];
+      while (this._accept("operator", ",")) {
+        values.push(this._parseAdditive());
+      }
+      this._expect("operator", ")");
+      return (message) => {
+        const value = left(message);
+        if (value === undefined) return undefined;
+        return values.some((v) => compare(value, "=", v(message))) !== negate;
+      };
+    }
+    if (this._accept("keyword", "LIKE")) {
+      const pattern = this._expect("string").value;
+      const escape = this._accept("keyword", "ESCAPE") ? this._expect("string").value : undefined;
+      const regExp = toLikeRegExp(pattern, escape);
+      return (message) => {
+        const value = left(message);
+        if (value === undefined) return undefined;
+        return regExp.test(String(value)) !== negate;
+      };
+    }
+    if (negate) {
+      throw new SqlFilterError(`Expected IN or LIKE after NOT in "${this._expression}".`);
+    }
+    return left;
+  }
+
+  private _parseAdditive(): Evaluator {
+    let left = this._parseMultiplicative();
+    for (;;) {
+      const operator = this._accept("operator", "+") ?? this._accept("operator", "-");
+      if (!operator) return left;
+      const [l, r] = [left, this._parseMultiplicative()];
+      left = (message) => {
+        const a = l(message);
+        const b = r(message);
+        if (a === undefined || b === undefined) return undefined;
+        return operator.value === "+"
+          ? (a as number) + (b as number)
+          : (a as number) - (b as number);
+      };
+    }
+  }
+
+  private _parseMultiplicative(): Evaluator {
+    let left = this._parseUnary();
+    for (;;) {
+      const operator =
+        this._accept("operator", "*") ??
+        this._accept("operator", "/") ??
+        this._accept("operator", "%");
+      if (!operator) return left;
+      const [l, r] = [left, this._parseUnary()];
+      left = (message) => {
+        const a = l(message) as number | undefined;
+        const b = r(message) as number | undefined;
+        if (a === undefined || b === undefined) return undefined;
+        return operator.value === "*" ? a * b : operator.value === "/" ? a / b : a % b;
+      };
+    }
+  }
+
+  private _parseUnary(): Evaluator {
+    if (this._accept("operator", "-")) {
+      const operand = this._parseUnary();
+      return (message) => {
+        const value = operand(message) as number | undefined;
+        return value === undefined ? undefined : -value;
+      };
+    }
+    return this._parsePrimary();
+  }
+
+  private _parsePrimary(): Evaluator {
+    const token = this._peek();
+    this._position++;
+    switch (token.type) {
+      case "number": {
+        const value = Number(token.value);
+        return () => value;
+      }
+      case "string":
+        return () => token.value;
+      case "identifier":
+        return (message) => getProperty(message, token.value);
+      case "keyword":
+        if (token.value === "TRUE") return () => true;
+        if (token.value === "FALSE") return () => false;
+        if (token.value === "NULL") return () => undefined;
+        break;
+      case "operator":
+        if (token.value === "(") {
+          const inner = this._parseOr();
+          this._expect("operator", ")");
+          return inner;
+        }
+        break;
+    }
+    throw new SqlFilterError(
+      `Unexpected '${token.value || "end of expression"}' in "${this._expression}".`
+    );
+  }
+}
+
+/**
+ * Parses a SQL filter expression into a predicate that returns `true`
+ * for the messages that match it.
+ * @param expression - The SQL filter expression, e.g. `color = 'blue' AND sys.Label LIKE 'order%'`.
+ */
+export function parseSqlFilter(expression: string): (message: Message) => boolean {
+  const evaluator = new SqlFilterParser(expression).parse();
+  return (message) => evaluator(message) === true;
+}
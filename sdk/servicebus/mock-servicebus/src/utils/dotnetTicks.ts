@@ -0,0 +1,28 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+const TWO_POW_32 = 0x100000000;
+/**
+ * The number of .NET ticks (100 nanoseconds) between 0001-01-01 and the Unix epoch,
+ * 621355968000000000, split into its high and low 32 bits.
+ */
+const EPOCH_TICKS_HIGH = 0x089f7ff5;
+const EPOCH_TICKS_LOW = 0xf7b58000;
+
+/**
+ * Converts a date to the big-endian 64-bit number of .NET ticks Service Bus uses for
+ * the `com.microsoft:locked-until-utc` link property.
+ * @param date - The date to convert.
+ */
+export function convertDateToTicks(date: Date): Buffer {
+  const ms = date.getTime();
+  const msLow = ms % TWO_POW_32;
+  const ticksLow = msLow * 10000 + EPOCH_TICKS_LOW;
+  const high =
+    Math.floor(ms / TWO_POW_32) * 10000 + EPOCH_TICKS_HIGH + Math.floor(ticksLow / TWO_POW_32);
+
+  const ticks = Buffer.alloc(8);
+  ticks.writeUInt32BE(high, 0);
+  ticks.writeUInt32BE(ticksLow % TWO_POW_32, 4);
+  return ticks;
+}
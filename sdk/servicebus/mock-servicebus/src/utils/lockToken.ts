@@ -0,0 +1,26 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { string_to_uuid } from "rhea";
+
+/**
+ * Converts a lock token to the delivery tag of a message sent on a receiver link.
+ *
+ * Service Bus sends delivery tags in the byte order of .NET GUIDs, so the first three
+ * groups of the lock token are reversed.
+ * @param lockToken - The lock token of the message.
+ */
+export function lockTokenToDeliveryTag(lockToken: string): Buffer {
+  const bytes = string_to_uuid(lockToken);
+  return Buffer.from([
+    bytes[3],
+    bytes[2],
+    bytes[1],
+    bytes[0],
+    bytes[5],
+    bytes[4],
+    bytes[7],
+    bytes[6],
+    ...bytes.slice(8),
+  ]);
+}
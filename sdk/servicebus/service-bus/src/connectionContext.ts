@@ -6,6 +6,7 @@ import { packageJsonInfo } from "./util/constants";
 import {
   ConnectionConfig,
   ConnectionContextBase,
+  ConnectionStatistics,
   CreateConnectionContextBaseParameters,
   SasTokenProvider,
 } from "@azure/core-amqp";
@@ -58,6 +59,10 @@ export interface ConnectionContext extends ConnectionContextBase {
    * with key as the entity path.
    */
   managementClients: { [name: string]: ManagementClient };
+  /**
+   * Returns statistics about the underlying AMQP connection.
+   */
+  getConnectionStatistics: () => ConnectionStatistics;
   /**
    * Function returning a promise that resolves once the connectionContext is ready to open an AMQP link.
    * ConnectionContext will be ready to open an AMQP link when:
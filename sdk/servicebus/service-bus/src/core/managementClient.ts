@@ -38,6 +38,7 @@ import { LinkEntity, RequestResponseLinkOptions } from "./linkEntity";
 import { managementClientLogger, receiverLogger, senderLogger, ServiceBusLogger } from "../log";
 import { toBuffer } from "../util/utils";
 import {
+  InvalidMaxDeleteMessageCountError,
   InvalidMaxMessageCountError,
   throwErrorIfConnectionClosed,
   throwTypeErrorIfParameterIsEmptyString,
@@ -45,7 +46,12 @@ import {
   throwTypeErrorIfParameterNotLong,
   throwTypeErrorIfParameterTypeMismatch,
 } from "../util/errors";
-import { max32BitNumber } from "../util/constants";
+import {
+  batchDeleteMessagesOperation,
+  enqueuedTimeUtcMapKey,
+  max32BitNumber,
+  maxDeleteMessageCount,
+} from "../util/constants";
 import { Buffer } from "buffer";
 import { OperationOptionsBase } from "./../modelsToBeSharedWithEventHubs";
 import { AbortSignalLike } from "@azure/abort-controller";
@@ -870,6 +876,109 @@ export class ManagementClient extends LinkEntity<RequestResponseLink> {
     }
   }
 
+  /**
+   * Deletes up to `maxMessageCount` messages, starting with the oldest, that were enqueued
+   * before `beforeEnqueuedTime`.
+   *
+   * @param maxMessageCount - The maximum number of messages to delete. Must be at most 4000.
+   * @param beforeEnqueuedTime - Only messages enqueued before this time are deleted. Defaults to now.
+   * @param sessionId - The session from which messages need to be deleted.
+   * @returns The number of messages that were deleted.
+   */
+  async deleteMessages(
+    maxMessageCount: number,
+    beforeEnqueuedTime?: Date,
+    sessionId?: string,
+    options?: OperationOptionsBase & SendManagementRequestOptions
+  ): Promise<number> {
+    throwErrorIfConnectionClosed(this._context);
+    throwTypeErrorIfParameterMissing(
+      this._context.connectionId,
+      "maxMessageCount",
+      maxMessageCount
+    );
+    throwTypeErrorIfParameterTypeMismatch(
+      this._context.connectionId,
+      "maxMessageCount",
+      maxMessageCount,
+      "number"
+    );
+
+    if (isNaN(maxMessageCount) || maxMessageCount < 1 || maxMessageCount > maxDeleteMessageCount) {
+      throw new TypeError(InvalidMaxDeleteMessageCountError);
+    }
+
+    try {
+      const messageBody: any = {};
+      messageBody[Constants.messageCount] = types.wrap_int(maxMessageCount);
+      messageBody[enqueuedTimeUtcMapKey] = beforeEnqueuedTime ?? new Date();
+      if (isDefined(sessionId)) {
+        messageBody[Constants.sessionIdMapKey] = sessionId;
+      }
+      const request: RheaMessage = {
+        body: messageBody,
+        reply_to: this.replyTo,
+        application_properties: {
+          operation: batchDeleteMessagesOperation,
+        },
+      };
+      if (options?.associatedLinkName) {
+        request.application_properties![Constants.associatedLinkName] = options?.associatedLinkName;
+      }
+      request.application_properties![Constants.trackingId] = generate_uuid();
+      receiverLogger.verbose("%s Delete messages request body: %O.", this.logPrefix, request.body);
+
+      const result = await this._makeManagementRequest(request, receiverLogger, options);
+      const deletedMessageCount: number =
+        result.application_properties!.statusCode !== 204
+          ? result.body[Constants.messageCount] ?? 0
+          : 0;
+      receiverLogger.verbose(
+        "%s Deleted %d messages enqueued before %s.",
+        this.logPrefix,
+        deletedMessageCount,
+        messageBody[enqueuedTimeUtcMapKey].toISOString()
+      );
+      return deletedMessageCount;
+    } catch (err: any) {
+      const error = translateServiceBusError(err);
+      receiverLogger.logError(
+        error,
+        `${this.logPrefix} An error occurred while sending the request to delete messages to $management endpoint`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes the deferred messages with the given sequence numbers by receiving them in
+   * `receiveAndDelete` mode, which is the only way the service deletes messages by sequence number.
+   * The messages are transferred to the client, but their bodies are not parsed.
+   *
+   * @param sequenceNumbers - The sequence numbers of the deferred messages to delete.
+   * @param sessionId - The session from which messages need to be deleted.
+   * @returns The number of messages that were deleted.
+   */
+  async deleteDeferredMessages(
+    sequenceNumbers: Long[],
+    sessionId?: string,
+    options?: OperationOptionsBase & SendManagementRequestOptions
+  ): Promise<number> {
+    const messages = await this.receiveDeferredMessages(
+      sequenceNumbers,
+      "receiveAndDelete",
+      sessionId,
+      { ...options, skipParsingBodyAsJson: true }
+    );
+    receiverLogger.verbose(
+      "%s Deleted %d of %d deferred messages.",
+      this.logPrefix,
+      messages.length,
+      sequenceNumbers.length
+    );
+    return messages.length;
+  }
+
   /**
    * Updates the disposition status of deferred messages.
    *
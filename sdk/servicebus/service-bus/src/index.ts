@@ -5,6 +5,7 @@
 /// <reference lib="esnext.asynciterable" />
 
 export {
+  ConnectionStatistics,
   delay,
   MessagingError,
   RetryOptions,
@@ -19,20 +20,35 @@ export { ServiceBusClientOptions } from "./constructorHelpers";
 export { CorrelationRuleFilter } from "./core/managementClient";
 export {
   CreateMessageBatchOptions,
+  DeleteMessagesOptions,
   GetMessageIteratorOptions,
   MessageHandlers,
   PeekMessagesOptions,
   ProcessErrorArgs,
+  PurgeMessagesOptions,
   ReceiveMessagesOptions,
   ServiceBusReceiverOptions,
   ServiceBusSessionReceiverOptions,
+  ServiceBusSessionProcessorOptions,
   ServiceBusSenderOptions,
   SubscribeOptions,
 } from "./models";
 export { OperationOptionsBase, TryAddOptions } from "./modelsToBeSharedWithEventHubs";
 export { ServiceBusReceiver } from "./receivers/receiver";
 export { ServiceBusSessionReceiver } from "./receivers/sessionReceiver";
+export {
+  ServiceBusSessionContext,
+  ServiceBusSessionMessageHandlers,
+  ServiceBusSessionProcessor,
+} from "./receivers/sessionProcessor";
 export { ServiceBusSender } from "./sender";
+export {
+  DeadLetteredMessageFilter,
+  PeekDeadLetteredMessagesOptions,
+  ResubmitDeadLetteredMessagesOptions,
+  ResubmitDeadLetteredMessagesResult,
+  ServiceBusDeadLetterManager,
+} from "./serviceBusDeadLetterManager";
 export { ServiceBusRuleManager } from "./serviceBusRuleManager";
 export { NamespaceProperties } from "./serializers/namespaceResourceSerializer";
 export {
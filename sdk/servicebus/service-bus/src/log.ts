@@ -30,6 +30,12 @@ export const senderLogger = createServiceBusLogger("service-bus:sender");
  */
 export const ruleManagerLogger = createServiceBusLogger("service-bus:rulemanager");
 
+/**
+ * Logging for ServiceBusDeadLetterManagers
+ * @internal
+ */
+export const deadLetterManagerLogger = createServiceBusLogger("service-bus:deadlettermanager");
+
 /**
  * Logging for connection management
  * @internal
@@ -298,6 +298,39 @@ export interface ServiceBusSessionReceiverOptions extends OperationOptionsBase {
   identifier?: string;
 }
 
+/**
+ * Describes the options passed to the `createSessionProcessor` method
+ * when using a Queue/Subscription that has sessions enabled.
+ */
+export interface ServiceBusSessionProcessorOptions
+  extends Omit<ServiceBusSessionReceiverOptions, "abortSignal"> {
+  /**
+   * The maximum number of sessions that are processed concurrently. Messages from different
+   * sessions are processed concurrently, while the messages of a session are processed one at a time, in order.
+   * - **Default**: `8`.
+   */
+  maxConcurrentSessions?: number;
+  /**
+   * The time, in milliseconds, to wait for a message from a session before releasing it, so that
+   * another session can be accepted in its place.
+   * - **Default**: `60000` milliseconds (1 minute).
+   */
+  sessionIdleTimeoutInMs?: number;
+  /**
+   * Indicates whether the message should be settled automatically based on the result from the
+   * user provided `processMessage` callback.
+   *
+   * - If an error is thrown from the `processMessage` callback the message will be abandoned.
+   * - If NO error is thrown from `processMessage` the message will be completed.
+   *
+   * This option is ignored if messages are received in the `receiveAndDelete` receive mode or if
+   * the message is already settled in the user provided message callback.
+   *
+   * - **Default**: `true`.
+   */
+  autoCompleteMessages?: boolean;
+}
+
 /**
  * Describes the options passed to the `peekMessages` method on a receiver.
  */
@@ -312,3 +345,39 @@ export interface PeekMessagesOptions extends OperationOptionsBase {
    */
   omitMessageBody?: boolean;
 }
+
+/**
+ * Describes the options passed to the `deleteMessages` method on a receiver.
+ */
+export interface DeleteMessagesOptions extends OperationOptionsBase {
+  /**
+   * The maximum number of messages to delete. Must be at most 4000.
+   */
+  maxMessageCount: number;
+  /**
+   * Only messages that were enqueued before this time are deleted.
+   * - **Default**: The current time.
+   */
+  beforeEnqueuedTime?: Date;
+}
+
+/**
+ * Describes the options passed to the `purgeMessages` method on a receiver.
+ */
+export interface PurgeMessagesOptions extends OperationOptionsBase {
+  /**
+   * Only messages that were enqueued before this time are deleted.
+   * - **Default**: The time `purgeMessages` was called.
+   */
+  beforeEnqueuedTime?: Date;
+  /**
+   * The maximum number of messages to delete. If not set, messages are deleted until none
+   * that were enqueued before `beforeEnqueuedTime` remain.
+   */
+  maxMessages?: number;
+  /**
+   * A callback that is called after each batch of messages is deleted.
+   * @param deletedMessageCount - The total number of messages deleted so far.
+   */
+  onProgress?: (deletedMessageCount: number) => void;
+}
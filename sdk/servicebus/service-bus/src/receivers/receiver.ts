@@ -2,9 +2,11 @@
 // Licensed under the MIT license.
 
 import {
+  DeleteMessagesOptions,
   PeekMessagesOptions,
   GetMessageIteratorOptions,
   MessageHandlers,
+  PurgeMessagesOptions,
   ReceiveMessagesOptions,
   SubscribeOptions,
 } from "../models";
@@ -31,6 +33,7 @@ import {
   deadLetterMessage,
   deferMessage,
   getMessageIterator,
+  purgeMessages,
 } from "./receiverCommon";
 import Long from "long";
 import { ServiceBusMessageImpl, DeadLetterOptions } from "../serviceBusMessage";
@@ -139,6 +142,54 @@ export interface ServiceBusReceiver {
     maxMessageCount: number,
     options?: PeekMessagesOptions
   ): Promise<ServiceBusReceivedMessage[]>;
+
+  /**
+   * Deletes a batch of messages from the queue or subscription, starting with the oldest, without
+   * receiving them. Deferred messages are deleted too, dead-lettered messages are not, unless the
+   * receiver was created for the dead-letter sub-queue.
+   * @param options - Options that specify the maximum number of messages to delete (at most 4000),
+   * the time before which the messages must have been enqueued, or an abortSignal to abort the operation.
+   * @returns The number of messages that were deleted.
+   * @throws Error if the underlying connection or receiver is closed.
+   * @throws `ServiceBusError` if the service returns an error while deleting messages. The operation
+   * is not retried, as the messages may have been deleted even if an error was returned.
+   */
+  deleteMessages(options: DeleteMessagesOptions): Promise<number>;
+
+  /**
+   * Deletes the deferred messages identified by the given `sequenceNumbers` in a single request.
+   * The messages are received in `receiveAndDelete` mode, as that is the only way the service
+   * deletes messages by sequence number, so their bodies are transferred to the client but not returned.
+   * Only deferred messages can be deleted this way; use `deleteMessages` or `purgeMessages`
+   * to delete other messages without receiving them.
+   * @param sequenceNumbers - The sequence number or an array of sequence numbers of the deferred messages to delete.
+   * @param options - Options bag to pass an abort signal or tracing options.
+   * @returns The number of messages that were deleted.
+   * @throws Error if the underlying connection or receiver is closed.
+   * @throws `ServiceBusError` if the service returns an error while deleting messages, e.g. when one of them is not
+   * deferred. The operation is not retried, as the messages may have been deleted even if an error was returned.
+   */
+  deleteDeferredMessages(
+    sequenceNumbers: Long | Long[],
+    options?: OperationOptionsBase
+  ): Promise<number>;
+
+  /**
+   * Deletes all messages enqueued before a given time from the queue or subscription by deleting
+   * them in batches, which is much faster than receiving them in `receiveAndDelete` mode.
+   * @param options - Options that specify the time before which the messages must have been enqueued,
+   * the maximum number of messages to delete, a callback to report progress after each batch
+   * or an abortSignal to stop deleting messages.
+   * @returns The number of messages that were deleted.
+   * @throws Error if the underlying connection or receiver is closed.
+   * @throws `AbortError` if the operation is aborted. Batches deleted before that remain deleted.
+   * @throws `ServiceBusError` if the service returns an error while deleting messages. Unlike `deleteMessages`,
+   * each batch is retried according to the retry options of the client, as deleting more of the messages enqueued
+   * before the same time is harmless. A batch may have been deleted even if an error was returned, so the
+   * returned count may then be lower than the number of deleted messages, and up to a batch more than
+   * `maxMessages` messages may be deleted.
+   */
+  purgeMessages(options?: PurgeMessagesOptions): Promise<number>;
   /**
    * Path of the entity for which the receiver has been created.
    */
@@ -492,6 +543,57 @@ export class ServiceBusReceiverImpl implements ServiceBusReceiver {
     return retry<ServiceBusReceivedMessage[]>(config);
   }
 
+  async deleteMessages(options: DeleteMessagesOptions): Promise<number> {
+    this._throwIfReceiverOrConnectionClosed();
+    throwTypeErrorIfParameterMissing(this._context.connectionId, "options", options);
+
+    // Not retried, as the messages may have been deleted even if the request failed.
+    return this._context
+      .getManagementClient(this.entityPath)
+      .deleteMessages(options.maxMessageCount, options.beforeEnqueuedTime, undefined, {
+        ...options,
+        associatedLinkName: this._getAssociatedReceiverName(),
+        requestName: "deleteMessages",
+        timeoutInMs: this._retryOptions.timeoutInMs,
+      });
+  }
+
+  async deleteDeferredMessages(
+    sequenceNumbers: Long | Long[],
+    options: OperationOptionsBase = {}
+  ): Promise<number> {
+    this._throwIfReceiverOrConnectionClosed();
+    throwTypeErrorIfParameterMissing(
+      this._context.connectionId,
+      "sequenceNumbers",
+      sequenceNumbers
+    );
+    throwTypeErrorIfParameterNotLong(
+      this._context.connectionId,
+      "sequenceNumbers",
+      sequenceNumbers
+    );
+
+    // Not retried, as the messages may have been deleted even if the request failed.
+    return this._context
+      .getManagementClient(this.entityPath)
+      .deleteDeferredMessages(
+        Array.isArray(sequenceNumbers) ? sequenceNumbers : [sequenceNumbers],
+        undefined,
+        {
+          ...options,
+          associatedLinkName: this._getAssociatedReceiverName(),
+          requestName: "deleteDeferredMessages",
+          timeoutInMs: this._retryOptions.timeoutInMs,
+        }
+      );
+  }
+
+  async purgeMessages(options?: PurgeMessagesOptions): Promise<number> {
+    this._throwIfReceiverOrConnectionClosed();
+    return purgeMessages(this, this._context.connectionId, this._retryOptions, options);
+  }
+
   subscribe(
     handlers: MessageHandlers,
     options?: SubscribeOptions
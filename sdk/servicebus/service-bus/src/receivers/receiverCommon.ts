@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { MessageHandlers, ProcessErrorArgs } from "../models";
+import { MessageHandlers, ProcessErrorArgs, PurgeMessagesOptions } from "../models";
 import { ServiceBusReceiver } from "./receiver";
 import { OperationOptionsBase } from "../modelsToBeSharedWithEventHubs";
 import { createServiceBusLogger, logger, receiverLogger, ServiceBusLogger } from "../log";
@@ -15,6 +15,7 @@ import {
 import { DispositionStatusOptions } from "../core/managementClient";
 import { ConnectionContext } from "../connectionContext";
 import {
+  calculateRetryDelayInMs,
   Constants,
   ErrorNameConditionMapper,
   retry,
@@ -22,8 +23,11 @@ import {
   RetryMode,
   RetryOperationType,
   RetryOptions,
+  StandardAbortMessage,
 } from "@azure/core-amqp";
+import { AbortError } from "@azure/abort-controller";
 import { MessageAlreadySettled } from "../util/errors";
+import { maxDeleteMessageCount } from "../util/constants";
 import { delay, isDefined } from "@azure/core-util";
 import { TracingSpanLink } from "@azure/core-tracing";
 import { toSpanOptions, tracingClient } from "../diagnostics/tracing";
@@ -65,6 +69,60 @@ export async function* getMessageIterator(
   }
 }
 
+/**
+ * Deletes messages in batches of up to 4000 until no messages enqueued before
+ * `options.beforeEnqueuedTime` remain, or `options.maxMessages` messages were deleted.
+ * Each batch is retried on its own.
+ *
+ * @internal
+ */
+export async function purgeMessages(
+  receiver: Pick<ServiceBusReceiver, "deleteMessages">,
+  connectionId: string,
+  retryOptions: RetryOptions | undefined,
+  options: PurgeMessagesOptions = {}
+): Promise<number> {
+  const { beforeEnqueuedTime = new Date(), maxMessages, onProgress, ...operationOptions } = options;
+  if (isDefined(maxMessages) && (isNaN(maxMessages) || maxMessages < 1)) {
+    throw new TypeError("'maxMessages' must be a number greater than 0.");
+  }
+
+  let deletedMessageCount = 0;
+  while (!isDefined(maxMessages) || deletedMessageCount < maxMessages) {
+    if (operationOptions.abortSignal?.aborted) {
+      throw new AbortError(StandardAbortMessage);
+    }
+    const maxMessageCount = isDefined(maxMessages)
+      ? Math.min(maxDeleteMessageCount, maxMessages - deletedMessageCount)
+      : maxDeleteMessageCount;
+    const deletedInBatch = await retry<number>({
+      operation: () =>
+        receiver.deleteMessages({
+          ...operationOptions,
+          maxMessageCount,
+          beforeEnqueuedTime,
+        }),
+      connectionId,
+      operationType: RetryOperationType.management,
+      retryOptions,
+      abortSignal: operationOptions.abortSignal,
+    });
+    deletedMessageCount += deletedInBatch;
+    receiverLogger.verbose(
+      "Deleted %d messages enqueued before %s, %d in total.",
+      deletedInBatch,
+      beforeEnqueuedTime.toISOString(),
+      deletedMessageCount
+    );
+    onProgress?.(deletedMessageCount);
+    // A partial batch means no more messages enqueued before `beforeEnqueuedTime` are left.
+    if (deletedInBatch < maxMessageCount) {
+      break;
+    }
+  }
+  return deletedMessageCount;
+}
+
 /**
  * @internal
  */
@@ -331,33 +389,13 @@ export interface RetryForeverArgs<T> {
   logPrefix: string;
 }
 
-/**
- * Calculates delay between retries, in milliseconds.
- */
-function calculateDelay(
-  attemptCount: number,
-  retryDelayInMs: number,
-  maxRetryDelayInMs: number,
-  mode: RetryMode
-): number {
-  if (mode === RetryMode.Exponential) {
-    const boundedRandDelta =
-      retryDelayInMs * 0.8 +
-      Math.floor(Math.random() * (retryDelayInMs * 1.2 - retryDelayInMs * 0.8));
-
-    const incrementDelta = boundedRandDelta * (Math.pow(2, attemptCount) - 1);
-    return Math.min(incrementDelta, maxRetryDelayInMs);
-  }
-
-  return retryDelayInMs;
-}
-
 /**
  * Retry infinitely until success, reporting in between retry attempts.
  *
  * This function will only stop retrying if:
  * - args.retryConfig.operation resolves successfully
  * - args.retryConfig.operation rejects with an `AbortError`
+ * - the `calculateRetryDelay` retry option returns undefined for the failed retry cycle
  *
  * @internal
  */
@@ -366,6 +404,7 @@ export async function retryForever<T>(
   retryFn: typeof retry = retry
 ): Promise<T> {
   let numRetryCycles = 0;
+  let delayInMs: number | undefined;
   const config = args.retryConfig;
   if (!config.retryOptions) {
     config.retryOptions = {};
@@ -416,12 +455,14 @@ export async function retryForever<T>(
         args.retryConfig
       );
 
-      const delayInMs = calculateDelay(
-        numRetryCycles,
-        config.retryOptions.retryDelayInMs,
-        config.retryOptions.maxRetryDelayInMs,
-        config.retryOptions.mode
-      );
+      const { calculateRetryDelay } = config.retryOptions;
+      delayInMs = calculateRetryDelay
+        ? calculateRetryDelay(numRetryCycles, err)
+        : calculateRetryDelayInMs(numRetryCycles, config.retryOptions, delayInMs);
+      if (delayInMs === undefined) {
+        logger.warning(`${args.logPrefix} calculateRetryDelay returned no delay, ending retries.`);
+        throw err;
+      }
       logger.verbose(
         "[%s] Sleeping for %d milliseconds for '%s'.",
         config.connectionId,
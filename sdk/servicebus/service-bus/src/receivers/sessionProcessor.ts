@@ -0,0 +1,385 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { AbortController, AbortSignalLike } from "@azure/abort-controller";
+import { Constants } from "@azure/core-amqp";
+import { delay } from "@azure/core-util";
+import { ProcessErrorArgs, ServiceBusSessionProcessorOptions } from "../models";
+import { OperationOptionsBase } from "../modelsToBeSharedWithEventHubs";
+import { ServiceBusReceivedMessage, ServiceBusMessageImpl } from "../serviceBusMessage";
+import { isServiceBusError } from "../serviceBusError";
+import { receiverLogger as logger } from "../log";
+import { assertValidMessageHandlers, wrapProcessErrorHandler } from "./receiverCommon";
+import { ServiceBusSessionReceiver } from "./sessionReceiver";
+
+/**
+ * The session that a message handled by a `ServiceBusSessionProcessor` belongs to.
+ */
+export interface ServiceBusSessionContext {
+  /**
+   * The session ID.
+   */
+  readonly sessionId: string;
+
+  /**
+   * The time in UTC until which the session is locked. The lock is renewed automatically
+   * for up to `maxAutoLockRenewalDurationInMs`.
+   *
+   * @readonly
+   */
+  readonly sessionLockedUntilUtc: Date;
+
+  /**
+   * The receiver of the session, which can be used to settle messages when
+   * `autoCompleteMessages` is disabled, or to renew the session lock.
+   */
+  readonly receiver: ServiceBusSessionReceiver;
+
+  /**
+   * Gets the state of the session. For more on session states, see
+   * {@link https://docs.microsoft.com/azure/service-bus-messaging/message-sessions#message-session-state | Session State}
+   * @param options - Options bag to pass an abort signal or tracing options.
+   * @returns The state of the session.
+   */
+  getSessionState(options?: OperationOptionsBase): Promise<any>;
+
+  /**
+   * Sets the state of the session. For more on session states, see
+   * {@link https://docs.microsoft.com/azure/service-bus-messaging/message-sessions#message-session-state | Session State}
+   * @param state - The state that needs to be set.
+   * @param options - Options bag to pass an abort signal or tracing options.
+   */
+  setSessionState(state: any, options?: OperationOptionsBase): Promise<void>;
+
+  /**
+   * Releases the session once the message being processed is handled, so that another session
+   * can be accepted in its place, e.g. when the last message of a session is processed.
+   */
+  releaseSession(): void;
+}
+
+/**
+ * The handlers of the messages and errors of a `ServiceBusSessionProcessor`.
+ */
+export interface ServiceBusSessionMessageHandlers {
+  /**
+   * Handler that processes messages from service bus. The messages of a session are passed to
+   * the handler one at a time, in order.
+   *
+   * @param message - A message received from Service Bus.
+   * @param context - The session the message belongs to.
+   */
+  processMessage(
+    message: ServiceBusReceivedMessage,
+    context: ServiceBusSessionContext
+  ): Promise<void>;
+
+  /**
+   * Handler that processes errors that occur while accepting sessions, receiving messages,
+   * running the other handlers or settling messages. The processor keeps running after errors
+   * until it is closed.
+   * @param args - The error and additional context to indicate where the error originated.
+   */
+  processError(args: ProcessErrorArgs): Promise<void>;
+
+  /**
+   * Handler that is called when a session is accepted, before its messages are processed.
+   * @param context - The session that was accepted.
+   */
+  processSessionInitialize?(context: ServiceBusSessionContext): Promise<void>;
+
+  /**
+   * Handler that is called when a session is released, because it was idle, released from
+   * `processMessage`, its lock was lost or the processor was closed.
+   * @param context - The session that is released.
+   */
+  processSessionClose?(context: ServiceBusSessionContext): Promise<void>;
+}
+
+/**
+ * A processor that accepts several sessions of a session-enabled queue or subscription
+ * concurrently, and processes the messages of each session in order.
+ */
+export interface ServiceBusSessionProcessor {
+  /**
+   * The path of the entity for which the processor was created.
+   */
+  readonly entityPath: string;
+
+  /**
+   * The IDs of the sessions being processed.
+   *
+   * @readonly
+   */
+  readonly activeSessionIds: string[];
+
+  /**
+   * Returns `true` if the processor or the client that created it has been closed.
+   * @readonly
+   */
+  readonly isClosed: boolean;
+
+  /**
+   * Starts accepting sessions and streaming their messages to the message handlers.
+   * @param handlers - The handlers of the messages, errors and sessions.
+   * @returns An object that can be closed, which closes the processor.
+   */
+  subscribe(handlers: ServiceBusSessionMessageHandlers): {
+    /**
+     * Stops accepting sessions, waits for the messages being processed, and releases the sessions.
+     */
+    close(): Promise<void>;
+  };
+
+  /**
+   * Stops accepting sessions, waits for the messages being processed, and releases the sessions.
+   */
+  close(): Promise<void>;
+}
+
+const defaultMaxConcurrentSessions = 8;
+const defaultSessionIdleTimeoutInMs = 60 * 1000;
+
+/**
+ * Errors thrown by `acceptNextSession` when no session is available, after which the processor
+ * tries again. A `ServiceTimeout` is only thrown after the operation timeout, but a
+ * `SessionCannotBeLocked` error can be thrown right away, so the processor waits before
+ * trying again after one.
+ */
+function isNoSessionAvailableError(err: unknown): boolean {
+  return (
+    isServiceBusError(err) &&
+    (err.code === "ServiceTimeout" || err.code === "SessionCannotBeLocked")
+  );
+}
+
+/**
+ * @internal
+ */
+export class ServiceBusSessionProcessorImpl implements ServiceBusSessionProcessor {
+  private _abortController = new AbortController();
+  private _activeSessions = new Map<string, ServiceBusSessionReceiver>();
+  private _workers: Promise<void>[] = [];
+  private _isClosed = false;
+  private _autoCompleteMessages: boolean;
+  private _maxConcurrentSessions: number;
+  private _sessionIdleTimeoutInMs: number;
+
+  constructor(
+    private _acceptNextSession: (
+      abortSignal: AbortSignalLike
+    ) => Promise<ServiceBusSessionReceiver>,
+    public entityPath: string,
+    private _fullyQualifiedNamespace: string,
+    private _identifier: string,
+    private _isClientClosed: () => boolean,
+    private _retryDelayInMs: number = Constants.defaultDelayBetweenOperationRetriesInMs,
+    options: ServiceBusSessionProcessorOptions = {}
+  ) {
+    this._autoCompleteMessages = options.autoCompleteMessages ?? true;
+    this._maxConcurrentSessions = options.maxConcurrentSessions ?? defaultMaxConcurrentSessions;
+    this._sessionIdleTimeoutInMs = options.sessionIdleTimeoutInMs ?? defaultSessionIdleTimeoutInMs;
+    if (this._maxConcurrentSessions < 1) {
+      throw new RangeError("maxConcurrentSessions must be at least 1.");
+    }
+  }
+
+  private get logPrefix(): string {
+    return `[${this._identifier}|sessionProcessor:${this.entityPath}]`;
+  }
+
+  public get activeSessionIds(): string[] {
+    return Array.from(this._activeSessions.keys());
+  }
+
+  public get isClosed(): boolean {
+    return this._isClosed || this._isClientClosed();
+  }
+
+  subscribe(handlers: ServiceBusSessionMessageHandlers): { close(): Promise<void> } {
+    assertValidMessageHandlers(handlers);
+    if (this.isClosed) {
+      throw new Error(`The session processor for "${this.entityPath}" has been closed.`);
+    }
+    if (this._workers.length > 0) {
+      throw new Error(
+        `The session processor for "${this.entityPath}" is already processing messages.`
+      );
+    }
+
+    const processError = wrapProcessErrorHandler(handlers);
+    for (let i = 0; i < this._maxConcurrentSessions; i++) {
+      this._workers.push(this._acceptSessions({ ...handlers, processError }));
+    }
+    return { close: () => this.close() };
+  }
+
+  async close(): Promise<void> {
+    this._isClosed = true;
+    this._abortController.abort();
+    await Promise.all(this._workers);
+  }
+
+  /**
+   * Accepts the next available session and processes it, until the processor is closed.
+   */
+  private async _acceptSessions(handlers: ServiceBusSessionMessageHandlers): Promise<void> {
+    while (!this.isClosed) {
+      let receiver: ServiceBusSessionReceiver;
+      try {
+        receiver = await this._acceptNextSession(this._abortController.signal);
+      } catch (err: any) {
+        if (this.isClosed) {
+          return;
+        }
+        if (isNoSessionAvailableError(err)) {
+          logger.verbose("%s No session is available, trying again.", this.logPrefix);
+          if (err.code === "SessionCannotBeLocked") {
+            await this._delayBeforeRetrying();
+          }
+          continue;
+        }
+        await this._notifyError(handlers, err, "receive", this._identifier);
+        await this._delayBeforeRetrying();
+        continue;
+      }
+      await this._processSession(receiver, handlers);
+    }
+  }
+
+  private _delayBeforeRetrying(): Promise<void> {
+    return delay(this._retryDelayInMs, { abortSignal: this._abortController.signal }).catch(() => {
+      // The processor was closed while waiting.
+    });
+  }
+
+  /**
+   * Processes the messages of a session in order, until it is idle, released or the processor is closed.
+   */
+  private async _processSession(
+    receiver: ServiceBusSessionReceiver,
+    handlers: ServiceBusSessionMessageHandlers
+  ): Promise<void> {
+    let isReleased = false;
+    const context: ServiceBusSessionContext = {
+      sessionId: receiver.sessionId,
+      get sessionLockedUntilUtc() {
+        return receiver.sessionLockedUntilUtc;
+      },
+      receiver,
+      getSessionState: (options) => receiver.getSessionState(options),
+      setSessionState: (state, options) => receiver.setSessionState(state, options),
+      releaseSession: () => {
+        isReleased = true;
+      },
+    };
+
+    logger.verbose("%s Processing session '%s'.", this.logPrefix, receiver.sessionId);
+    this._activeSessions.set(receiver.sessionId, receiver);
+    try {
+      if (handlers.processSessionInitialize) {
+        try {
+          await handlers.processSessionInitialize(context);
+        } catch (err: any) {
+          await this._notifyError(handlers, err, "processMessageCallback", receiver.identifier);
+          return;
+        }
+      }
+
+      while (!this.isClosed && !isReleased) {
+        const messages = await receiver.receiveMessages(1, {
+          maxWaitTimeInMs: this._sessionIdleTimeoutInMs,
+          abortSignal: this._abortController.signal,
+        });
+        if (messages.length === 0) {
+          logger.verbose("%s Session '%s' is idle.", this.logPrefix, receiver.sessionId);
+          break;
+        }
+        for (const message of messages) {
+          await this._processMessage(receiver, message, context, handlers);
+        }
+      }
+    } catch (err: any) {
+      if (!this.isClosed) {
+        await this._notifyError(handlers, err, "receive", receiver.identifier);
+      }
+    } finally {
+      this._activeSessions.delete(receiver.sessionId);
+      await this._closeSession(receiver, context, handlers);
+    }
+  }
+
+  private async _processMessage(
+    receiver: ServiceBusSessionReceiver,
+    message: ServiceBusReceivedMessage,
+    context: ServiceBusSessionContext,
+    handlers: ServiceBusSessionMessageHandlers
+  ): Promise<void> {
+    const isSettled = (): boolean =>
+      receiver.receiveMode === "receiveAndDelete" ||
+      (message as ServiceBusMessageImpl).delivery.remote_settled;
+
+    try {
+      await handlers.processMessage(message, context);
+    } catch (err: any) {
+      await this._notifyError(handlers, err, "processMessageCallback", receiver.identifier);
+      if (!isSettled()) {
+        try {
+          await receiver.abandonMessage(message);
+        } catch (abandonError: any) {
+          await this._notifyError(handlers, abandonError, "abandon", receiver.identifier);
+        }
+      }
+      return;
+    }
+
+    if (this._autoCompleteMessages && !isSettled()) {
+      try {
+        await receiver.completeMessage(message);
+      } catch (completeError: any) {
+        await this._notifyError(handlers, completeError, "complete", receiver.identifier);
+      }
+    }
+  }
+
+  private async _closeSession(
+    receiver: ServiceBusSessionReceiver,
+    context: ServiceBusSessionContext,
+    handlers: ServiceBusSessionMessageHandlers
+  ): Promise<void> {
+    if (handlers.processSessionClose) {
+      try {
+        await handlers.processSessionClose(context);
+      } catch (err: any) {
+        await this._notifyError(handlers, err, "processMessageCallback", receiver.identifier);
+      }
+    }
+    try {
+      await receiver.close();
+      logger.verbose("%s Released session '%s'.", this.logPrefix, receiver.sessionId);
+    } catch (err: any) {
+      logger.logError(
+        err,
+        "%s An error occurred while releasing session '%s'",
+        this.logPrefix,
+        receiver.sessionId
+      );
+    }
+  }
+
+  private _notifyError(
+    handlers: ServiceBusSessionMessageHandlers,
+    error: Error,
+    errorSource: ProcessErrorArgs["errorSource"],
+    identifier: string
+  ): Promise<void> {
+    logger.logError(error, "%s An error occurred (%s)", this.logPrefix, errorSource);
+    return handlers.processError({
+      error,
+      errorSource,
+      entityPath: this.entityPath,
+      fullyQualifiedNamespace: this._fullyQualifiedNamespace,
+      identifier,
+    });
+  }
+}
@@ -3,7 +3,13 @@
 
 import { ConnectionContext } from "../connectionContext";
 import { MessageHandlers, ReceiveMessagesOptions, ServiceBusReceivedMessage } from "..";
-import { PeekMessagesOptions, GetMessageIteratorOptions, SubscribeOptions } from "../models";
+import {
+  DeleteMessagesOptions,
+  PeekMessagesOptions,
+  GetMessageIteratorOptions,
+  PurgeMessagesOptions,
+  SubscribeOptions,
+} from "../models";
 import { MessageSession } from "../session/messageSession";
 import {
   getAlreadyReceivingErrorMsg,
@@ -23,6 +29,7 @@ import {
   deadLetterMessage,
   deferMessage,
   getMessageIterator,
+  purgeMessages,
   wrapProcessErrorHandler,
 } from "./receiverCommon";
 import { defaultMaxTimeAfterFirstMessageForBatchingMs, ServiceBusReceiver } from "./receiver";
@@ -356,6 +363,57 @@ export class ServiceBusSessionReceiverImpl implements ServiceBusSessionReceiver
     return retry<ServiceBusReceivedMessage[]>(config);
   }
 
+  async deleteMessages(options: DeleteMessagesOptions): Promise<number> {
+    this._throwIfReceiverOrConnectionClosed();
+    throwTypeErrorIfParameterMissing(this._context.connectionId, "options", options);
+
+    // Not retried, as the messages may have been deleted even if the request failed.
+    return this._context
+      .getManagementClient(this.entityPath)
+      .deleteMessages(options.maxMessageCount, options.beforeEnqueuedTime, this.sessionId, {
+        ...options,
+        associatedLinkName: this._messageSession.name,
+        requestName: "deleteMessages",
+        timeoutInMs: this._retryOptions.timeoutInMs,
+      });
+  }
+
+  async deleteDeferredMessages(
+    sequenceNumbers: Long | Long[],
+    options: OperationOptionsBase = {}
+  ): Promise<number> {
+    this._throwIfReceiverOrConnectionClosed();
+    throwTypeErrorIfParameterMissing(
+      this._context.connectionId,
+      "sequenceNumbers",
+      sequenceNumbers
+    );
+    throwTypeErrorIfParameterNotLong(
+      this._context.connectionId,
+      "sequenceNumbers",
+      sequenceNumbers
+    );
+
+    // Not retried, as the messages may have been deleted even if the request failed.
+    return this._context
+      .getManagementClient(this.entityPath)
+      .deleteDeferredMessages(
+        Array.isArray(sequenceNumbers) ? sequenceNumbers : [sequenceNumbers],
+        this.sessionId,
+        {
+          ...options,
+          associatedLinkName: this._messageSession.name,
+          requestName: "deleteDeferredMessages",
+          timeoutInMs: this._retryOptions.timeoutInMs,
+        }
+      );
+  }
+
+  async purgeMessages(options?: PurgeMessagesOptions): Promise<number> {
+    this._throwIfReceiverOrConnectionClosed();
+    return purgeMessages(this, this._context.connectionId, this._retryOptions, options);
+  }
+
   async receiveDeferredMessages(
     sequenceNumbers: Long | Long[],
     options: OperationOptionsBase = {}
@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
-import { ConnectionConfig } from "@azure/core-amqp";
+import { ConnectionConfig, ConnectionStatistics } from "@azure/core-amqp";
 import { TokenCredential, NamedKeyCredential, SASCredential } from "@azure/core-auth";
 import {
   ServiceBusClientOptions,
@@ -12,6 +12,7 @@ import { ConnectionContext } from "./connectionContext";
 import {
   ServiceBusReceiverOptions,
   ServiceBusSessionReceiverOptions,
+  ServiceBusSessionProcessorOptions,
   ReceiveMode,
   ServiceBusSenderOptions,
 } from "./models";
@@ -20,7 +21,15 @@ import {
   ServiceBusSessionReceiver,
   ServiceBusSessionReceiverImpl,
 } from "./receivers/sessionReceiver";
+import {
+  ServiceBusSessionProcessor,
+  ServiceBusSessionProcessorImpl,
+} from "./receivers/sessionProcessor";
 import { ServiceBusRuleManager, ServiceBusRuleManagerImpl } from "./serviceBusRuleManager";
+import {
+  ServiceBusDeadLetterManager,
+  ServiceBusDeadLetterManagerImpl,
+} from "./serviceBusDeadLetterManager";
 import { ServiceBusSender, ServiceBusSenderImpl } from "./sender";
 import { entityPathMisMatchError } from "./util/errors";
 import { MessageSession } from "./session/messageSession";
@@ -253,6 +262,52 @@ export class ServiceBusClient {
     );
   }
 
+  /**
+   * Creates an instance of {@link ServiceBusDeadLetterManager} that is used to peek the messages in
+   * the dead-letter sub-queue of a queue, and to resubmit them to the queue or to another entity.
+   *
+   * @param queueName - The name of the queue whose dead-letter sub-queue is managed.
+   * @returns A {@link ServiceBusDeadLetterManager} scoped to the dead-letter sub-queue of the queue.
+   */
+  createDeadLetterManager(queueName: string): ServiceBusDeadLetterManager;
+  /**
+   * Creates an instance of {@link ServiceBusDeadLetterManager} that is used to peek the messages in
+   * the dead-letter sub-queue of a subscription, and to resubmit them to another entity.
+   *
+   * Messages are not resubmitted to the topic by default, as the topic would deliver them to every other
+   * subscription again. Set `targetQueueOrTopicName` when calling `resubmitMessages`; set it to the topic
+   * only if every subscription should receive the messages again.
+   *
+   * @param topicName - Name of the topic for the subscription.
+   * @param subscriptionName - Name of the subscription whose dead-letter sub-queue is managed.
+   * @returns A {@link ServiceBusDeadLetterManager} scoped to the dead-letter sub-queue of the subscription.
+   */
+  createDeadLetterManager(topicName: string, subscriptionName: string): ServiceBusDeadLetterManager;
+  createDeadLetterManager(
+    queueOrTopicName: string,
+    subscriptionName?: string
+  ): ServiceBusDeadLetterManager {
+    validateEntityPath(this._connectionContext.config, queueOrTopicName);
+
+    const { entityPath } = extractReceiverArguments(queueOrTopicName, subscriptionName);
+    // Message bodies are not parsed so that they are resubmitted unchanged.
+    const receiver = new ServiceBusReceiverImpl(
+      this._connectionContext,
+      `${entityPath}/$DeadLetterQueue`,
+      "peekLock",
+      5 * 60 * 1000,
+      true,
+      this._clientOptions.retryOptions
+    );
+    return new ServiceBusDeadLetterManagerImpl(
+      entityPath,
+      subscriptionName === undefined ? queueOrTopicName : undefined,
+      receiver,
+      (targetQueueOrTopicName) => this.createSender(targetQueueOrTopicName),
+      () => this._connectionContext.wasConnectionCloseCalled
+    );
+  }
+
   /**
    * Creates a receiver for a session enabled Azure Service Bus queue.
    *
@@ -351,29 +406,7 @@ export class ServiceBusClient {
       throw new Error("Unhandled set of parameters");
     }
 
-    const messageSession = await MessageSession.create(
-      ensureValidIdentifier(entityPath, options?.identifier),
-      this._connectionContext,
-      entityPath,
-      sessionId,
-      {
-        maxAutoLockRenewalDurationInMs: options?.maxAutoLockRenewalDurationInMs,
-        receiveMode,
-        abortSignal: options?.abortSignal,
-        retryOptions: this._clientOptions.retryOptions,
-        skipParsingBodyAsJson: options?.skipParsingBodyAsJson ?? false,
-      }
-    );
-
-    const sessionReceiver = new ServiceBusSessionReceiverImpl(
-      messageSession,
-      this._connectionContext,
-      entityPath,
-      receiveMode,
-      this._clientOptions.retryOptions
-    );
-
-    return sessionReceiver;
+    return this._createSessionReceiver(entityPath, sessionId, receiveMode, options);
   }
 
   /**
@@ -438,29 +471,67 @@ export class ServiceBusClient {
       options3
     );
 
-    const messageSession = await MessageSession.create(
-      ensureValidIdentifier(entityPath, options?.identifier),
-      this._connectionContext,
-      entityPath,
-      undefined,
-      {
-        maxAutoLockRenewalDurationInMs: options?.maxAutoLockRenewalDurationInMs,
-        receiveMode,
-        abortSignal: options?.abortSignal,
-        retryOptions: this._clientOptions.retryOptions,
-        skipParsingBodyAsJson: options?.skipParsingBodyAsJson ?? false,
-      }
+    return this._createSessionReceiver(entityPath, undefined, receiveMode, options);
+  }
+
+  /**
+   * Creates a processor that concurrently accepts up to `maxConcurrentSessions` sessions of a
+   * session-enabled Azure Service Bus queue, and processes the messages of each session in order.
+   * A session is released when no message is received from it for `sessionIdleTimeoutInMs`, so that
+   * another session can be accepted in its place, and its lock is renewed automatically while it is processed.
+   *
+   * @param queueName - The name of the queue to receive from.
+   * @param options - Options include receiveMode(defaulted to peekLock), the number of concurrent sessions
+   * and the idle timeout of the sessions.
+   * @returns A processor that can be used to process the messages of several sessions.
+   */
+  createSessionProcessor(
+    queueName: string,
+    options?: ServiceBusSessionProcessorOptions
+  ): ServiceBusSessionProcessor;
+  /**
+   * Creates a processor that concurrently accepts up to `maxConcurrentSessions` sessions of a
+   * session-enabled Azure Service Bus subscription, and processes the messages of each session in order.
+   * A session is released when no message is received from it for `sessionIdleTimeoutInMs`, so that
+   * another session can be accepted in its place, and its lock is renewed automatically while it is processed.
+   *
+   * @param topicName - Name of the topic for the subscription we want to receive from.
+   * @param subscriptionName - Name of the subscription (under the `topic`) that we want to receive from.
+   * @param options - Options include receiveMode(defaulted to peekLock), the number of concurrent sessions
+   * and the idle timeout of the sessions.
+   * @returns A processor that can be used to process the messages of several sessions.
+   */
+  createSessionProcessor(
+    topicName: string,
+    subscriptionName: string,
+    options?: ServiceBusSessionProcessorOptions
+  ): ServiceBusSessionProcessor;
+  createSessionProcessor(
+    queueOrTopicName1: string,
+    optionsOrSubscriptionName2?: ServiceBusSessionProcessorOptions | string,
+    options3?: ServiceBusSessionProcessorOptions
+  ): ServiceBusSessionProcessor {
+    validateEntityPath(this._connectionContext.config, queueOrTopicName1);
+
+    const { entityPath, receiveMode, options } = extractReceiverArguments(
+      queueOrTopicName1,
+      optionsOrSubscriptionName2,
+      options3
     );
 
-    const sessionReceiver = new ServiceBusSessionReceiverImpl(
-      messageSession,
-      this._connectionContext,
+    return new ServiceBusSessionProcessorImpl(
+      (abortSignal) =>
+        this._createSessionReceiver(entityPath, undefined, receiveMode, {
+          ...options,
+          abortSignal,
+        }),
       entityPath,
-      receiveMode,
-      this._clientOptions.retryOptions
+      this.fullyQualifiedNamespace,
+      ensureValidIdentifier(entityPath, options?.identifier),
+      () => this._connectionContext.wasConnectionCloseCalled,
+      this._clientOptions.retryOptions?.retryDelayInMs,
+      options
     );
-
-    return sessionReceiver;
   }
 
   /**
@@ -488,6 +559,44 @@ export class ServiceBusClient {
   close(): Promise<void> {
     return ConnectionContext.close(this._connectionContext);
   }
+
+  /**
+   * Returns statistics about the underlying AMQP connection, such as whether it is open,
+   * the number of open links and the number of messages sent and received,
+   * e.g. to implement a health probe.
+   */
+  getConnectionStatistics(): ConnectionStatistics {
+    return this._connectionContext.getConnectionStatistics();
+  }
+
+  private async _createSessionReceiver(
+    entityPath: string,
+    sessionId: string | undefined,
+    receiveMode: ReceiveMode,
+    options?: Omit<ServiceBusSessionReceiverOptions, "receiveMode">
+  ): Promise<ServiceBusSessionReceiver> {
+    const messageSession = await MessageSession.create(
+      ensureValidIdentifier(entityPath, options?.identifier),
+      this._connectionContext,
+      entityPath,
+      sessionId,
+      {
+        maxAutoLockRenewalDurationInMs: options?.maxAutoLockRenewalDurationInMs,
+        receiveMode,
+        abortSignal: options?.abortSignal,
+        retryOptions: this._clientOptions.retryOptions,
+        skipParsingBodyAsJson: options?.skipParsingBodyAsJson ?? false,
+      }
+    );
+
+    return new ServiceBusSessionReceiverImpl(
+      messageSession,
+      this._connectionContext,
+      entityPath,
+      receiveMode,
+      this._clientOptions.retryOptions
+    );
+  }
 }
 
 /**
@@ -0,0 +1,487 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import Long from "long";
+import { AbortError } from "@azure/abort-controller";
+import { AmqpAnnotatedMessage, Constants, StandardAbortMessage } from "@azure/core-amqp";
+import { PeekMessagesOptions } from "./models";
+import { OperationOptionsBase } from "./modelsToBeSharedWithEventHubs";
+import { ServiceBusReceiver } from "./receivers/receiver";
+import { ServiceBusSender } from "./sender";
+import { ServiceBusReceivedMessage } from "./serviceBusMessage";
+import { deadLetterManagerLogger as logger } from "./log";
+
+/**
+ * The number of messages peeked or received at a time while looking for dead-lettered messages.
+ */
+const batchSize = 100;
+
+/**
+ * The maximum number of messages that don't match the filter that are kept locked while receiving the
+ * matching messages of a batch, so that they are not received again.
+ */
+const maxLockedMessageCount = 10 * batchSize;
+
+/**
+ * The application properties Service Bus sets on dead-lettered messages.
+ */
+const deadLetterReasonKey = "DeadLetterReason";
+const deadLetterErrorDescriptionKey = "DeadLetterErrorDescription";
+
+/**
+ * Selects dead-lettered messages. A message matches the filter if it matches all the properties
+ * that are set.
+ */
+export interface DeadLetteredMessageFilter {
+  /**
+   * Value to be matched with the `deadLetterReason` of the message.
+   */
+  deadLetterReason?: string;
+  /**
+   * Value to be matched with the `deadLetterErrorDescription` of the message.
+   */
+  deadLetterErrorDescription?: string;
+  /**
+   * Values to be matched with the application properties of the message.
+   */
+  applicationProperties?: { [key: string]: string | number | boolean | Date };
+}
+
+/**
+ * Describes the options passed to the `peekMessages` method of a `ServiceBusDeadLetterManager`.
+ */
+export interface PeekDeadLetteredMessagesOptions extends PeekMessagesOptions {
+  /**
+   * Only messages that match the filter are returned.
+   */
+  filter?: DeadLetteredMessageFilter;
+}
+
+/**
+ * Describes the options passed to the `resubmitMessages` method of a `ServiceBusDeadLetterManager`.
+ */
+export interface ResubmitDeadLetteredMessagesOptions extends OperationOptionsBase {
+  /**
+   * Only messages that match the filter are resubmitted.
+   */
+  filter?: DeadLetteredMessageFilter;
+  /**
+   * The queue or topic to send the messages to. Required when the messages were dead-lettered from a
+   * subscription, as sending them to its topic would deliver them to every other subscription again.
+   * - **Default**: The queue the messages were dead-lettered from.
+   */
+  targetQueueOrTopicName?: string;
+  /**
+   * The maximum number of messages to resubmit. If not set, all matching messages are resubmitted.
+   */
+  maxMessages?: number;
+  /**
+   * The time to wait for more dead-lettered messages before concluding that there are none left.
+   * - **Default**: `5000` milliseconds.
+   */
+  maxWaitTimeInMs?: number;
+}
+
+/**
+ * The outcome of `resubmitMessages`.
+ */
+export interface ResubmitDeadLetteredMessagesResult {
+  /**
+   * The number of messages that were sent again and removed from the dead-letter sub-queue.
+   */
+  resubmittedMessageCount: number;
+  /**
+   * The number of messages that did not match the filter and were left in the dead-letter sub-queue.
+   */
+  skippedMessageCount: number;
+  /**
+   * The number of messages that matched the filter but could not be received, e.g. because they were
+   * locked by another receiver or too many messages that don't match were ahead of them. They were left
+   * in the dead-letter sub-queue.
+   */
+  unreceivedMessageCount: number;
+}
+
+/**
+ * Reads the dead-letter sub-queue of a queue or subscription, and resubmits dead-lettered messages.
+ */
+export interface ServiceBusDeadLetterManager {
+  /**
+   * The path of the queue or subscription whose dead-letter sub-queue is managed.
+   */
+  readonly entityPath: string;
+
+  /**
+   * Returns `true` if the manager or the client that created it has been closed.
+   * @readonly
+   */
+  readonly isClosed: boolean;
+
+  /**
+   * Peeks dead-lettered messages without locking or removing them. The bodies of the messages are
+   * not parsed as JSON, so that they can be resubmitted unchanged.
+   * @param maxMessageCount - The maximum number of messages to return.
+   * @param options - Options that allow to filter the messages, to specify the sequenceNumber to
+   * start peeking from or an abortSignal to abort the operation.
+   * @returns The messages that match the filter.
+   * @throws Error if the underlying connection, client or manager is closed.
+   * @throws `ServiceBusError` if the service returns an error while peeking messages.
+   */
+  peekMessages(
+    maxMessageCount: number,
+    options?: PeekDeadLetteredMessagesOptions
+  ): Promise<ServiceBusReceivedMessage[]>;
+
+  /**
+   * Sends copies of the dead-lettered messages that match the filter to the original entity or to
+   * `targetQueueOrTopicName`, and removes each message from the dead-letter sub-queue once its copy
+   * is sent. The copies keep the body, the properties including `messageId` and `correlationId`,
+   * and the application properties of the messages, except for the dead-letter reason and description.
+   *
+   * The messages are peeked in batches to find the sequence numbers of the matching messages, then
+   * received until those are all resubmitted. As Service Bus delivers messages in the order of their
+   * sequence numbers, the messages ahead of them are received too; the ones that don't match are kept
+   * locked until the batch is done and then abandoned. If more than 1000 such messages are ahead of the
+   * matching ones, the matching ones are left in the dead-letter sub-queue and counted as unreceived.
+   *
+   * If a message can't be sent, it is left in the dead-letter sub-queue and the error is thrown. If a
+   * message is sent but can't be removed, it will be resubmitted again by the next call; enable
+   * duplicate detection on the target entity to discard the second copy.
+   *
+   * @param options - Options to filter the messages, choose where they are sent, limit their number or
+   * abort the operation.
+   * @returns The number of messages that were resubmitted, skipped and unreceived.
+   * @throws Error if the underlying connection, client or manager is closed.
+   * @throws TypeError if the messages were dead-lettered from a subscription and `targetQueueOrTopicName` is not set.
+   * @throws `AbortError` if the operation is aborted. The messages resubmitted before that remain resubmitted.
+   * @throws `ServiceBusError` if the service returns an error while receiving, sending or settling messages.
+   */
+  resubmitMessages(
+    options?: ResubmitDeadLetteredMessagesOptions
+  ): Promise<ResubmitDeadLetteredMessagesResult>;
+
+  /**
+   * Closes the receiver of the dead-letter sub-queue and the senders used to resubmit messages.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Returns whether a dead-lettered message matches a filter.
+ *
+ * @internal
+ */
+export function matchesDeadLetteredMessageFilter(
+  message: ServiceBusReceivedMessage,
+  filter: DeadLetteredMessageFilter = {}
+): boolean {
+  if (
+    filter.deadLetterReason !== undefined &&
+    message.deadLetterReason !== filter.deadLetterReason
+  ) {
+    return false;
+  }
+  if (
+    filter.deadLetterErrorDescription !== undefined &&
+    message.deadLetterErrorDescription !== filter.deadLetterErrorDescription
+  ) {
+    return false;
+  }
+  for (const [key, expected] of Object.entries(filter.applicationProperties ?? {})) {
+    // Dates in the application properties of received messages are converted to numbers.
+    const value = expected instanceof Date ? expected.getTime() : expected;
+    if (message.applicationProperties?.[key] !== value) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Creates the message that resubmits a dead-lettered message: a copy of its raw AMQP message without
+ * the dead-letter properties and the annotations set by the service.
+ *
+ * @internal
+ */
+export function toResubmittedMessage(message: ServiceBusReceivedMessage): AmqpAnnotatedMessage {
+  const rawMessage = message._rawAmqpMessage;
+  const applicationProperties = { ...rawMessage.applicationProperties };
+  delete applicationProperties[deadLetterReasonKey];
+  delete applicationProperties[deadLetterErrorDescriptionKey];
+
+  // The expiry time is calculated again from the time to live when the message is sent.
+  const properties = { ...rawMessage.properties };
+  delete properties.creationTime;
+  delete properties.absoluteExpiryTime;
+
+  const messageAnnotations: { [key: string]: any } = {};
+  if (rawMessage.messageAnnotations?.[Constants.partitionKey] != null) {
+    messageAnnotations[Constants.partitionKey] =
+      rawMessage.messageAnnotations[Constants.partitionKey];
+  }
+
+  return {
+    body: rawMessage.body,
+    bodyType: rawMessage.bodyType,
+    header: {
+      durable: rawMessage.header?.durable,
+      priority: rawMessage.header?.priority,
+      timeToLive: rawMessage.header?.timeToLive,
+    },
+    properties,
+    applicationProperties,
+    messageAnnotations,
+  };
+}
+
+/**
+ * @internal
+ */
+export class ServiceBusDeadLetterManagerImpl implements ServiceBusDeadLetterManager {
+  private _isClosed = false;
+  /**
+   * The senders used to resubmit messages.
+   *
+   * Key: queue or topic name
+   */
+  private _senders = new Map<string, ServiceBusSender>();
+
+  /**
+   * @param entityPath - The path of the queue or subscription.
+   * @param _originalQueueName - The queue that messages are resubmitted to by default. `undefined` for
+   * subscriptions, as resubmitting to their topic would deliver the messages to the other subscriptions too.
+   * @param _receiver - A `peekLock` receiver of the dead-letter sub-queue that doesn't parse message bodies.
+   * @param _createSender - Creates the sender of a queue or topic.
+   * @param _isClientClosed - Returns whether the client that created the manager was closed.
+   */
+  constructor(
+    public readonly entityPath: string,
+    private _originalQueueName: string | undefined,
+    private _receiver: ServiceBusReceiver,
+    private _createSender: (queueOrTopicName: string) => ServiceBusSender,
+    private _isClientClosed: () => boolean
+  ) {}
+
+  get isClosed(): boolean {
+    return this._isClosed || this._isClientClosed();
+  }
+
+  async peekMessages(
+    maxMessageCount: number,
+    options: PeekDeadLetteredMessagesOptions = {}
+  ): Promise<ServiceBusReceivedMessage[]> {
+    this._throwIfClosed();
+    const { filter, ...peekOptions } = options;
+    if (!filter) {
+      return this._receiver.peekMessages(maxMessageCount, peekOptions);
+    }
+
+    const matchingMessages: ServiceBusReceivedMessage[] = [];
+    let fromSequenceNumber = peekOptions.fromSequenceNumber ?? Long.ZERO;
+    while (matchingMessages.length < maxMessageCount) {
+      const messages = await this._receiver.peekMessages(batchSize, {
+        ...peekOptions,
+        fromSequenceNumber,
+      });
+      if (!messages.length) {
+        break;
+      }
+      for (const message of messages) {
+        if (matchesDeadLetteredMessageFilter(message, filter)) {
+          matchingMessages.push(message);
+          if (matchingMessages.length === maxMessageCount) {
+            break;
+          }
+        }
+      }
+      fromSequenceNumber = messages[messages.length - 1].sequenceNumber!.add(1);
+    }
+    return matchingMessages;
+  }
+
+  async resubmitMessages(
+    options: ResubmitDeadLetteredMessagesOptions = {}
+  ): Promise<ResubmitDeadLetteredMessagesResult> {
+    this._throwIfClosed();
+    const {
+      filter,
+      targetQueueOrTopicName = this._originalQueueName,
+      maxMessages,
+      maxWaitTimeInMs = 5000,
+      ...operationOptions
+    } = options;
+    if (maxMessages !== undefined && (isNaN(maxMessages) || maxMessages < 1)) {
+      throw new TypeError("'maxMessages' must be a number greater than 0.");
+    }
+    if (targetQueueOrTopicName === undefined) {
+      throw new TypeError(
+        "'targetQueueOrTopicName' must be set to resubmit the messages of a subscription, as sending them to its topic would deliver them to every other subscription again."
+      );
+    }
+    const sender = this._getSender(targetQueueOrTopicName);
+
+    const result: ResubmitDeadLetteredMessagesResult = {
+      resubmittedMessageCount: 0,
+      skippedMessageCount: 0,
+      unreceivedMessageCount: 0,
+    };
+    // The messages before this sequence number were checked.
+    let fromSequenceNumber = Long.ZERO;
+
+    while (maxMessages === undefined || result.resubmittedMessageCount < maxMessages) {
+      // The filter doesn't need the bodies.
+      const messages = await this._receiver.peekMessages(batchSize, {
+        fromSequenceNumber,
+        omitMessageBody: true,
+        abortSignal: operationOptions.abortSignal,
+      });
+      if (!messages.length) {
+        break;
+      }
+
+      const sequenceNumbers = new Set<string>();
+      for (const message of messages) {
+        if (result.resubmittedMessageCount + sequenceNumbers.size === maxMessages) {
+          break;
+        }
+        fromSequenceNumber = message.sequenceNumber!.add(1);
+        if (matchesDeadLetteredMessageFilter(message, filter)) {
+          sequenceNumbers.add(message.sequenceNumber!.toString());
+        } else {
+          result.skippedMessageCount++;
+        }
+      }
+
+      if (sequenceNumbers.size) {
+        result.resubmittedMessageCount += await this._resubmitMessages(
+          sequenceNumbers,
+          sender,
+          maxWaitTimeInMs,
+          operationOptions
+        );
+        result.unreceivedMessageCount += sequenceNumbers.size;
+      }
+      if (operationOptions.abortSignal?.aborted) {
+        throw new AbortError(StandardAbortMessage);
+      }
+    }
+
+    logger.verbose(
+      "[%s] Resubmitted %d messages, skipped %d messages, could not receive %d messages.",
+      this.entityPath,
+      result.resubmittedMessageCount,
+      result.skippedMessageCount,
+      result.unreceivedMessageCount
+    );
+    return result;
+  }
+
+  async close(): Promise<void> {
+    this._isClosed = true;
+    const senders = Array.from(this._senders.values());
+    this._senders.clear();
+    await Promise.all([this._receiver.close(), ...senders.map((sender) => sender.close())]);
+  }
+
+  /**
+   * Receives the messages with the given sequence numbers and resubmits them. The sequence numbers of
+   * the messages that are resubmitted are removed from the set.
+   * @returns The number of messages that were resubmitted.
+   */
+  private async _resubmitMessages(
+    sequenceNumbers: Set<string>,
+    sender: ServiceBusSender,
+    maxWaitTimeInMs: number,
+    options: OperationOptionsBase
+  ): Promise<number> {
+    // The other messages are kept locked until the end, so that they are not received again.
+    const unsettledMessages = new Set<ServiceBusReceivedMessage>();
+    let resubmittedMessageCount = 0;
+
+    try {
+      while (sequenceNumbers.size && unsettledMessages.size < maxLockedMessageCount) {
+        const messages = await this._receiver.receiveMessages(batchSize, {
+          maxWaitTimeInMs,
+          abortSignal: options.abortSignal,
+        });
+        // The messages that are left are locked by another receiver, or deferred.
+        if (!messages.length) {
+          break;
+        }
+        messages.forEach((message) => unsettledMessages.add(message));
+
+        for (const message of messages) {
+          if (!sequenceNumbers.delete(message.sequenceNumber!.toString())) {
+            continue;
+          }
+          unsettledMessages.delete(message);
+          await this._resubmit(message, sender, options);
+          resubmittedMessageCount++;
+        }
+      }
+    } finally {
+      await this._abandonMessages(unsettledMessages);
+    }
+    return resubmittedMessageCount;
+  }
+
+  /**
+   * Sends a copy of the message and, once it is sent, completes the original message.
+   * If the copy can't be sent, the original message is abandoned.
+   */
+  private async _resubmit(
+    message: ServiceBusReceivedMessage,
+    sender: ServiceBusSender,
+    options: OperationOptionsBase
+  ): Promise<void> {
+    try {
+      await sender.sendMessages(toResubmittedMessage(message), options);
+    } catch (err: any) {
+      logger.logError(
+        err,
+        "[%s] Failed to resubmit the message with sequence number %s to '%s'",
+        this.entityPath,
+        message.sequenceNumber!.toString(),
+        sender.entityPath
+      );
+      await this._receiver.abandonMessage(message).catch(() => {
+        /* the message becomes available again when its lock expires */
+      });
+      throw err;
+    }
+    await this._receiver.completeMessage(message);
+  }
+
+  private async _abandonMessages(messages: Iterable<ServiceBusReceivedMessage>): Promise<void> {
+    await Promise.all(
+      Array.from(messages, (message) =>
+        this._receiver.abandonMessage(message).catch((err) => {
+          logger.logError(
+            err,
+            "[%s] Failed to abandon the message with sequence number %s",
+            this.entityPath,
+            message.sequenceNumber!.toString()
+          );
+        })
+      )
+    );
+  }
+
+  private _getSender(queueOrTopicName: string): ServiceBusSender {
+    let sender = this._senders.get(queueOrTopicName);
+    if (!sender) {
+      sender = this._createSender(queueOrTopicName);
+      this._senders.set(queueOrTopicName, sender);
+    }
+    return sender;
+  }
+
+  private _throwIfClosed(): void {
+    if (this.isClosed) {
+      throw new Error(
+        `The dead-letter manager for "${this.entityPath}" has been closed and can no longer be used. ` +
+          `Please create a new dead-letter manager using the "createDeadLetterManager" method on the ServiceBusClient.`
+      );
+    }
+  }
+}
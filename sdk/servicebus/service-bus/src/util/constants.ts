@@ -6,7 +6,7 @@
  */
 export const packageJsonInfo = {
   name: "@azure/service-bus",
-  version: "7.7.4",
+  version: "7.8.0",
 };
 
 /**
@@ -19,6 +19,24 @@ export const messageDispositionTimeout = 20000;
  */
 export const max32BitNumber = Math.pow(2, 31) - 1;
 
+/**
+ * The maximum number of messages the service deletes with a single batch delete request.
+ * @internal
+ */
+export const maxDeleteMessageCount = 4000;
+
+/**
+ * The management operation that deletes a batch of messages.
+ * @internal
+ */
+export const batchDeleteMessagesOperation = "com.microsoft:batch-delete-messages";
+
+/**
+ * The key of the enqueued time in the body of a batch delete request.
+ * @internal
+ */
+export const enqueuedTimeUtcMapKey = "enqueued-time-utc";
+
 /**
  * Queue name identifier
  * @internal
@@ -29,6 +29,14 @@ export const entityPathMisMatchError =
  */
 export const InvalidMaxMessageCountError = "'maxMessageCount' must be a number greater than 0.";
 
+/**
+ * Error message for when maxMessageCount provided to delete messages is invalid.
+ *
+ * @internal
+ */
+export const InvalidMaxDeleteMessageCountError =
+  "'maxMessageCount' must be a number greater than 0 and less than or equal to 4000.";
+
 /**
  * @internal
  * Logs and throws Error if the current AMQP connection is closed.
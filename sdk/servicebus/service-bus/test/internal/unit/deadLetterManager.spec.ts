@@ -0,0 +1,420 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import chai from "chai";
+import Long from "long";
+import { AmqpAnnotatedMessage } from "@azure/core-amqp";
+import {
+  ServiceBusDeadLetterManagerImpl,
+  matchesDeadLetteredMessageFilter,
+  toResubmittedMessage,
+} from "../../../src/serviceBusDeadLetterManager";
+import { ServiceBusReceiver } from "../../../src/receivers/receiver";
+import { ServiceBusSender } from "../../../src/sender";
+import { ServiceBusReceivedMessage } from "../../../src/serviceBusMessage";
+import { PeekMessagesOptions } from "../../../src/models";
+import { assertThrows } from "../../public/utils/testUtils";
+const assert = chai.assert;
+
+function createDeadLetteredMessage(
+  sequenceNumber: number,
+  deadLetterReason: string,
+  applicationProperties: Record<string, string | number> = {}
+): ServiceBusReceivedMessage {
+  const allApplicationProperties = {
+    ...applicationProperties,
+    DeadLetterReason: deadLetterReason,
+    DeadLetterErrorDescription: `description-${sequenceNumber}`,
+  };
+  return {
+    body: Buffer.from(`body-${sequenceNumber}`),
+    messageId: `message-${sequenceNumber}`,
+    correlationId: `correlation-${sequenceNumber}`,
+    sequenceNumber: Long.fromNumber(sequenceNumber),
+    applicationProperties: allApplicationProperties,
+    deadLetterReason,
+    deadLetterErrorDescription: `description-${sequenceNumber}`,
+    _rawAmqpMessage: {
+      body: Buffer.from(`body-${sequenceNumber}`),
+      bodyType: "data",
+      header: { deliveryCount: 3, timeToLive: 60000 },
+      properties: {
+        messageId: `message-${sequenceNumber}`,
+        correlationId: `correlation-${sequenceNumber}`,
+        creationTime: 1,
+        absoluteExpiryTime: 60001,
+      },
+      applicationProperties: allApplicationProperties,
+      messageAnnotations: {
+        "x-opt-sequence-number": sequenceNumber,
+        "x-opt-enqueued-time": 1,
+        "x-opt-partition-key": "partition",
+      },
+    },
+  } as unknown as ServiceBusReceivedMessage;
+}
+
+interface FakeDeadLetterQueue {
+  receiver: ServiceBusReceiver;
+  messageIds: () => string[];
+  completed: string[];
+  abandoned: string[];
+  receivedCounts: number[];
+  lock: (messageId: string) => void;
+}
+
+function createFakeDeadLetterQueue(messages: ServiceBusReceivedMessage[]): FakeDeadLetterQueue {
+  const locked = new Set<ServiceBusReceivedMessage>();
+  const completed: string[] = [];
+  const abandoned: string[] = [];
+  const receivedCounts: number[] = [];
+
+  const receiver = {
+    async receiveMessages(maxMessageCount: number): Promise<ServiceBusReceivedMessage[]> {
+      receivedCounts.push(maxMessageCount);
+      const received = messages.filter((m) => !locked.has(m)).slice(0, maxMessageCount);
+      received.forEach((m) => locked.add(m));
+      return received;
+    },
+    async peekMessages(
+      maxMessageCount: number,
+      options: PeekMessagesOptions
+    ): Promise<ServiceBusReceivedMessage[]> {
+      return messages
+        .filter((m) => m.sequenceNumber!.greaterThanOrEqual(options.fromSequenceNumber!))
+        .slice(0, maxMessageCount);
+    },
+    async completeMessage(message: ServiceBusReceivedMessage): Promise<void> {
+      completed.push(message.messageId as string);
+      messages.splice(messages.indexOf(message), 1);
+      locked.delete(message);
+    },
+    async abandonMessage(message: ServiceBusReceivedMessage): Promise<void> {
+      abandoned.push(message.messageId as string);
+      locked.delete(message);
+    },
+    async close(): Promise<void> {
+      /* nothing to close */
+    },
+  } as unknown as ServiceBusReceiver;
+
+  return {
+    receiver,
+    messageIds: () => messages.map((m) => m.messageId as string),
+    completed,
+    abandoned,
+    receivedCounts,
+    lock: (messageId) => locked.add(messages.find((m) => m.messageId === messageId)!),
+  };
+}
+
+interface FakeSender {
+  sender: ServiceBusSender;
+  sent: AmqpAnnotatedMessage[];
+}
+
+function createFakeSender(entityPath: string, failingMessageId?: string): FakeSender {
+  const sent: AmqpAnnotatedMessage[] = [];
+  const sender = {
+    entityPath,
+    async sendMessages(message: AmqpAnnotatedMessage): Promise<void> {
+      if (message.properties?.messageId === failingMessageId) {
+        throw new Error("send failed");
+      }
+      sent.push(message);
+    },
+    async close(): Promise<void> {
+      /* nothing to close */
+    },
+  } as unknown as ServiceBusSender;
+  return { sender, sent };
+}
+
+describe("ServiceBusDeadLetterManager unit tests", () => {
+  describe("matchesDeadLetteredMessageFilter", () => {
+    const message = createDeadLetteredMessage(1, "MaxDeliveryCountExceeded", {
+      tenant: "contoso",
+      created: new Date(2022, 0, 1).getTime(),
+    });
+
+    it("matches all messages without a filter", () => {
+      assert.isTrue(matchesDeadLetteredMessageFilter(message));
+      assert.isTrue(matchesDeadLetteredMessageFilter(message, {}));
+    });
+
+    it("matches the dead-letter reason and description", () => {
+      assert.isTrue(
+        matchesDeadLetteredMessageFilter(message, {
+          deadLetterReason: "MaxDeliveryCountExceeded",
+          deadLetterErrorDescription: "description-1",
+        })
+      );
+      assert.isFalse(
+        matchesDeadLetteredMessageFilter(message, { deadLetterReason: "TTLExpiredException" })
+      );
+      assert.isFalse(
+        matchesDeadLetteredMessageFilter(message, { deadLetterErrorDescription: "other" })
+      );
+    });
+
+    it("matches application properties, including dates", () => {
+      assert.isTrue(
+        matchesDeadLetteredMessageFilter(message, {
+          applicationProperties: { tenant: "contoso", created: new Date(2022, 0, 1) },
+        })
+      );
+      assert.isFalse(
+        matchesDeadLetteredMessageFilter(message, { applicationProperties: { tenant: "fabrikam" } })
+      );
+      assert.isFalse(
+        matchesDeadLetteredMessageFilter(message, { applicationProperties: { missing: 1 } })
+      );
+    });
+  });
+
+  it("toResubmittedMessage keeps the message but not the dead-letter and service properties", () => {
+    const message = createDeadLetteredMessage(1, "reason", { tenant: "contoso" });
+
+    assert.deepEqual(toResubmittedMessage(message), {
+      body: Buffer.from("body-1"),
+      bodyType: "data",
+      header: { durable: undefined, priority: undefined, timeToLive: 60000 },
+      properties: { messageId: "message-1", correlationId: "correlation-1" },
+      applicationProperties: { tenant: "contoso" },
+      messageAnnotations: { "x-opt-partition-key": "partition" },
+    });
+    assert.equal(
+      message._rawAmqpMessage.applicationProperties!.DeadLetterReason,
+      "reason",
+      "The received message should not be modified"
+    );
+  });
+
+  describe("resubmitMessages", () => {
+    function createManager(
+      queue: FakeDeadLetterQueue,
+      senders: Record<string, FakeSender>
+    ): ServiceBusDeadLetterManagerImpl {
+      return new ServiceBusDeadLetterManagerImpl(
+        "queue",
+        "queue",
+        queue.receiver,
+        (queueOrTopicName) => senders[queueOrTopicName].sender,
+        () => false
+      );
+    }
+
+    it("resubmits the matching messages and leaves the others in the dead-letter queue", async () => {
+      const queue = createFakeDeadLetterQueue([
+        createDeadLetteredMessage(1, "retry"),
+        createDeadLetteredMessage(2, "poison"),
+        createDeadLetteredMessage(3, "retry"),
+      ]);
+      const target = createFakeSender("queue");
+      const manager = createManager(queue, { queue: target });
+
+      const result = await manager.resubmitMessages({
+        filter: { deadLetterReason: "retry" },
+        maxWaitTimeInMs: 0,
+      });
+
+      assert.deepEqual(result, {
+        resubmittedMessageCount: 2,
+        skippedMessageCount: 1,
+        unreceivedMessageCount: 0,
+      });
+      assert.deepEqual(
+        target.sent.map((m) => m.properties?.correlationId),
+        ["correlation-1", "correlation-3"]
+      );
+      assert.deepEqual(queue.completed, ["message-1", "message-3"]);
+      assert.deepEqual(queue.abandoned, ["message-2"]);
+      assert.deepEqual(queue.messageIds(), ["message-2"]);
+    });
+
+    it("sends to the target entity and stops after maxMessages", async () => {
+      const queue = createFakeDeadLetterQueue([
+        createDeadLetteredMessage(1, "retry"),
+        createDeadLetteredMessage(2, "retry"),
+        createDeadLetteredMessage(3, "retry"),
+      ]);
+      const original = createFakeSender("queue");
+      const other = createFakeSender("other");
+      const manager = createManager(queue, { queue: original, other });
+
+      const result = await manager.resubmitMessages({
+        targetQueueOrTopicName: "other",
+        maxMessages: 2,
+        maxWaitTimeInMs: 0,
+      });
+
+      assert.deepEqual(result, {
+        resubmittedMessageCount: 2,
+        skippedMessageCount: 0,
+        unreceivedMessageCount: 0,
+      });
+      assert.isEmpty(original.sent);
+      assert.equal(other.sent.length, 2);
+      assert.deepEqual(queue.messageIds(), ["message-3"]);
+    });
+
+    it("settles the original message only after it is sent", async () => {
+      const queue = createFakeDeadLetterQueue([
+        createDeadLetteredMessage(1, "retry"),
+        createDeadLetteredMessage(2, "retry"),
+        createDeadLetteredMessage(3, "other"),
+      ]);
+      const target = createFakeSender("queue", "message-2");
+      const manager = createManager(queue, { queue: target });
+
+      await assertThrows(() => manager.resubmitMessages({ maxWaitTimeInMs: 0 }), {
+        message: "send failed",
+      });
+
+      assert.deepEqual(queue.completed, ["message-1"]);
+      assert.deepEqual(queue.abandoned, ["message-2", "message-3"]);
+      assert.deepEqual(queue.messageIds(), ["message-2", "message-3"]);
+    });
+
+    it("receives the matching messages of each batch and abandons the others", async () => {
+      const messages = [];
+      for (let i = 1; i <= 250; i++) {
+        messages.push(createDeadLetteredMessage(i, i % 50 === 0 ? "poison" : "retry"));
+      }
+      const queue = createFakeDeadLetterQueue(messages);
+      const target = createFakeSender("queue");
+      const manager = createManager(queue, { queue: target });
+
+      const result = await manager.resubmitMessages({
+        filter: { deadLetterReason: "retry" },
+        maxWaitTimeInMs: 0,
+      });
+
+      assert.deepEqual(result, {
+        resubmittedMessageCount: 245,
+        skippedMessageCount: 5,
+        unreceivedMessageCount: 0,
+      });
+      assert.deepEqual(queue.messageIds(), [
+        "message-50",
+        "message-100",
+        "message-150",
+        "message-200",
+        "message-250",
+      ]);
+      assert.deepEqual(
+        queue.abandoned.slice(0, 2),
+        ["message-50", "message-100"],
+        "The skipped messages should be abandoned after each batch"
+      );
+      assert.isTrue(
+        queue.receivedCounts.every((count) => count <= 100),
+        "Each receive should be capped at the batch size"
+      );
+    });
+
+    it("does not receive batches without matching messages", async () => {
+      const messages = [];
+      for (let i = 1; i <= 250; i++) {
+        messages.push(createDeadLetteredMessage(i, i <= 100 ? "retry" : "poison"));
+      }
+      const queue = createFakeDeadLetterQueue(messages);
+      const target = createFakeSender("queue");
+      const manager = createManager(queue, { queue: target });
+
+      const result = await manager.resubmitMessages({
+        filter: { deadLetterReason: "retry" },
+        maxWaitTimeInMs: 0,
+      });
+
+      assert.deepEqual(result, {
+        resubmittedMessageCount: 100,
+        skippedMessageCount: 150,
+        unreceivedMessageCount: 0,
+      });
+      assert.deepEqual(queue.receivedCounts, [100]);
+      assert.isEmpty(queue.abandoned);
+    });
+
+    it("counts the matching messages it cannot receive", async () => {
+      const queue = createFakeDeadLetterQueue([
+        createDeadLetteredMessage(1, "retry"),
+        createDeadLetteredMessage(2, "retry"),
+      ]);
+      queue.lock("message-1");
+      const target = createFakeSender("queue");
+      const manager = createManager(queue, { queue: target });
+
+      const result = await manager.resubmitMessages({ maxWaitTimeInMs: 0 });
+
+      assert.deepEqual(result, {
+        resubmittedMessageCount: 1,
+        skippedMessageCount: 0,
+        unreceivedMessageCount: 1,
+      });
+      assert.deepEqual(queue.messageIds(), ["message-1"]);
+    });
+
+    it("requires a target to resubmit the messages of a subscription", async () => {
+      const queue = createFakeDeadLetterQueue([createDeadLetteredMessage(1, "retry")]);
+      const topic = createFakeSender("topic");
+      const other = createFakeSender("other");
+      const senders: Record<string, FakeSender> = { topic, other };
+      const manager = new ServiceBusDeadLetterManagerImpl(
+        "topic/Subscriptions/subscription",
+        undefined,
+        queue.receiver,
+        (queueOrTopicName) => senders[queueOrTopicName].sender,
+        () => false
+      );
+
+      await assertThrows(() => manager.resubmitMessages({ maxWaitTimeInMs: 0 }), {
+        name: "TypeError",
+        message:
+          "'targetQueueOrTopicName' must be set to resubmit the messages of a subscription, as sending them to its topic would deliver them to every other subscription again.",
+      });
+      assert.deepEqual(queue.messageIds(), ["message-1"]);
+
+      await manager.resubmitMessages({ targetQueueOrTopicName: "other", maxWaitTimeInMs: 0 });
+      assert.isEmpty(topic.sent);
+      assert.equal(other.sent.length, 1);
+    });
+
+    it("throws once closed", async () => {
+      const manager = createManager(createFakeDeadLetterQueue([]), {
+        queue: createFakeSender("queue"),
+      });
+      await manager.close();
+
+      assert.isTrue(manager.isClosed);
+      await assertThrows(() => manager.resubmitMessages(), {
+        message:
+          'The dead-letter manager for "queue" has been closed and can no longer be used. ' +
+          'Please create a new dead-letter manager using the "createDeadLetterManager" method on the ServiceBusClient.',
+      });
+    });
+  });
+
+  it("peekMessages returns the messages that match the filter", async () => {
+    const messages = [];
+    for (let i = 1; i <= 250; i++) {
+      messages.push(createDeadLetteredMessage(i, i % 50 === 0 ? "poison" : "retry"));
+    }
+    const queue = createFakeDeadLetterQueue(messages);
+    const manager = new ServiceBusDeadLetterManagerImpl(
+      "queue",
+      "queue",
+      queue.receiver,
+      () => createFakeSender("queue").sender,
+      () => false
+    );
+
+    const peeked = await manager.peekMessages(4, { filter: { deadLetterReason: "poison" } });
+
+    assert.deepEqual(
+      peeked.map((m) => m.messageId),
+      ["message-50", "message-100", "message-150", "message-200"]
+    );
+    assert.equal(queue.messageIds().length, 250, "Peeking should not remove messages");
+  });
+});
@@ -0,0 +1,151 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import chai from "chai";
+import { MockServiceBus } from "@azure/mock-servicebus";
+import { readFileSync } from "fs";
+import { resolve as resolvePath } from "path";
+import { ServiceBusClient } from "../../../src";
+const assert = chai.assert;
+
+const connectionString = "Endpoint=sb://localhost/;SharedAccessKeyName=Foo;SharedAccessKey=Bar";
+
+describe("ServiceBusClient against the mock Service Bus", function (): void {
+  let service: MockServiceBus;
+  let client: ServiceBusClient;
+
+  beforeEach(async () => {
+    service = new MockServiceBus({
+      queues: [{ name: "queue" }, { name: "session-queue", requiresSession: true }],
+      topics: [
+        {
+          name: "topic",
+          subscriptions: [
+            { name: "all" },
+            { name: "red", rules: [{ name: "red", filter: { sqlExpression: "color = 'red'" } }] },
+          ],
+        },
+      ],
+      tlsOptions: {
+        cert: readFileSync(resolvePath(process.cwd(), "certs", "my-server.crt.pem")),
+        key: readFileSync(resolvePath(process.cwd(), "certs", "my-server.key.pem")),
+      },
+    });
+    await service.start();
+    client = new ServiceBusClient(connectionString, {
+      customEndpointAddress: `sb://localhost:${service.port}`,
+    });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await service.stop();
+  });
+
+  it("sends, receives and completes messages", async () => {
+    const sender = client.createSender("queue");
+    await sender.sendMessages([{ body: "first" }, { body: "second" }]);
+
+    const receiver = client.createReceiver("queue");
+    const messages = await receiver.receiveMessages(2, { maxWaitTimeInMs: 1000 });
+    assert.deepEqual(
+      messages.map((m) => m.body),
+      ["first", "second"]
+    );
+    for (const message of messages) {
+      await receiver.completeMessage(message);
+    }
+
+    assert.deepEqual(service.getMessageCounts("queue"), { active: 0, deferred: 0, scheduled: 0 });
+  });
+
+  it("peeks and receives messages in receiveAndDelete mode", async () => {
+    await client.createSender("queue").sendMessages({ body: "message", messageId: "id" });
+
+    const receiver = client.createReceiver("queue", { receiveMode: "receiveAndDelete" });
+    const [peeked] = await receiver.peekMessages(1);
+    assert.equal(peeked.messageId, "id");
+
+    const [received] = await receiver.receiveMessages(1, { maxWaitTimeInMs: 1000 });
+    assert.equal(received.messageId, "id");
+    assert.equal(received.sequenceNumber!.toNumber(), peeked.sequenceNumber!.toNumber());
+    assert.equal(service.getMessageCounts("queue")!.active, 0);
+  });
+
+  it("defers and dead-letters messages", async () => {
+    await client.createSender("queue").sendMessages([{ body: "deferred" }, { body: "poison" }]);
+
+    const receiver = client.createReceiver("queue");
+    const [deferred, poison] = await receiver.receiveMessages(2, { maxWaitTimeInMs: 1000 });
+    await receiver.deferMessage(deferred);
+    await receiver.deadLetterMessage(poison, {
+      deadLetterReason: "reason",
+      deadLetterErrorDescription: "description",
+    });
+    assert.deepEqual(service.getMessageCounts("queue"), { active: 0, deferred: 1, scheduled: 0 });
+
+    const [receivedDeferred] = await receiver.receiveDeferredMessages(deferred.sequenceNumber!);
+    assert.equal(receivedDeferred.body, "deferred");
+    await receiver.completeMessage(receivedDeferred);
+
+    const deadLetterReceiver = client.createReceiver("queue", { subQueueType: "deadLetter" });
+    const [deadLettered] = await deadLetterReceiver.receiveMessages(1, { maxWaitTimeInMs: 1000 });
+    assert.equal(deadLettered.body, "poison");
+    assert.equal(deadLettered.deadLetterReason, "reason");
+  });
+
+  it("deletes messages in batches and deferred messages by sequence number", async () => {
+    await client
+      .createSender("queue")
+      .sendMessages([{ body: "deferred" }, { body: "first" }, { body: "second" }]);
+    const receiver = client.createReceiver("queue");
+    const [deferred] = await receiver.receiveMessages(1, { maxWaitTimeInMs: 1000 });
+    await receiver.deferMessage(deferred);
+
+    assert.equal(await receiver.deleteDeferredMessages([deferred.sequenceNumber!]), 1);
+    assert.equal(await receiver.deleteMessages({ maxMessageCount: 1 }), 1);
+    assert.equal(await receiver.purgeMessages(), 1);
+    assert.deepEqual(service.getMessageCounts("queue"), { active: 0, deferred: 0, scheduled: 0 });
+  });
+
+  it("delivers the messages of a topic to the matching subscriptions", async () => {
+    await client.createSender("topic").sendMessages([
+      { body: "red", applicationProperties: { color: "red" } },
+      { body: "blue", applicationProperties: { color: "blue" } },
+    ]);
+
+    const all = await client
+      .createReceiver("topic", "all")
+      .receiveMessages(2, { maxWaitTimeInMs: 1000 });
+    const red = await client
+      .createReceiver("topic", "red")
+      .receiveMessages(2, { maxWaitTimeInMs: 1000 });
+
+    assert.deepEqual(
+      all.map((m) => m.body),
+      ["red", "blue"]
+    );
+    assert.deepEqual(
+      red.map((m) => m.body),
+      ["red"]
+    );
+  });
+
+  it("receives the messages and state of a session", async () => {
+    await client.createSender("session-queue").sendMessages([
+      { body: "one", sessionId: "session" },
+      { body: "other", sessionId: "other-session" },
+      { body: "two", sessionId: "session" },
+    ]);
+
+    const receiver = await client.acceptSession("session-queue", "session");
+    const messages = await receiver.receiveMessages(3, { maxWaitTimeInMs: 1000 });
+    assert.deepEqual(
+      messages.map((m) => m.body),
+      ["one", "two"]
+    );
+
+    await receiver.setSessionState("state");
+    assert.equal(await receiver.getSessionState(), "state");
+  });
+});
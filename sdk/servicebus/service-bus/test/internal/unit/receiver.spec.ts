@@ -23,6 +23,8 @@ import { MessageSession } from "../../../src/session/messageSession";
 import sinon from "sinon";
 import { assertThrows } from "../../public/utils/testUtils";
 import { Constants } from "@azure/core-amqp";
+import { ServiceBusError } from "../../../src/serviceBusError";
+import Long from "long";
 
 describe("Receiver unit tests", () => {
   it("Receiver should set target in created receiver options", () => {
@@ -340,6 +342,30 @@ describe("Receiver unit tests", () => {
       assert.exists(context.messageReceivers[impl["_streamingReceiver"]!.name]);
     });
   });
+  describe("deleteMessages and deleteDeferredMessages", () => {
+    it("are not retried", async () => {
+      const context = createConnectionContextForTests();
+      const managementClient = {
+        deleteMessages: sinon.stub().rejects(new ServiceBusError("Busy", "ServiceBusy")),
+        deleteDeferredMessages: sinon.stub().rejects(new ServiceBusError("Busy", "ServiceBusy")),
+      };
+      context.getManagementClient = () => managementClient as any;
+      const impl = new ServiceBusReceiverImpl(context, "entity path", "peekLock", 1, false, {
+        maxRetries: 3,
+        retryDelayInMs: 0,
+      });
+
+      await assert.isRejected(impl.deleteMessages({ maxMessageCount: 10 }), /Busy/);
+      await assert.isRejected(impl.deleteDeferredMessages(Long.fromNumber(1)), /Busy/);
+
+      assert.equal(managementClient.deleteMessages.callCount, 1);
+      assert.deepEqual(managementClient.deleteDeferredMessages.firstCall.args[0], [
+        Long.fromNumber(1),
+      ]);
+      assert.equal(managementClient.deleteDeferredMessages.callCount, 1);
+      await impl.close();
+    });
+  });
 });
 
 async function subscribeAndWaitForInitialize(
@@ -3,6 +3,7 @@
 
 import {
   getMessageIterator,
+  purgeMessages,
   retryForever,
   settleMessage,
   settleMessageOperation,
@@ -24,7 +25,8 @@ import { DispositionStatusOptions } from "../../../src/core/managementClient";
 import { Delivery } from "rhea-promise";
 import { MessageAlreadySettled } from "../../../src/util/errors";
 import { assertThrows } from "../../public/utils/testUtils";
-import { AbortError } from "@azure/abort-controller";
+import { AbortController, AbortError } from "@azure/abort-controller";
+import { DeleteMessagesOptions } from "../../../src/models";
 const assert = chai.assert;
 
 describe("shared receiver code", () => {
@@ -360,6 +362,163 @@ describe("shared receiver code", () => {
 
       assert.equal(numRetryCalls, errorCount + 1);
     });
+
+    it("stops retrying when calculateRetryDelay returns undefined", async () => {
+      const errorMessages: string[] = [];
+      const retryCycles: number[] = [];
+      let numRetryCalls = 0;
+
+      const fakeRetry = async <T>(): Promise<T> => {
+        ++numRetryCalls;
+        throw new Error(`Attempt ${numRetryCalls}`);
+      };
+
+      await assertThrows(
+        () =>
+          retryForever(
+            {
+              logPrefix: "logPrefix",
+              logger: logger,
+              onError: (err) => {
+                errorMessages.push(err.message);
+              },
+              retryConfig: {
+                operation: async () => 1,
+                connectionId: "id",
+                operationType: RetryOperationType.connection,
+                retryOptions: {
+                  calculateRetryDelay: (retryCycle) => {
+                    retryCycles.push(retryCycle);
+                    return retryCycle < 2 ? 0 : undefined;
+                  },
+                },
+              },
+            },
+            fakeRetry
+          ),
+        { message: "Attempt 2" }
+      );
+
+      assert.deepEqual(retryCycles, [1, 2]);
+      assert.deepEqual(errorMessages, ["Attempt 1", "Attempt 2"]);
+      assert.equal(numRetryCalls, 2);
+    });
+  });
+
+  describe("purgeMessages", () => {
+    function createFakeReceiver(messageCount: number): {
+      receiver: Pick<ServiceBusReceiver, "deleteMessages">;
+      requests: DeleteMessagesOptions[];
+    } {
+      const requests: DeleteMessagesOptions[] = [];
+      let remaining = messageCount;
+      return {
+        requests,
+        receiver: {
+          deleteMessages: async (options) => {
+            requests.push(options);
+            const deleted = Math.min(remaining, options.maxMessageCount);
+            remaining -= deleted;
+            return deleted;
+          },
+        },
+      };
+    }
+
+    it("deletes in batches until a batch is not full", async () => {
+      const { receiver, requests } = createFakeReceiver(9000);
+      const progress: number[] = [];
+      const beforeEnqueuedTime = new Date(2022, 0, 1);
+
+      const deleted = await purgeMessages(receiver, "connection-id", undefined, {
+        beforeEnqueuedTime,
+        onProgress: (deletedMessageCount) => progress.push(deletedMessageCount),
+      });
+
+      assert.equal(deleted, 9000);
+      assert.deepEqual(progress, [4000, 8000, 9000]);
+      assert.deepEqual(
+        requests.map((r) => r.maxMessageCount),
+        [4000, 4000, 4000]
+      );
+      assert.isTrue(requests.every((r) => r.beforeEnqueuedTime === beforeEnqueuedTime));
+    });
+
+    it("stops after maxMessages", async () => {
+      const { receiver, requests } = createFakeReceiver(9000);
+
+      const deleted = await purgeMessages(receiver, "connection-id", undefined, {
+        maxMessages: 5000,
+      });
+
+      assert.equal(deleted, 5000);
+      assert.deepEqual(
+        requests.map((r) => r.maxMessageCount),
+        [4000, 1000]
+      );
+    });
+
+    it("uses the same enqueued time for every batch by default", async () => {
+      const { receiver, requests } = createFakeReceiver(4001);
+
+      await purgeMessages(receiver, "connection-id", undefined);
+
+      assert.equal(requests.length, 2);
+      assert.instanceOf(requests[0].beforeEnqueuedTime, Date);
+      assert.strictEqual(requests[0].beforeEnqueuedTime, requests[1].beforeEnqueuedTime);
+    });
+
+    it("respects the abortSignal between batches", async () => {
+      const { receiver, requests } = createFakeReceiver(9000);
+      const abortController = new AbortController();
+
+      await assertThrows(
+        () =>
+          purgeMessages(receiver, "connection-id", undefined, {
+            abortSignal: abortController.signal,
+            onProgress: () => abortController.abort(),
+          }),
+        { name: "AbortError" }
+      );
+      assert.equal(requests.length, 1);
+    });
+
+    it("retries a batch that failed", async () => {
+      const { receiver, requests } = createFakeReceiver(5000);
+      const deleteMessages = receiver.deleteMessages;
+      let failed = false;
+      receiver.deleteMessages = async (options) => {
+        if (requests.length === 1 && !failed) {
+          failed = true;
+          throw new ServiceBusError("Busy", "ServiceBusy");
+        }
+        return deleteMessages(options);
+      };
+
+      const deleted = await purgeMessages(
+        receiver,
+        "connection-id",
+        { maxRetries: 1, retryDelayInMs: 0 },
+        {}
+      );
+
+      assert.equal(deleted, 5000);
+      assert.isTrue(failed);
+      assert.equal(requests.length, 2);
+    });
+
+    it("rejects an invalid maxMessages", async () => {
+      const { receiver, requests } = createFakeReceiver(1);
+
+      await assertThrows(
+        () => purgeMessages(receiver, "connection-id", undefined, { maxMessages: 0 }),
+        {
+          name: "TypeError",
+          message: "'maxMessages' must be a number greater than 0.",
+        }
+      );
+      assert.isEmpty(requests);
+    });
   });
 });
 
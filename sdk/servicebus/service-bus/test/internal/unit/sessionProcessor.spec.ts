@@ -0,0 +1,321 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import chai from "chai";
+import { AbortSignalLike } from "@azure/abort-controller";
+import { delay } from "@azure/core-util";
+import {
+  ServiceBusSessionContext,
+  ServiceBusSessionProcessorImpl,
+} from "../../../src/receivers/sessionProcessor";
+import { ServiceBusSessionReceiver } from "../../../src/receivers/sessionReceiver";
+import { ServiceBusReceivedMessage } from "../../../src/serviceBusMessage";
+import { ServiceBusError } from "../../../src/serviceBusError";
+import { ProcessErrorArgs, ServiceBusSessionProcessorOptions } from "../../../src/models";
+const assert = chai.assert;
+
+interface FakeSession {
+  receiver: ServiceBusSessionReceiver;
+  completed: string[];
+  abandoned: string[];
+  isClosed: () => boolean;
+}
+
+function createFakeSession(sessionId: string, messageIds: string[]): FakeSession {
+  const messages = messageIds.map(
+    (messageId) =>
+      ({
+        messageId,
+        sessionId,
+        delivery: { remote_settled: false },
+      } as unknown as ServiceBusReceivedMessage)
+  );
+  const completed: string[] = [];
+  const abandoned: string[] = [];
+  let isClosed = false;
+
+  const receiver = {
+    sessionId,
+    identifier: `receiver-${sessionId}`,
+    receiveMode: "peekLock",
+    sessionLockedUntilUtc: new Date(),
+    async receiveMessages(
+      maxMessageCount: number,
+      options: { maxWaitTimeInMs: number; abortSignal?: AbortSignalLike }
+    ): Promise<ServiceBusReceivedMessage[]> {
+      if (messages.length === 0) {
+        await delay(options.maxWaitTimeInMs, { abortSignal: options.abortSignal });
+      }
+      return messages.splice(0, maxMessageCount);
+    },
+    async completeMessage(message: ServiceBusReceivedMessage): Promise<void> {
+      completed.push(message.messageId as string);
+    },
+    async abandonMessage(message: ServiceBusReceivedMessage): Promise<void> {
+      abandoned.push(message.messageId as string);
+    },
+    async getSessionState(): Promise<any> {
+      return `state-${sessionId}`;
+    },
+    async close(): Promise<void> {
+      isClosed = true;
+    },
+  } as unknown as ServiceBusSessionReceiver;
+
+  return { receiver, completed, abandoned, isClosed: () => isClosed };
+}
+
+function createProcessor(
+  sessions: FakeSession[],
+  options: ServiceBusSessionProcessorOptions = {},
+  acceptError?: Error
+): ServiceBusSessionProcessorImpl {
+  const available = sessions.slice();
+  return new ServiceBusSessionProcessorImpl(
+    async (abortSignal: AbortSignalLike) => {
+      if (acceptError) {
+        const error = acceptError;
+        acceptError = undefined;
+        throw error;
+      }
+      const session = available.shift();
+      if (session) {
+        return session.receiver;
+      }
+      await delay(20, { abortSignal });
+      throw new ServiceBusError("No session is available.", "ServiceTimeout");
+    },
+    "queue",
+    "namespace.servicebus.windows.net",
+    "processor",
+    () => false,
+    10,
+    { sessionIdleTimeoutInMs: 20, ...options }
+  );
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await delay(5);
+  }
+  assert.isTrue(condition(), "timed out waiting for the condition");
+}
+
+describe("ServiceBusSessionProcessor unit tests", () => {
+  it("processes the messages of each session in order and releases idle sessions", async () => {
+    const sessions = [
+      createFakeSession("session-1", ["1-a", "1-b", "1-c"]),
+      createFakeSession("session-2", ["2-a", "2-b"]),
+    ];
+    const processor = createProcessor(sessions, { maxConcurrentSessions: 2 });
+    const processed: Record<string, string[]> = {};
+    const events: string[] = [];
+    const errors: ProcessErrorArgs[] = [];
+
+    processor.subscribe({
+      async processMessage(message, context) {
+        (processed[context.sessionId] ??= []).push(message.messageId as string);
+      },
+      async processError(args) {
+        errors.push(args);
+      },
+      async processSessionInitialize(context) {
+        events.push(`initialize ${context.sessionId} ${await context.getSessionState()}`);
+      },
+      async processSessionClose(context) {
+        events.push(`close ${context.sessionId}`);
+      },
+    });
+
+    await waitFor(() => sessions.every((session) => session.isClosed()));
+    await processor.close();
+
+    assert.deepEqual(processed, {
+      "session-1": ["1-a", "1-b", "1-c"],
+      "session-2": ["2-a", "2-b"],
+    });
+    assert.deepEqual(sessions[0].completed, ["1-a", "1-b", "1-c"]);
+    assert.deepEqual(sessions[1].completed, ["2-a", "2-b"]);
+    assert.sameMembers(events, [
+      "initialize session-1 state-session-1",
+      "initialize session-2 state-session-2",
+      "close session-1",
+      "close session-2",
+    ]);
+    assert.isEmpty(errors);
+    assert.isTrue(processor.isClosed);
+    assert.deepEqual(processor.activeSessionIds, []);
+  });
+
+  it("processes at most maxConcurrentSessions sessions at a time", async () => {
+    const sessions = ["a", "b", "c", "d", "e"].map((id) => createFakeSession(id, [`${id}-1`]));
+    const processor = createProcessor(sessions, { maxConcurrentSessions: 2 });
+    let maxActiveSessions = 0;
+
+    processor.subscribe({
+      async processMessage() {
+        maxActiveSessions = Math.max(maxActiveSessions, processor.activeSessionIds.length);
+        await delay(5);
+      },
+      async processError() {
+        /* no errors expected */
+      },
+    });
+
+    await waitFor(() => sessions.every((session) => session.isClosed()));
+    await processor.close();
+
+    assert.equal(maxActiveSessions, 2);
+    assert.deepEqual(
+      sessions.map((session) => session.completed),
+      [["a-1"], ["b-1"], ["c-1"], ["d-1"], ["e-1"]]
+    );
+  });
+
+  it("abandons the message and reports the error when processMessage throws", async () => {
+    const session = createFakeSession("session", ["fails", "succeeds"]);
+    const processor = createProcessor([session], { maxConcurrentSessions: 1 });
+    const errors: ProcessErrorArgs[] = [];
+
+    processor.subscribe({
+      async processMessage(message) {
+        if (message.messageId === "fails") {
+          throw new Error("processing failed");
+        }
+      },
+      async processError(args) {
+        errors.push(args);
+      },
+    });
+
+    await waitFor(() => session.isClosed());
+    await processor.close();
+
+    assert.deepEqual(session.abandoned, ["fails"]);
+    assert.deepEqual(session.completed, ["succeeds"]);
+    assert.lengthOf(errors, 1);
+    assert.equal(errors[0].errorSource, "processMessageCallback");
+    assert.equal(errors[0].error.message, "processing failed");
+    assert.equal(errors[0].identifier, "receiver-session");
+    assert.equal(errors[0].entityPath, "queue");
+  });
+
+  it("doesn't settle messages when autoCompleteMessages is disabled", async () => {
+    const session = createFakeSession("session", ["1"]);
+    const processor = createProcessor([session], { autoCompleteMessages: false });
+
+    processor.subscribe({
+      async processMessage() {
+        /* settled by the user */
+      },
+      async processError() {
+        /* no errors expected */
+      },
+    });
+
+    await waitFor(() => session.isClosed());
+    await processor.close();
+    assert.deepEqual(session.completed, []);
+  });
+
+  it("stops processing a session once it is released", async () => {
+    const session = createFakeSession("session", ["1", "2", "3"]);
+    const processor = createProcessor([session], { maxConcurrentSessions: 1 });
+    const processed: string[] = [];
+
+    processor.subscribe({
+      async processMessage(message, context: ServiceBusSessionContext) {
+        processed.push(message.messageId as string);
+        if (message.messageId === "2") {
+          context.releaseSession();
+        }
+      },
+      async processError() {
+        /* no errors expected */
+      },
+    });
+
+    await waitFor(() => session.isClosed());
+    await processor.close();
+    assert.deepEqual(processed, ["1", "2"]);
+  });
+
+  it("reports the errors of accepting sessions, except when no session is available", async () => {
+    const session = createFakeSession("session", ["1"]);
+    const processor = createProcessor(
+      [session],
+      { maxConcurrentSessions: 1 },
+      new ServiceBusError("Unauthorized", "UnauthorizedAccess")
+    );
+    const errors: ProcessErrorArgs[] = [];
+
+    processor.subscribe({
+      async processMessage() {
+        /* nothing to do */
+      },
+      async processError(args) {
+        errors.push(args);
+      },
+    });
+
+    await waitFor(() => session.isClosed());
+    // give the processor time to try accepting sessions again.
+    await delay(50);
+    await processor.close();
+
+    assert.lengthOf(errors, 1);
+    assert.equal(errors[0].errorSource, "receive");
+    assert.equal((errors[0].error as ServiceBusError).code, "UnauthorizedAccess");
+    assert.deepEqual(session.completed, ["1"]);
+  });
+
+  it("waits before trying again when sessions can't be locked", async () => {
+    let attempts = 0;
+    const processor = new ServiceBusSessionProcessorImpl(
+      async () => {
+        attempts++;
+        throw new ServiceBusError("The session is locked.", "SessionCannotBeLocked");
+      },
+      "queue",
+      "namespace.servicebus.windows.net",
+      "processor",
+      () => false,
+      50,
+      { maxConcurrentSessions: 1 }
+    );
+    const errors: ProcessErrorArgs[] = [];
+
+    processor.subscribe({
+      async processMessage() {
+        /* nothing to do */
+      },
+      async processError(args) {
+        errors.push(args);
+      },
+    });
+
+    await delay(120);
+    await processor.close();
+
+    assert.isAtLeast(attempts, 2);
+    assert.isAtMost(attempts, 4);
+    assert.isEmpty(errors);
+  });
+
+  it("can't subscribe twice or after being closed", async () => {
+    const processor = createProcessor([]);
+    const handlers = {
+      async processMessage() {
+        /* nothing to do */
+      },
+      async processError() {
+        /* nothing to do */
+      },
+    };
+
+    const subscription = processor.subscribe(handlers);
+    assert.throws(() => processor.subscribe(handlers), /already processing messages/);
+    await subscription.close();
+    assert.throws(() => processor.subscribe(handlers), /has been closed/);
+  });
+});
@@ -6,10 +6,10 @@ import {
   PipelineRequest,
   PipelineResponse,
   SendRequest,
+  hmacSigningPolicy,
 } from "@azure/core-rest-pipeline";
 import { HeaderConstants } from "./utils/constants";
 import { NamedKeyCredential } from "@azure/core-auth";
-import { computeHMACSHA256 } from "./utils/computeHMACSHA256";
 
 /**
  * The programmatic identifier of the tablesNamedKeyCredentialPolicy.
@@ -20,58 +20,28 @@ export const tablesNamedKeyCredentialPolicyName = "tablesNamedKeyCredentialPolic
  * tablesNamedKeyCredentialPolicy is a policy used to sign HTTP request with a shared key.
  */
 export function tablesNamedKeyCredentialPolicy(credential: NamedKeyCredential): PipelinePolicy {
-  function signRequest(request: PipelineRequest): void {
-    const headerValue = getAuthorizationHeader(request, credential);
-    request.headers.set(HeaderConstants.AUTHORIZATION, headerValue);
-  }
+  const signingPolicy = hmacSigningPolicy({
+    credential,
+    dateHeaderName: HeaderConstants.X_MS_DATE,
+    keepExistingDate: true,
+    stringToSign: [
+      { headers: [HeaderConstants.X_MS_DATE] },
+      (request) => getCanonicalizedResourceString(request, credential),
+    ],
+    formatAuthorization: (signature) => `SharedKeyLite ${credential.name}:${signature}`,
+  });
 
   return {
     name: tablesNamedKeyCredentialPolicyName,
     async sendRequest(request: PipelineRequest, next: SendRequest): Promise<PipelineResponse> {
-      signRequest(request);
-      return next(request);
+      if (request.body && typeof request.body === "string" && request.body.length > 0) {
+        request.headers.set(HeaderConstants.CONTENT_LENGTH, Buffer.byteLength(request.body));
+      }
+      return signingPolicy.sendRequest(request, next);
     },
   };
 }
 
-export function getAuthorizationHeader(
-  request: PipelineRequest,
-  credential: NamedKeyCredential
-): string {
-  if (!request.headers.has(HeaderConstants.X_MS_DATE)) {
-    request.headers.set(HeaderConstants.X_MS_DATE, new Date().toUTCString());
-  }
-
-  if (request.body && typeof request.body === "string" && request.body.length > 0) {
-    request.headers.set(HeaderConstants.CONTENT_LENGTH, Buffer.byteLength(request.body));
-  }
-
-  // If x-ms-date is present, use it otherwise date
-  const dateHeader = getHeaderValueToSign(request, HeaderConstants.X_MS_DATE);
-
-  if (!dateHeader) {
-    throw new Error("Failed to sign request: x-ms-date or date header must be present");
-  }
-
-  const stringToSign: string = [
-    dateHeader,
-    getCanonicalizedResourceString(request, credential),
-  ].join("\n");
-
-  const signature = computeHMACSHA256(stringToSign, credential.key);
-
-  return `SharedKeyLite ${credential.name}:${signature}`;
-}
-
-function getHeaderValueToSign(request: PipelineRequest, headerName: string): string {
-  const value = request.headers.get(headerName);
-
-  if (!value) {
-    return "";
-  }
-  return value;
-}
-
 function getCanonicalizedResourceString(
   request: PipelineRequest,
   credential: NamedKeyCredential